@@ -0,0 +1,72 @@
+/**
+ * Creates a team, or finds the existing one with that name, and adds users to it.
+ *
+ * ```bash
+ * pnpm team:create "Dnndon Outdoor" jane@example.com john@example.com
+ * pnpm team:create --adopt "Dnndon" jane@example.com
+ * ```
+ *
+ * `--adopt` moves the notifications, audit log entries, webhooks and webhook deliveries
+ * created before teams existed into the team, run it once for the first team. The users
+ * must exist already, see `pnpm user:create`. `MONGODB_URI` is read from the environment
+ * or `.env.local`.
+ */
+import mongoose from 'mongoose'
+
+/**
+ * Collections whose documents belong to a team
+ */
+const TEAM_COLLECTIONS = ['notifications', 'auditlogs', 'webhooks', 'webhookdeliveries']
+
+const args = process.argv.slice(2)
+const adopt = args.includes('--adopt')
+const [name, ...emails] = args.filter((arg) => arg !== '--adopt')
+if (!name?.trim()) {
+  console.error('Usage: pnpm team:create [--adopt] <name> [email...]')
+  process.exit(1)
+}
+
+try {
+  process.loadEnvFile?.('.env.local')
+} catch {
+  // No .env.local, MONGODB_URI must be in the environment
+}
+if (!process.env.MONGODB_URI) {
+  console.error('Please define the MONGODB_URI environment variable')
+  process.exit(1)
+}
+
+await mongoose.connect(process.env.MONGODB_URI)
+try {
+  const { db } = mongoose.connection
+  const now = new Date()
+  const team = await db
+    .collection('teams')
+    .findOneAndUpdate(
+      { name: name.trim() },
+      { $setOnInsert: { name: name.trim(), createdAt: now, updatedAt: now } },
+      { upsert: true, returnDocument: 'after' }
+    )
+  console.log(`Team ${team.name} (${team._id})`)
+
+  for (const email of emails) {
+    const result = await db
+      .collection('users')
+      .updateOne(
+        { email: email.trim().toLowerCase() },
+        { $addToSet: { teamIds: team._id }, $set: { updatedAt: now } }
+      )
+    console.log(result.matchedCount ? `Added ${email}` : `No user ${email}, skipped`)
+  }
+
+  if (adopt) {
+    for (const collection of TEAM_COLLECTIONS) {
+      const result = await db
+        .collection(collection)
+        .updateMany({ teamId: { $exists: false } }, { $set: { teamId: team._id } })
+      console.log(`Moved ${result.modifiedCount} ${collection} into the team`)
+    }
+  }
+} finally {
+  await mongoose.disconnect()
+}
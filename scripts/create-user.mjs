@@ -0,0 +1,114 @@
+/**
+ * Creates a user who can sign in, or sets the name and password of an existing one.
+ *
+ * ```bash
+ * pnpm user:create jane@example.com "Jane Doe"
+ * pnpm user:create --role=admin --team=Dnndon jane@example.com "Jane Doe"
+ * ```
+ *
+ * New users are viewers unless `--role` says otherwise, the role of an existing user only
+ * changes when `--role` is given. Same roles as `USER_ROLES` in `src/schemas/auth.schema.ts`.
+ * `--team` adds the user to an existing team, see `pnpm team:create`.
+ *
+ * The password is asked for, or read from `USER_PASSWORD`. `MONGODB_URI` is read from
+ * the environment or `.env.local`.
+ */
+import { randomBytes, scrypt } from 'node:crypto'
+import { createInterface } from 'node:readline/promises'
+import { promisify } from 'node:util'
+import mongoose from 'mongoose'
+
+const MIN_PASSWORD_LENGTH = 8
+
+const USER_ROLES = ['viewer', 'editor', 'admin']
+const DEFAULT_USER_ROLE = 'viewer'
+
+const scryptAsync = promisify(scrypt)
+
+/**
+ * Same format as `hashPassword` in `src/lib/auth/password.ts`: `scrypt$<salt>$<key>`
+ */
+const hashPassword = async (password) => {
+  const salt = randomBytes(16)
+  const key = await scryptAsync(password, salt, 64)
+  return ['scrypt', salt.toString('hex'), key.toString('hex')].join('$')
+}
+
+const readPassword = async () => {
+  if (process.env.USER_PASSWORD) return process.env.USER_PASSWORD
+
+  const readline = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    return await readline.question('Password: ')
+  } finally {
+    readline.close()
+  }
+}
+
+const args = process.argv.slice(2)
+const roleArg = args.find((arg) => arg.startsWith('--role='))
+const role = roleArg?.slice('--role='.length)
+const teamArg = args.find((arg) => arg.startsWith('--team='))
+const teamName = teamArg?.slice('--team='.length).trim()
+const [email, ...nameParts] = args.filter((arg) => arg !== roleArg && arg !== teamArg)
+const name = nameParts.join(' ').trim()
+if (!email || !name) {
+  console.error(
+    'Usage: pnpm user:create [--role=viewer|editor|admin] [--team=<name>] <email> <name>'
+  )
+  process.exit(1)
+}
+if (teamArg && !teamName) {
+  console.error('The team name must not be empty')
+  process.exit(1)
+}
+if (roleArg && !USER_ROLES.includes(role)) {
+  console.error(`The role must be one of ${USER_ROLES.join(', ')}`)
+  process.exit(1)
+}
+
+try {
+  process.loadEnvFile?.('.env.local')
+} catch {
+  // No .env.local, MONGODB_URI must be in the environment
+}
+if (!process.env.MONGODB_URI) {
+  console.error('Please define the MONGODB_URI environment variable')
+  process.exit(1)
+}
+
+const password = await readPassword()
+if (password.length < MIN_PASSWORD_LENGTH) {
+  console.error(`The password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  process.exit(1)
+}
+
+await mongoose.connect(process.env.MONGODB_URI)
+try {
+  const { db } = mongoose.connection
+  const team = teamName ? await db.collection('teams').findOne({ name: teamName }) : null
+  if (teamName && !team) {
+    console.error(`No team ${teamName}, create it with pnpm team:create first`)
+    process.exitCode = 1
+  } else {
+    const now = new Date()
+    const result = await db.collection('users').updateOne(
+      { email: email.trim().toLowerCase() },
+      {
+        $set: {
+          name,
+          passwordHash: await hashPassword(password),
+          ...(role && { role }),
+          updatedAt: now,
+        },
+        $setOnInsert: { ...(!role && { role: DEFAULT_USER_ROLE }), createdAt: now },
+        ...(team && { $addToSet: { teamIds: team._id } }),
+      },
+      { upsert: true }
+    )
+    console.log(result.upsertedCount ? `Created ${email}` : `Updated the password of ${email}`)
+    if (team) console.log(`Added ${email} to ${team.name}`)
+  }
+} finally {
+  await mongoose.disconnect()
+}
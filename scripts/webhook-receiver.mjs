@@ -0,0 +1,69 @@
+/**
+ * Local stand-in for a webhook endpoint, logs the deliveries it receives and checks
+ * their signature.
+ *
+ * Register `http://localhost:4000` as a webhook, then run with the secret it was
+ * created with:
+ *
+ * ```bash
+ * WEBHOOK_SECRET=whsec_... pnpm webhook:receiver
+ * ```
+ *
+ * Environment variables:
+ * - `PORT`: port to listen on, defaults to 4000
+ * - `WEBHOOK_SECRET`: secret the signatures are checked with, unchecked when absent
+ * - `FAIL_STATUS`: status to answer every delivery with, e.g. 500 to exercise the retries
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { createServer } from 'node:http'
+
+const port = Number(process.env.PORT ?? 4000)
+const secret = process.env.WEBHOOK_SECRET
+const failStatus = process.env.FAIL_STATUS ? Number(process.env.FAIL_STATUS) : undefined
+
+/**
+ * Same scheme as `src/lib/webhooks/signature.ts`: HMAC-SHA256 of `<timestamp>.<body>`
+ */
+const verify = (signature, timestamp, body) => {
+  if (!secret) return 'unchecked'
+  if (!signature || !timestamp) return 'missing'
+
+  const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+  const valid =
+    expected.length === signature.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  return valid ? 'valid' : 'INVALID'
+}
+
+const server = createServer((req, res) => {
+  const chunks = []
+  req.on('data', (chunk) => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const signature = verify(
+      req.headers['x-webhook-signature'],
+      req.headers['x-webhook-timestamp'],
+      body
+    )
+    const status = failStatus ?? (signature === 'INVALID' || signature === 'missing' ? 401 : 200)
+
+    console.log(
+      `${new Date().toISOString()} ${req.method} ${req.url} ${req.headers['x-webhook-event']} ` +
+        `delivery=${req.headers['x-webhook-id']} signature=${signature} -> ${status}`
+    )
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ received: status < 300 }))
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`)
+  if (!secret) console.log('WEBHOOK_SECRET is not set, signatures are not checked')
+  if (failStatus) console.log(`Answering every delivery with ${failStatus}`)
+})
@@ -0,0 +1,72 @@
+import { verifyPassword } from '@/lib/auth/password'
+import { createSession, serializeUser, setSessionCookie } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { handleRouteError, problem, validationProblem } from '@/lib/problem'
+import User, { type IUser } from '@/models/user.model'
+import { signInSchema } from '@/schemas/auth.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * POST handler for signing in with an email and password
+ *
+ * Starts a session and sets it as the `HttpOnly` session cookie. An unknown email and a
+ * wrong password are answered alike, so the response doesn't tell whether an account
+ * exists.
+ *
+ * @example
+ * ```ts
+ * POST /api/auth/login
+ * {
+ *   "email": "jane@example.com",
+ *   "password": "correct horse battery staple"
+ * }
+ *
+ * // 200, Set-Cookie: session=...
+ * { "id": "65f1c0ffee0000000000cafe", "email": "jane@example.com", "name": "Jane" }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the signed-in `SessionUser`
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` with per-field `errors` on validation error
+ * - 401 `invalid_credentials` if the email or password is wrong
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const parsed = signInSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid sign-in data')
+    }
+
+    const { email, password } = parsed.data
+    const user = await User.findOne({ email }).lean<IUser>().exec()
+    // Checked even without a user, so both take as long
+    const valid = await verifyPassword(password, user?.passwordHash)
+    if (!user || !valid) {
+      return problem({
+        status: 401,
+        code: 'invalid_credentials',
+        detail: 'Incorrect email or password',
+      })
+    }
+
+    const { token, expiresAt } = await createSession(String(user._id))
+    const response = NextResponse.json(serializeUser(user))
+    setSessionCookie(response, token, expiresAt)
+    return response
+  } catch (error) {
+    return handleRouteError(error, 'Failed to sign in')
+  }
+}
@@ -0,0 +1,32 @@
+import { clearSessionCookie, deleteSession } from '@/lib/auth/session'
+import { handleRouteError } from '@/lib/problem'
+import { NextRequest, NextResponse } from 'next/server'
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * POST handler for signing out
+ *
+ * Ends the session, its cookie is no longer accepted even if it was copied, and removes
+ * the cookie. Signing out when already signed out succeeds too.
+ *
+ * @example
+ * ```ts
+ * POST /api/auth/logout
+ * ```
+ *
+ * @returns JSON response indicating success
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await deleteSession(req.cookies)
+
+    const response = NextResponse.json({ success: true })
+    clearSessionCookie(response)
+    return response
+  } catch (error) {
+    return handleRouteError(error, 'Failed to sign out')
+  }
+}
@@ -0,0 +1,82 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { findAuditLogPage } from '@/lib/notifications/audit'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { hasPermission } from '@/schemas/auth.schema'
+import { auditLogQuerySchema, searchParamsToObject } from '@/schemas/notification.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET handler for the change history of a single notification, newest first
+ *
+ * Takes the same params as `GET /api/notifications/audit`. The history outlives the
+ * notification, so a deleted notification still has one ending with its `delete`.
+ * Notifications of another team have no history.
+ *
+ * @example
+ * ```ts
+ * GET /api/notifications/65f1c0ffee0000000000abcd/audit?limit=50
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing a page of audit log entries
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 400 `invalid_query` with per-param `errors` on invalid query parameters
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:read`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:read')) {
+      return forbiddenProblem('notifications:read')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return invalidIdProblem('Invalid notification ID')
+    }
+
+    const parsed = auditLogQuerySchema.safeParse(searchParamsToObject(req.nextUrl.searchParams))
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid query parameters', 'invalid_query')
+    }
+
+    return NextResponse.json(await findAuditLogPage({ teamId, notificationId: id }, parsed.data), {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch notification history')
+  }
+}
@@ -0,0 +1,372 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { recordAuditLog } from '@/lib/notifications/audit'
+import { parseIfMatch, toETag } from '@/lib/notifications/etag'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import { NOT_DELETED } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import { applyStatusTransition } from '@/lib/notifications/status'
+import {
+  conflictProblem,
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  notFoundProblem,
+  problem,
+  statusTransitionProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import Notification, { type INotification } from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import {
+  getScheduleErrors,
+  replaceNotificationSchema,
+  updateNotificationSchema,
+} from '@/schemas/notification.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Resolves and validates the `[id]` route segment
+ *
+ * @returns The notification ID, or `null` if it is not a valid ObjectId
+ */
+async function getNotificationId({ params }: RouteContext) {
+  const { id } = await params
+  return mongoose.isValidObjectId(id) ? id : null
+}
+
+/**
+ * GET handler for a single notification
+ *
+ * Returns every field of the notification including the `createdAt`/`updatedAt`
+ * timestamps maintained by the schema, and its version as the `ETag` header.
+ * Notifications in the Trash or of another team are not found.
+ *
+ * @example
+ * ```ts
+ * GET /api/notifications/65f1c0ffee0000000000abcd
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the notification
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:read`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if notification not found
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest, context: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:read')) {
+      return forbiddenProblem('notifications:read')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const id = await getNotificationId(context)
+    if (!id) {
+      return invalidIdProblem('Invalid notification ID')
+    }
+
+    const doc = await Notification.findOne({ _id: id, teamId, ...NOT_DELETED })
+      .lean<INotification>()
+      .exec()
+    if (!doc) {
+      return notFoundProblem('Notification not found')
+    }
+
+    return NextResponse.json(serializeNotification(doc), {
+      headers: {
+        'Cache-Control': 'no-store',
+        ETag: toETag(doc.__v),
+      },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch notification')
+  }
+}
+
+/**
+ * PUT handler for replacing a notification
+ *
+ * Replaces every editable field, validated with `replaceNotificationSchema`.
+ * `dateTime` only changes when it is sent, `updatedAt` records the modification.
+ * Send the notification's `ETag` as `If-Match` to only apply the update if nobody
+ * changed it in the meantime.
+ *
+ * @example
+ * ```ts
+ * PUT /api/notifications/65f1c0ffee0000000000abcd
+ * If-Match: "3"
+ * {
+ *   "type": "Photo",
+ *   "space": "230 X 500 PX",
+ *   "country": "UAE",
+ *   "city": "Dubai",
+ *   "status": "Delivered"
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the updated notification
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid, `invalid_json` if the body is not JSON
+ * - 400 `invalid_precondition` if `If-Match` is not an ETag returned by this API
+ * - 400 `validation_failed` with per-field `errors` on validation error, when
+ *   cancelling without a `cancellationReason` or when `endsAt` isn't after `scheduledAt`
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:write`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if notification not found
+ * - 409 `conflict` with the latest copy as `current` if `If-Match` is outdated
+ * - 409 `invalid_transition` with the latest copy as `current` if the status can't change
+ *   to the one sent, see `STATUS_TRANSITIONS`
+ * - 500 `internal_error` on server error
+ */
+export async function PUT(req: NextRequest, context: RouteContext) {
+  return updateNotification(req, context, replaceNotificationSchema)
+}
+
+/**
+ * PATCH handler for partially updating a notification
+ *
+ * Only the fields present in the body are changed, validated with
+ * `updateNotificationSchema`. Supports `If-Match` like `PUT`.
+ *
+ * @example
+ * ```ts
+ * PATCH /api/notifications/65f1c0ffee0000000000abcd
+ * {
+ *   "city": "Abu Dhabi"
+ * }
+ *
+ * PATCH /api/notifications/65f1c0ffee0000000000abcd
+ * {
+ *   "status": "Cancelled",
+ *   "cancellationReason": "The campaign was withdrawn"
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the updated notification
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid, `invalid_json` if the body is not JSON
+ * - 400 `invalid_precondition` if `If-Match` is not an ETag returned by this API
+ * - 400 `validation_failed` with per-field `errors` on validation error, when
+ *   cancelling without a `cancellationReason` or when `endsAt` isn't after `scheduledAt`
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:write`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if notification not found
+ * - 409 `conflict` with the latest copy as `current` if `If-Match` is outdated
+ * - 409 `invalid_transition` with the latest copy as `current` if the status can't change
+ *   to the one sent, see `STATUS_TRANSITIONS`
+ * - 500 `internal_error` on server error
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  return updateNotification(req, context, updateNotificationSchema)
+}
+
+/**
+ * Validates the request body against `schema`, applies it to the notification
+ * addressed by the route and builds the response.
+ *
+ * Status changes must follow `STATUS_TRANSITIONS`, cancelling takes a `cancellationReason`
+ * and `deliveredAt`/`cancelledAt` are stamped on the way. Changing `scheduledAt` leaves the
+ * status as is, the scheduler starts a `Scheduled` notification once it is due. The update is conditional on
+ * the version named by `If-Match`, when present, and otherwise on the version the
+ * transition was checked against, so a concurrent change fails with a conflict either
+ * way. It increments the version and the changed fields are recorded in the audit log.
+ *
+ * @param schema - `replaceNotificationSchema` for `PUT`, `updateNotificationSchema` for `PATCH`
+ */
+async function updateNotification(
+  req: NextRequest,
+  context: RouteContext,
+  schema: typeof replaceNotificationSchema | typeof updateNotificationSchema
+) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:write')) {
+      return forbiddenProblem('notifications:write')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const id = await getNotificationId(context)
+    if (!id) {
+      return invalidIdProblem('Invalid notification ID')
+    }
+
+    const expectedVersion = parseIfMatch(req.headers.get('If-Match'))
+    if (expectedVersion === null) {
+      return problem({
+        status: 400,
+        code: 'invalid_precondition',
+        detail: 'If-Match must be an ETag returned by this API',
+      })
+    }
+
+    const parsed = schema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid notification data')
+    }
+
+    // The transition is checked against the status the notification has now
+    const before = await Notification.findOne({ _id: id, teamId, ...NOT_DELETED })
+      .lean<INotification>()
+      .exec()
+    if (!before) {
+      return notFoundProblem('Notification not found')
+    }
+    if (expectedVersion !== undefined && before.__v !== expectedVersion) {
+      return conflictProblem(serializeNotification(before))
+    }
+
+    const { status, cancellationReason, ...fields } = parsed.data
+    const scheduleErrors = getScheduleErrors({
+      scheduledAt: fields.scheduledAt !== undefined ? fields.scheduledAt : before.scheduledAt,
+      endsAt: fields.endsAt !== undefined ? fields.endsAt : before.endsAt,
+    })
+    if (scheduleErrors) {
+      return problem({
+        status: 400,
+        code: 'validation_failed',
+        detail: 'Invalid schedule',
+        errors: scheduleErrors,
+      })
+    }
+
+    const transition = applyStatusTransition(before.status, { status, cancellationReason })
+    if ('errors' in transition) {
+      return statusTransitionProblem(transition.errors, serializeNotification(before))
+    }
+
+    // Only applies if nobody changed the notification since it was read above
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, teamId, ...NOT_DELETED, __v: before.__v },
+      { ...fields, ...transition.changes, $inc: { __v: 1 } },
+      { new: true, runValidators: true }
+    )
+      .lean<INotification>()
+      .exec()
+
+    if (!notification) {
+      const current = await Notification.findOne({ _id: id, teamId, ...NOT_DELETED })
+        .lean<INotification>()
+        .exec()
+      if (current) {
+        return conflictProblem(serializeNotification(current))
+      }
+      return notFoundProblem('Notification not found')
+    }
+    await recordAuditLog(session.user.email, [{ action: 'update', before, after: notification }])
+    const updated = serializeNotification(notification)
+    publishNotificationEvents([
+      { type: 'updated', notification: updated, previousStatus: before.status },
+    ])
+
+    return NextResponse.json(updated, {
+      headers: { ETag: toETag(notification.__v) },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to update notification')
+  }
+}
+
+/**
+ * DELETE handler for moving a notification to the Trash
+ *
+ * Sets `deletedAt`, the notification disappears from the list and can be restored with
+ * `POST /api/notifications/trash/[id]/restore` until the retention period purges it.
+ *
+ * @example
+ * ```ts
+ * DELETE /api/notifications/65f1c0ffee0000000000abcd
+ * ```
+ *
+ * @returns JSON response indicating success
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:delete`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if notification not found or already in the Trash
+ * - 500 `internal_error` on server error
+ */
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:delete')) {
+      return forbiddenProblem('notifications:delete')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const id = await getNotificationId(context)
+    if (!id) {
+      return invalidIdProblem('Invalid notification ID')
+    }
+
+    const deletedAt = new Date()
+    const before = await Notification.findOneAndUpdate(
+      { _id: id, teamId, ...NOT_DELETED },
+      { deletedAt, $inc: { __v: 1 } }
+    )
+      .lean<INotification>()
+      .exec()
+    if (!before) {
+      return notFoundProblem('Notification not found')
+    }
+    await recordAuditLog(session.user.email, [
+      { action: 'delete', before, after: { ...before, deletedAt } },
+    ])
+    publishNotificationEvents([{ type: 'deleted', id, teamId }])
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to delete notification')
+  }
+}
@@ -0,0 +1,85 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { findAuditLogPage } from '@/lib/notifications/audit'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { hasPermission } from '@/schemas/auth.schema'
+import { auditLogQuerySchema, searchParamsToObject } from '@/schemas/notification.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * GET handler for the audit log of every notification of the active team, newest first
+ *
+ * Every create, update and delete is recorded with the actor and the before/after
+ * values of the fields that changed, including for notifications deleted since.
+ *
+ * @example
+ * ```ts
+ * GET /api/notifications/audit?action=update,delete&actor=ops@dnndon.com&page=1&limit=20
+ *
+ * // 200
+ * {
+ *   "data": [
+ *     {
+ *       "id": "65f1c0ffee0000000000f00d",
+ *       "notificationId": "65f1c0ffee0000000000abcd",
+ *       "action": "update",
+ *       "actor": "ops@dnndon.com",
+ *       "changes": [{ "field": "status", "before": "In Progress", "after": "Cancelled" }],
+ *       "createdAt": "2025-02-20T08:30:00.000Z"
+ *     }
+ *   ],
+ *   "metadata": { "mode": "offset", "currentPage": 1, ... }
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing a page of audit log entries
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_query` with per-param `errors` on invalid query parameters
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:read`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:read')) {
+      return forbiddenProblem('notifications:read')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const parsed = auditLogQuerySchema.safeParse(searchParamsToObject(req.nextUrl.searchParams))
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid query parameters', 'invalid_query')
+    }
+
+    return NextResponse.json(await findAuditLogPage({ teamId }, parsed.data), {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch audit log')
+  }
+}
@@ -0,0 +1,288 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import {
+  AUDIT_FIELDS,
+  type AuditEvent,
+  type AuditSnapshot,
+  recordAuditLog,
+} from '@/lib/notifications/audit'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import { NOT_DELETED } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import { applyStatusTransition } from '@/lib/notifications/status'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import Notification, { type INotification } from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import { bulkNotificationSchema, type NotificationStatus } from '@/schemas/notification.schema'
+import {
+  type BulkNotificationResponse,
+  type BulkNotificationResult,
+  type NotificationEvent,
+} from '@/types/notifications.types'
+import { type ProblemCode } from '@/types/problem.types'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * Outcome of a bulk change applied to the notifications that exist
+ */
+interface BulkChange {
+  /** Changes to record in the audit log */
+  events: AuditEvent[]
+  /** Changes to publish to the open streams */
+  notificationEvents?: NotificationEvent[]
+  /** Why the change was not applied to a notification, by id */
+  rejected?: Map<string, BulkRejection>
+}
+
+/**
+ * Why a change was not applied to one notification
+ */
+interface BulkRejection {
+  code: ProblemCode
+  error: string
+}
+
+/**
+ * Rejection of a notification that changed between being loaded and being updated
+ */
+const CONFLICT: BulkRejection = {
+  code: 'conflict',
+  error: 'The notification was changed by someone else, reload it and try again',
+}
+
+/**
+ * A notification as loaded for a bulk change, the version makes each update conditional on
+ * it being unchanged since
+ */
+type BulkSnapshot = AuditSnapshot & Pick<INotification, '__v'>
+
+/**
+ * Applies `change` to the notifications among `ids` that exist in the team outside the
+ * Trash, records the changes it returns in the audit log, publishes them and reports the
+ * outcome of every id, in the order they were sent. Malformed and unknown ids, notifications
+ * of other teams and rejected changes fail individually.
+ */
+async function applyToEach(
+  ids: string[],
+  teamId: string,
+  actor: string,
+  change: (existing: BulkSnapshot[], teamId: string) => Promise<BulkChange>
+): Promise<BulkNotificationResult[]> {
+  const validIds = ids.filter((id) => mongoose.isValidObjectId(id))
+  const existing = await Notification.find({ _id: { $in: validIds }, teamId, ...NOT_DELETED })
+    .select(`${AUDIT_FIELDS} __v`)
+    .lean<BulkSnapshot[]>()
+    .exec()
+  const existingIds = new Set(existing.map((doc) => String(doc._id)))
+
+  const {
+    events,
+    notificationEvents = [],
+    rejected = new Map<string, BulkRejection>(),
+  } = existing.length ? await change(existing, teamId) : { events: [] }
+  await recordAuditLog(actor, events)
+  publishNotificationEvents(notificationEvents)
+
+  return ids.map((id): BulkNotificationResult => {
+    if (!mongoose.isValidObjectId(id)) {
+      return { id, ok: false, code: 'invalid_id', error: 'Invalid notification ID' }
+    }
+    if (!existingIds.has(id)) {
+      return { id, ok: false, code: 'not_found', error: 'Notification not found' }
+    }
+    const rejection = rejected.get(id)
+    if (rejection) {
+      return { id, ok: false, ...rejection }
+    }
+    return { id, ok: true }
+  })
+}
+
+/**
+ * Moves the notifications to the Trash one at a time, each update is conditional on the
+ * version loaded, like the single-notification PUT/PATCH. A notification edited or deleted
+ * meanwhile is left alone and fails with `conflict`, without being recorded or published.
+ */
+const moveToTrash = async (existing: BulkSnapshot[], teamId: string): Promise<BulkChange> => {
+  const rejected = new Map<string, BulkRejection>()
+  const events: AuditEvent[] = []
+  const notificationEvents: NotificationEvent[] = []
+  const now = new Date()
+
+  for (const before of existing) {
+    const deleted = await Notification.findOneAndUpdate(
+      { _id: before._id, teamId, ...NOT_DELETED, __v: before.__v },
+      { deletedAt: now, $inc: { __v: 1 } }
+    )
+      .select('_id')
+      .lean()
+      .exec()
+    if (!deleted) {
+      rejected.set(String(before._id), CONFLICT)
+      continue
+    }
+    events.push({ action: 'delete', before, after: { ...before, deletedAt: now } })
+    notificationEvents.push({ type: 'deleted', id: String(before._id), teamId })
+  }
+
+  return { events, notificationEvents, rejected }
+}
+
+/**
+ * Moves the notifications to `status` where `STATUS_TRANSITIONS` allows it, the others
+ * are rejected. Notifications already in `status` are left as they are.
+ *
+ * Each move is a conditional `findOneAndUpdate` on the version the transition was checked
+ * against, like the single-notification PUT/PATCH. A notification changed in any way
+ * meanwhile is left alone and fails with `conflict`, without being recorded or published.
+ */
+const setStatus =
+  (status: NotificationStatus, cancellationReason?: string) =>
+  async (existing: BulkSnapshot[], teamId: string): Promise<BulkChange> => {
+    const rejected = new Map<string, BulkRejection>()
+    const events: AuditEvent[] = []
+    const notificationEvents: NotificationEvent[] = []
+    const now = new Date()
+
+    for (const before of existing) {
+      if (before.status === status) continue
+
+      const transition = applyStatusTransition(before.status, { status, cancellationReason }, now)
+      if ('errors' in transition) {
+        const error = Object.values(transition.errors)[0][0]
+        rejected.set(String(before._id), { code: 'invalid_transition', error })
+        continue
+      }
+
+      const after = await Notification.findOneAndUpdate(
+        { _id: before._id, teamId, ...NOT_DELETED, __v: before.__v },
+        { ...transition.changes, $inc: { __v: 1 } },
+        { new: true }
+      )
+        .lean<INotification>()
+        .exec()
+      if (!after) {
+        rejected.set(String(before._id), CONFLICT)
+        continue
+      }
+
+      events.push({ action: 'update', before, after })
+      notificationEvents.push({
+        type: 'updated',
+        notification: serializeNotification(after),
+        previousStatus: before.status,
+      })
+    }
+
+    return { events, notificationEvents, rejected }
+  }
+
+/**
+ * POST handler for applying one action to many notifications
+ *
+ * Actions:
+ * - `delete`: moves the notifications to the Trash
+ * - `cancel`: sets their status to `Cancelled`, giving the `cancellationReason`
+ * - `setStatus`: sets their status to `status`, other than `Cancelled`
+ *
+ * Status changes follow `STATUS_TRANSITIONS`, notifications that can't move to the new
+ * status fail with `invalid_transition`, and ones changed or deleted by someone else while
+ * the action ran fail with `conflict`. Responds with the outcome for every id, so a
+ * partially applied request is still 200.
+ * Every notification changed is recorded in the audit log and published on
+ * `GET /api/notifications/stream`.
+ *
+ * @example
+ * ```ts
+ * POST /api/notifications/bulk
+ * {
+ *   "action": "setStatus",
+ *   "ids": ["65f1c0ffee0000000000abcd", "65f1c0ffee0000000000abce"],
+ *   "status": "Delivered"
+ * }
+ *
+ * // 200
+ * {
+ *   "action": "setStatus",
+ *   "results": [
+ *     { "id": "65f1c0ffee0000000000abcd", "ok": true },
+ *     { "id": "65f1c0ffee0000000000abce", "ok": false, "code": "not_found", "error": "..." }
+ *   ],
+ *   "succeeded": 1,
+ *   "failed": 1
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response with the per-id results
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` with per-field `errors` on an invalid action or id list
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:delete` for `delete`, or
+ *   `notifications:write` for the other actions
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const parsed = bulkNotificationSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid bulk action')
+    }
+
+    const input = parsed.data
+    const permission = input.action === 'delete' ? 'notifications:delete' : 'notifications:write'
+    if (!hasPermission(session.user.role, permission)) {
+      return forbiddenProblem(permission)
+    }
+
+    const results = await applyToEach(
+      input.ids,
+      teamId,
+      session.user.email,
+      input.action === 'delete'
+        ? moveToTrash
+        : input.action === 'cancel'
+          ? setStatus('Cancelled', input.cancellationReason)
+          : setStatus(input.status)
+    )
+
+    const succeeded = results.filter((result) => result.ok).length
+    const response: BulkNotificationResponse = {
+      action: input.action,
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    return handleRouteError(error, 'Failed to apply bulk action')
+  }
+}
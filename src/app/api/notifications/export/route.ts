@@ -0,0 +1,167 @@
+import { getSession } from '@/lib/auth/session'
+import { toCsvRow } from '@/lib/csv'
+import dbConnect from '@/lib/dbConnect'
+import { buildNotificationFilter, buildNotificationSort } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import Notification, { type INotification } from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import {
+  exportFormatSchema,
+  type ExportFormat,
+  notificationQuerySchema,
+  searchParamsToObject,
+} from '@/schemas/notification.schema'
+import { type Notification as NotificationDTO } from '@/types/notifications.types'
+import mongoose from 'mongoose'
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * Columns of the CSV export, in order
+ */
+const EXPORT_COLUMNS = [
+  'id',
+  'type',
+  'space',
+  'country',
+  'city',
+  'dateTime',
+  'status',
+  'scheduledAt',
+  'endsAt',
+  'deliveredAt',
+  'cancelledAt',
+  'cancellationReason',
+  'createdAt',
+  'updatedAt',
+] as const satisfies readonly (keyof NotificationDTO)[]
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+/**
+ * Streams the notifications read from `cursor` as CSV or a JSON array, one document
+ * at a time, so the export never holds the whole result set in memory
+ */
+function streamNotifications(
+  cursor: mongoose.Cursor<INotification, mongoose.QueryOptions>,
+  format: ExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let count = 0
+
+  return new ReadableStream({
+    start(controller) {
+      // The byte order mark makes spreadsheet apps read the CSV as UTF-8
+      controller.enqueue(
+        encoder.encode(format === 'csv' ? `\uFEFF${toCsvRow([...EXPORT_COLUMNS])}` : '[')
+      )
+    },
+    async pull(controller) {
+      const doc = await cursor.next()
+      if (!doc) {
+        if (format === 'json') controller.enqueue(encoder.encode(']'))
+        controller.close()
+        return
+      }
+
+      const notification = serializeNotification(doc)
+      const chunk =
+        format === 'csv'
+          ? toCsvRow(EXPORT_COLUMNS.map((column) => notification[column]))
+          : `${count ? ',' : ''}${JSON.stringify(notification)}`
+      count++
+      controller.enqueue(encoder.encode(chunk))
+    },
+    async cancel() {
+      // The download was aborted
+      await cursor.close()
+    },
+  })
+}
+
+/**
+ * GET handler exporting every notification of the active team matching the filters
+ *
+ * Takes the same `query`, `status`, `type`, `sort` and `order` params as
+ * `GET /api/notifications`, pagination params are ignored. The file is streamed from
+ * a Mongo cursor and downloaded as `notifications-<date>.<format>`. CSV cells starting
+ * with `=`, `+`, `-`, `@`, a tab or a carriage return are prefixed with `'`, see `escapeCsvField`.
+ *
+ * @example
+ * ```ts
+ * GET /api/notifications/export?format=csv&status=Delivered&sort=country&order=asc
+ * GET /api/notifications/export?format=json&query=dubai
+ * ```
+ *
+ * @returns {Promise<Response>} Streamed CSV or JSON file
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_query` with per-param `errors` on invalid query parameters or format
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:read`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:read')) {
+      return forbiddenProblem('notifications:read')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const params = searchParamsToObject(req.nextUrl.searchParams)
+    const parsedFormat = z.object({ format: exportFormatSchema }).safeParse(params)
+    if (!parsedFormat.success) {
+      return validationProblem(parsedFormat.error, 'Invalid export format', 'invalid_query')
+    }
+    const parsed = notificationQuerySchema.safeParse(params)
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid query parameters', 'invalid_query')
+    }
+
+    const query = parsed.data
+    const { format } = parsedFormat.data
+    const cursor = Notification.find(buildNotificationFilter(query, { teamId }))
+      .sort(buildNotificationSort(query))
+      .lean<INotification>()
+      .cursor()
+
+    const date = new Date().toISOString().slice(0, 10)
+
+    return new Response(streamNotifications(cursor, format), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="notifications-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to export notifications')
+  }
+}
@@ -0,0 +1,218 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { recordAuditLog } from '@/lib/notifications/audit'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import { NOT_DELETED } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import { applyStatusTransition } from '@/lib/notifications/status'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import Notification from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import {
+  type CreateNotificationInput,
+  createNotificationSchema,
+  getInitialStatus,
+  getScheduleErrors,
+  importNotificationsSchema,
+  toFieldErrors,
+} from '@/schemas/notification.schema'
+import { type ImportNotificationsResponse, type ImportRowResult } from '@/types/notifications.types'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * Identifies a placement, two rows with the same key describe the same notification
+ */
+const duplicateKey = ({ type, space, country, city, dateTime }: CreateNotificationInput) =>
+  JSON.stringify([type, space, country, city, dateTime ? new Date(dateTime).getTime() : null])
+
+/**
+ * Finds which of the rows already exist in the team outside the Trash, only rows with a
+ * `dateTime` can match since rows without one are placed at the time of the import
+ */
+async function findExistingKeys(teamId: string, rows: CreateNotificationInput[]) {
+  const dated = rows.filter((row) => row.dateTime)
+  if (!dated.length) return new Set<string>()
+
+  const existing = await Notification.find({
+    teamId,
+    ...NOT_DELETED,
+    $or: dated.map(({ type, space, country, city, dateTime }) => ({
+      type,
+      space,
+      country,
+      city,
+      dateTime: new Date(dateTime!),
+    })),
+  })
+    .select('type space country city dateTime')
+    .lean<(Omit<CreateNotificationInput, 'dateTime'> & { dateTime: Date })[]>()
+    .exec()
+
+  return new Set(
+    existing.map((doc) => duplicateKey({ ...doc, dateTime: doc.dateTime.toISOString() }))
+  )
+}
+
+/**
+ * POST handler importing a batch of notifications, e.g. the rows of a partner's CSV
+ * mapped to notification fields. They are added to the active team.
+ *
+ * Every row is validated with `createNotificationSchema` on its own:
+ * - invalid rows fail with their per-field `errors`, like `Cancelled` rows without a
+ *   `cancellationReason`
+ * - rows repeating an earlier row, or an existing notification at the same `dateTime`,
+ *   are skipped
+ * - the remaining rows are inserted in one batch, each recorded in the audit log
+ *
+ * @example
+ * ```ts
+ * POST /api/notifications/import
+ * {
+ *   "rows": [
+ *     { "type": "Photo", "space": "230 X 500 PX", "country": "UAE", "city": "Dubai" },
+ *     { "type": "Video", "space": "", "country": "UAE", "city": "Dubai" }
+ *   ]
+ * }
+ *
+ * // 200
+ * {
+ *   "inserted": 1,
+ *   "skipped": 0,
+ *   "failed": 1,
+ *   "results": [
+ *     { "row": 1, "status": "inserted" },
+ *     { "row": 2, "status": "failed", "errors": { "type": [...], "space": [...] } }
+ *   ]
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response with the counts and per-row results
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` if there are no rows or too many
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:write`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:write')) {
+      return forbiddenProblem('notifications:write')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const parsed = importNotificationsSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid import')
+    }
+
+    const results: ImportRowResult[] = []
+    const valid: { index: number; data: CreateNotificationInput; doc: Record<string, unknown> }[] =
+      []
+
+    const now = new Date()
+
+    parsed.data.rows.forEach((row, index) => {
+      const result = createNotificationSchema.safeParse(row)
+      if (!result.success) {
+        results[index] = { row: index + 1, status: 'failed', errors: toFieldErrors(result.error) }
+        return
+      }
+
+      // Same rules as creating a notification, see `POST /api/notifications`
+      const { status, cancellationReason, ...fields } = result.data
+      const scheduleErrors = getScheduleErrors(fields)
+      if (scheduleErrors) {
+        results[index] = { row: index + 1, status: 'failed', errors: scheduleErrors }
+        return
+      }
+      const initialStatus = getInitialStatus(fields.scheduledAt, now)
+      const transition = applyStatusTransition(initialStatus, { status, cancellationReason }, now)
+      if ('errors' in transition) {
+        results[index] = { row: index + 1, status: 'failed', errors: transition.errors }
+        return
+      }
+      valid.push({
+        index,
+        data: result.data,
+        doc: { ...fields, teamId, status: initialStatus, ...transition.changes },
+      })
+    })
+
+    const existingKeys = await findExistingKeys(
+      teamId,
+      valid.map(({ data }) => data)
+    )
+    const seenKeys = new Set<string>()
+    const toInsert: Record<string, unknown>[] = []
+
+    for (const { index, data, doc } of valid) {
+      const key = duplicateKey(data)
+      if (existingKeys.has(key)) {
+        results[index] = { row: index + 1, status: 'skipped', reason: 'Already exists' }
+      } else if (seenKeys.has(key)) {
+        results[index] = {
+          row: index + 1,
+          status: 'skipped',
+          reason: 'Duplicate of an earlier row',
+        }
+      } else {
+        seenKeys.add(key)
+        toInsert.push(doc)
+        results[index] = { row: index + 1, status: 'inserted' }
+      }
+    }
+
+    if (toInsert.length) {
+      const inserted = await Notification.insertMany(toInsert)
+      await recordAuditLog(
+        session.user.email,
+        inserted.map((notification) => ({ action: 'create', after: notification }))
+      )
+      publishNotificationEvents(
+        inserted.map((notification) => ({
+          type: 'created',
+          notification: serializeNotification(notification),
+        }))
+      )
+    }
+
+    const count = (status: ImportRowResult['status']) =>
+      results.filter((result) => result.status === status).length
+    const response: ImportNotificationsResponse = {
+      inserted: count('inserted'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      results,
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    return handleRouteError(error, 'Failed to import notifications')
+  }
+}
@@ -0,0 +1,122 @@
+import dbConnect from '@/lib/dbConnect'
+import {
+  getReceiptsSecret,
+  processReceipt,
+  RECEIPTS_SECRET_ENV,
+} from '@/lib/notifications/receipts'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import {
+  handleRouteError,
+  invalidIdProblem,
+  notFoundProblem,
+  problem,
+  statusTransitionProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from '@/lib/webhooks/signature'
+import { receiptSchema } from '@/schemas/receipt.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * POST handler for delivery receipts
+ *
+ * Screen players and delivery providers report that a notification is in progress,
+ * was delivered or failed to deliver. The notification moves to `In Progress`,
+ * `Delivered` or `Cancelled` through the same transition checks as an edit, and the
+ * change is recorded in the audit log and published on the event stream. A failed
+ * delivery becomes the cancellation reason.
+ *
+ * The raw body must be signed like the outbound webhooks: `X-Webhook-Signature` is
+ * `sha256=` followed by the hex HMAC-SHA256 of `<timestamp>.<body>` keyed with the
+ * `RECEIPTS_SECRET` environment variable, `X-Webhook-Timestamp` the Unix time in seconds
+ * it was signed at. Receipts are only accepted when `RECEIPTS_SECRET` is set.
+ *
+ * Receipts are idempotent on `receiptId`: sending one again answers with the outcome
+ * recorded the first time, `duplicate: true`, and changes nothing.
+ *
+ * @example
+ * ```ts
+ * POST /api/notifications/receipts
+ * X-Webhook-Timestamp: 1767225600
+ * X-Webhook-Signature: sha256=5d41...
+ * {
+ *   "receiptId": "player-17:42",
+ *   "notificationId": "65f1c0ffee0000000000abcd",
+ *   "status": "failed",
+ *   "reason": "Screen offline",
+ *   "source": "player-17"
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON `NotificationReceiptResult`
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` with per-field `errors` on validation error
+ * - 400 `invalid_id` if `notificationId` is invalid
+ * - 401 `invalid_signature` if the signature is missing, wrong or too old
+ * - 404 `not_found` if notification not found or in the Trash
+ * - 409 `conflict` if `receiptId` was already used for another notification or status
+ * - 409 `invalid_transition` with the latest copy as `current` if the status can't change
+ *   to the reported one, see `STATUS_TRANSITIONS`
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // The signature covers the raw body, it is read before being parsed
+    const body = await req.text()
+    const secret = getReceiptsSecret()
+    const signed =
+      secret &&
+      verifySignature(secret, {
+        signature: req.headers.get(SIGNATURE_HEADER),
+        timestamp: req.headers.get(TIMESTAMP_HEADER),
+        body,
+      })
+    if (!signed) {
+      return problem({
+        status: 401,
+        code: 'invalid_signature',
+        detail: secret
+          ? `${SIGNATURE_HEADER} is missing, invalid or signed too long ago`
+          : `Receipts are not accepted, ${RECEIPTS_SECRET_ENV} is not set`,
+      })
+    }
+
+    const parsed = receiptSchema.safeParse(JSON.parse(body))
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid receipt')
+    }
+    if (!mongoose.isValidObjectId(parsed.data.notificationId)) {
+      return invalidIdProblem('Invalid notification ID')
+    }
+
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const outcome = await processReceipt(parsed.data)
+    switch (outcome.result) {
+      case 'not_found':
+        return notFoundProblem('Notification not found')
+      case 'reused':
+        return problem({
+          status: 409,
+          code: 'conflict',
+          detail: `Receipt ${parsed.data.receiptId} was already used for another notification or status`,
+        })
+      case 'rejected':
+        return statusTransitionProblem(outcome.errors, serializeNotification(outcome.current))
+      case 'applied':
+        return NextResponse.json(outcome.receipt)
+    }
+  } catch (error) {
+    return handleRouteError(error, 'Failed to process receipt')
+  }
+}
@@ -1,7 +1,47 @@
+import { getSession } from '@/lib/auth/session'
 import dbConnect from '@/lib/dbConnect'
-import Notification from '@/models/notification.model'
-import { type NotificationResponse } from '@/types/notifications.types'
-import mongoose from 'mongoose'
+import { recordAuditLog } from '@/lib/notifications/audit'
+import {
+  buildCursorFilter,
+  CURSOR_SORT,
+  decodeCursor,
+  encodeCursor,
+  REVERSE_CURSOR_SORT,
+} from '@/lib/notifications/cursor'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import {
+  buildNotificationFilter,
+  buildNotificationSort,
+  InvalidQueryError,
+} from '@/lib/notifications/query'
+import { toETag } from '@/lib/notifications/etag'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import { applyStatusTransition } from '@/lib/notifications/status'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  problem,
+  statusTransitionProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import Notification, { type INotification } from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import {
+  createNotificationSchema,
+  getInitialStatus,
+  getScheduleErrors,
+  notificationQuerySchema,
+  type NotificationQuery,
+  searchParamsToObject,
+} from '@/schemas/notification.schema'
+import {
+  type CursorPaginationMetadata,
+  type NotificationResponse,
+  type OffsetPaginationMetadata,
+} from '@/types/notifications.types'
+import mongoose, { type FilterQuery } from 'mongoose'
 import { NextRequest, NextResponse } from 'next/server'
 
 // Cache connection promise
@@ -10,14 +50,118 @@ let connectionPromise: Promise<typeof mongoose> | null = null
 export const dynamic = 'force-dynamic' // defaults to auto
 
 /**
- * GET handler for notifications with optimized pagination
+ * Fields returned by the list endpoint
+ */
+const LIST_FIELDS =
+  'teamId type space country city dateTime status scheduledAt endsAt deliveredAt cancelledAt cancellationReason createdAt updatedAt __v'
+
+/**
+ * Finds a page of notifications using `skip`/`limit` offset pagination
+ */
+async function findOffsetPage(filter: FilterQuery<INotification>, query: NotificationQuery) {
+  const { page, limit } = query
+  const skip = (page - 1) * limit
+  const sort = buildNotificationSort(query)
+
+  // Execute queries in parallel
+  const [notifications, totalCount] = await Promise.all([
+    Notification.find(filter)
+      .select(LIST_FIELDS) // Select only needed fields
+      .sort(sort)
+      .skip(skip)
+      .limit(limit)
+      .lean<INotification[]>()
+      .exec(), // Add exec() for better performance
+    Notification.countDocuments(filter).exec(),
+  ])
+
+  const metadata: OffsetPaginationMetadata = {
+    mode: 'offset',
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / limit),
+    pageSize: limit,
+    totalCount,
+  }
+
+  return { notifications, metadata }
+}
+
+/**
+ * Finds a page of notifications using keyset pagination over `{ dateTime: -1, _id: -1 }`.
+ *
+ * Pages are addressed by the opaque `after`/`before` cursors returned in the metadata,
+ * so rows don't shift when new notifications arrive and deep pages stay as fast as the first.
+ * One extra row is fetched to know whether another page exists in the paging direction,
+ * the filtered set isn't counted so every page costs the same.
+ */
+async function findCursorPage(filter: FilterQuery<INotification>, query: NotificationQuery) {
+  const { limit, after, before } = query
+  const backwards = Boolean(before)
+  const cursor = after || before
+  const pageFilter = cursor
+    ? { $and: [filter, buildCursorFilter(decodeCursor(cursor), backwards ? 'before' : 'after')] }
+    : filter
+
+  const rows = await Notification.find(pageFilter)
+    .select(LIST_FIELDS)
+    .sort(backwards ? REVERSE_CURSOR_SORT : CURSOR_SORT)
+    .limit(limit + 1)
+    .lean<INotification[]>()
+    .exec()
+
+  const hasMore = rows.length > limit
+  const notifications = rows.slice(0, limit)
+  if (backwards) notifications.reverse()
+
+  const first = notifications[0]
+  const last = notifications[notifications.length - 1]
+  const toCursor = (doc: INotification) =>
+    encodeCursor({ dateTime: doc.dateTime, id: String(doc._id) })
+
+  const metadata: CursorPaginationMetadata = {
+    mode: 'cursor',
+    pageSize: limit,
+    nextCursor: last && (backwards || hasMore) ? toCursor(last) : null,
+    prevCursor: first && (backwards ? hasMore : Boolean(after)) ? toCursor(first) : null,
+  }
+
+  return { notifications, metadata }
+}
+
+/**
+ * GET handler for notifications with optimized pagination, filtering and sorting
+ *
+ * Only the notifications of the active team of the signed-in user are listed.
+ *
+ * Supports filtering by `status` and `type` (comma separated for multiple values)
+ * and a free-text `query` matched against the text fields.
+ * In offset mode `totalCount` and `totalPages` reflect the filtered set.
+ *
+ * Sorting uses `sort` (comma separated fields) and `order` (matching comma separated
+ * `asc`/`desc` directions) and defaults to the newest notifications first.
+ *
+ * Pagination is offset based (`page`/`limit`) by default. Pass `mode=cursor` to opt into
+ * keyset pagination instead: the metadata then contains opaque `nextCursor`/`prevCursor`
+ * values to send back as `after`/`before` and no total. Cursor mode always uses the default
+ * order and rejects `sort`.
  *
  * @param {NextRequest} req - The incoming request object
  *
  * @example
  * ```ts
  * GET /api/notifications?page=1&limit=10
+ * GET /api/notifications?query=dubai&status=Delivered,Cancelled&type=Photo
+ * GET /api/notifications?sort=country,city&order=asc,desc
+ * GET /api/notifications?mode=cursor&limit=50
+ * GET /api/notifications?mode=cursor&limit=50&after=<nextCursor>
  * ```
+ *
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_query` with per-param `errors` on invalid query parameters or cursor
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:read`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
  */
 export async function GET(req: NextRequest) {
   try {
@@ -27,40 +171,34 @@ export async function GET(req: NextRequest) {
     }
     await connectionPromise
 
-    const searchParams = req.nextUrl.searchParams
-    const page = Number(searchParams.get('page')) || 1
-    const limit = Number(searchParams.get('limit')) || 10
-    const skip = (page - 1) * limit
-
-    // Execute queries in parallel
-    const [notifications, totalCount] = await Promise.all([
-      Notification.find()
-        .select('type space country city dateTime status') // Select only needed fields
-        .sort({ dateTime: -1 })
-        .skip(skip)
-        .limit(limit)
-        .lean()
-        .exec(), // Add exec() for better performance
-      Notification.countDocuments().exec(),
-    ])
-
-    // Optimize the mapping operation
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:read')) {
+      return forbiddenProblem('notifications:read')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const parsed = notificationQuerySchema.safeParse(searchParamsToObject(req.nextUrl.searchParams))
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid query parameters', 'invalid_query')
+    }
+
+    const query = parsed.data
+    const filter = buildNotificationFilter(query, { teamId })
+
+    const { notifications, metadata } =
+      query.mode === 'cursor'
+        ? await findCursorPage(filter, query)
+        : await findOffsetPage(filter, query)
+
     const response: NotificationResponse = {
-      data: notifications.map((doc) => ({
-        id: (doc._id as mongoose.Types.ObjectId).toString(),
-        type: doc.type,
-        space: doc.space,
-        country: doc.country,
-        city: doc.city,
-        dateTime: new Date(doc.dateTime).toLocaleString(),
-        status: doc.status,
-      })),
-      metadata: {
-        currentPage: page,
-        totalPages: Math.ceil(totalCount / limit),
-        pageSize: limit,
-        totalCount,
-      },
+      data: notifications.map(serializeNotification),
+      metadata,
     }
 
     // Return response with proper cache headers
@@ -70,27 +208,27 @@ export async function GET(req: NextRequest) {
       },
     })
   } catch (error) {
-    console.error('Error in notifications API:', error)
-    return NextResponse.json(
-      { error: 'Internal Server Error' },
-      {
-        status: 500,
-        headers: {
-          'Cache-Control': 'no-store',
-        },
-      }
-    )
+    if (error instanceof InvalidQueryError) {
+      return problem({ status: 400, code: 'invalid_query', detail: error.message })
+    }
+    return handleRouteError(error, 'Failed to fetch notifications')
   }
 }
 
 /**
  * POST handler for creating notifications
  *
- * Validates required fields and generates:
+ * Validates the body against `createNotificationSchema` and generates:
  * - Unique ID
  * - Timestamp
  * - Default status
  *
+ * The notification belongs to the active team of the signed-in user.
+ *
+ * A notification with a future `scheduledAt` starts `Scheduled` and goes live once it is
+ * due, see `runScheduler`. A `Delivered` or `Cancelled` notification gets its `deliveredAt`
+ * or `cancelledAt`, see `applyStatusTransition`. The creation is recorded in the audit log.
+ *
  * @param {NextRequest} req - The incoming request object
  *
  * @example
@@ -105,9 +243,16 @@ export async function GET(req: NextRequest) {
  * ```
  *
  * @returns {Promise<NextResponse>} JSON response containing the created notification
- * @throws {NextResponse}
- * - 400 status code on validation error
- * - 500 status code on server error
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` with per-field `errors` on validation error, when a
+ *   `Cancelled` notification has no `cancellationReason` or `endsAt` isn't after `scheduledAt`
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:write`
+ * - 403 `no_team` if not a member of any team
+ * - 409 `invalid_transition` if the status can't follow the initial one, e.g. `Scheduled`
+ *   without a future `scheduledAt`
+ * - 500 `internal_error` on server error
  */
 export async function POST(req: NextRequest) {
   try {
@@ -116,129 +261,58 @@ export async function POST(req: NextRequest) {
     }
     await connectionPromise
 
-    const data = await req.json()
-    const notification = await Notification.create(data)
-
-    // Convert to plain object once
-    const notificationObj = notification.toObject()
-
-    return NextResponse.json(
-      {
-        ...notificationObj,
-        id: notificationObj._id.toString(),
-        dateTime: new Date(notificationObj.dateTime).toLocaleString(),
-      },
-      { status: 201 }
-    )
-  } catch (error) {
-    console.error('Error adding notification:', error)
-    if (error instanceof mongoose.Error.ValidationError) {
-      return NextResponse.json({ error: error.message }, { status: 400 })
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
     }
-    return NextResponse.json({ error: 'Failed to add notification' }, { status: 500 })
-  }
-}
-
-/**
- * DELETE handler for removing notifications
- *
- * Removes a notification by ID and revalidates the cache
- *
- * @param - The incoming request object
- *
- * @example
- * ```ts
- * DELETE /api/notifications?id=notification-id
- * ```
- *
- * @returns JSON response indicating success
- * @throws
- * - 400 status code if ID is missing
- * - 404 status code if notification not found
- * - 500 status code on server error
- */
-export async function DELETE(req: NextRequest) {
-  try {
-    if (!connectionPromise) {
-      connectionPromise = dbConnect()
+    if (!hasPermission(session.user.role, 'notifications:write')) {
+      return forbiddenProblem('notifications:write')
     }
-    await connectionPromise
-
-    const id = req.nextUrl.searchParams.get('id')
-    if (!id) {
-      return NextResponse.json({ error: 'Missing notification ID' }, { status: 400 })
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
     }
 
-    const result = await Notification.findByIdAndDelete(id).exec()
-    if (!result) {
-      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    const parsed = createNotificationSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid notification data')
     }
 
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    console.error('Error deleting notification:', error)
-    return NextResponse.json({ error: 'Failed to delete notification' }, { status: 500 })
-  }
-}
-
-/**
- * PUT handler for updating notifications
- *
- * Updates an existing notification by ID and revalidates the cache.
- * Automatically updates the timestamp when changes are made.
- *
- * @param {NextRequest} req - The incoming request object
- *
- * @example
- * ```ts
- * PUT /api/notifications?id=notification-id
- * {
- *   "status": "Delivered",
- *   "city": "New City"
- * }
- * ```
- *
- * @returns {Promise<NextResponse>} JSON response containing the updated notification
- * @throws {NextResponse}
- * - 400 status code if ID is missing
- * - 404 status code if notification not found
- * - 500 status code on server error
- */
-export async function PUT(req: NextRequest) {
-  try {
-    if (!connectionPromise) {
-      connectionPromise = dbConnect()
+    const scheduleErrors = getScheduleErrors(parsed.data)
+    if (scheduleErrors) {
+      return problem({
+        status: 400,
+        code: 'validation_failed',
+        detail: 'Invalid schedule',
+        errors: scheduleErrors,
+      })
     }
-    await connectionPromise
 
-    const id = req.nextUrl.searchParams.get('id')
-    if (!id) {
-      return NextResponse.json({ error: 'Missing notification ID' }, { status: 400 })
+    // A new notification starts out `In Progress`, or `Scheduled` when `scheduledAt` is still
+    // ahead, any other status is a transition from that one
+    const { status, cancellationReason, ...fields } = parsed.data
+    const initialStatus = getInitialStatus(fields.scheduledAt)
+    const transition = applyStatusTransition(initialStatus, { status, cancellationReason })
+    if ('errors' in transition) {
+      return statusTransitionProblem(transition.errors)
     }
 
-    const updates = await req.json()
-    const notification = await Notification.findByIdAndUpdate(
-      id,
-      { ...updates, dateTime: new Date() },
-      { new: true, runValidators: true }
-    ).exec()
-
-    if (!notification) {
-      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
-    }
+    const notification = await Notification.create({
+      ...fields,
+      teamId,
+      status: initialStatus,
+      ...transition.changes,
+    })
+    await recordAuditLog(session.user.email, [{ action: 'create', after: notification }])
+    const created = serializeNotification(notification)
+    publishNotificationEvents([{ type: 'created', notification: created }])
 
-    const notificationObj = notification.toObject()
-    return NextResponse.json({
-      ...notificationObj,
-      id: notificationObj._id.toString(),
-      dateTime: new Date(notificationObj.dateTime).toLocaleString(),
+    return NextResponse.json(created, {
+      status: 201,
+      headers: { ETag: toETag(notification.__v) },
     })
   } catch (error) {
-    console.error('Error updating notification:', error)
-    if (error instanceof mongoose.Error.ValidationError) {
-      return NextResponse.json({ error: error.message }, { status: 400 })
-    }
-    return NextResponse.json({ error: 'Failed to update notification' }, { status: 500 })
+    return handleRouteError(error, 'Failed to add notification')
   }
 }
 
@@ -0,0 +1,113 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { buildNotificationFilter } from '@/lib/notifications/query'
+import { getNotificationStats, getStatsRange, MAX_STATS_BUCKETS } from '@/lib/notifications/stats'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  problem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { hasPermission } from '@/schemas/auth.schema'
+import {
+  notificationQuerySchema,
+  searchParamsToObject,
+  statsQuerySchema,
+} from '@/schemas/notification.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * GET handler for notification statistics
+ *
+ * Takes the same `query`, `status` and `type` filters as `GET /api/notifications`,
+ * pagination and sort params are ignored. Returns, for the matching notifications of
+ * the active team:
+ * - `total`, and the `deliveryRate`/`cancellationRate` percentages
+ * - how many were delivered and cancelled `today`, since midnight in `timeZone`
+ * - counts per status and type, and for the `top` countries and cities
+ * - a time series of `dateTime` in `interval` buckets (`hour`, `day` or `week`) between
+ *   `from` and `to`, starting in `timeZone` (UTC by default)
+ *
+ * `to` defaults to now and `from` to 48 hours, 30 days or 26 weeks before it.
+ *
+ * @example
+ * ```ts
+ * GET /api/notifications/stats?status=Delivered,Cancelled&interval=week&timeZone=Asia/Dubai
+ * GET /api/notifications/stats?query=dubai&interval=hour&from=2025-02-20T00:00:00Z&top=5
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the `NotificationStats`
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_query` with per-param `errors` on invalid query parameters, or when
+ *   the time series would have more than `MAX_STATS_BUCKETS` buckets
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:read`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:read')) {
+      return forbiddenProblem('notifications:read')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const params = searchParamsToObject(req.nextUrl.searchParams)
+    const parsedStats = statsQuerySchema.safeParse(params)
+    if (!parsedStats.success) {
+      return validationProblem(parsedStats.error, 'Invalid query parameters', 'invalid_query')
+    }
+    const parsed = notificationQuerySchema.safeParse(params)
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid query parameters', 'invalid_query')
+    }
+
+    const statsQuery = parsedStats.data
+    if (getStatsRange(statsQuery).buckets > MAX_STATS_BUCKETS) {
+      return problem({
+        status: 400,
+        code: 'invalid_query',
+        detail: 'Invalid query parameters',
+        errors: {
+          interval: [
+            `The range holds more than ${MAX_STATS_BUCKETS} ${statsQuery.interval} buckets, ` +
+              'use a larger interval or a shorter range',
+          ],
+        },
+      })
+    }
+
+    const stats = await getNotificationStats(
+      buildNotificationFilter(parsed.data, { teamId }),
+      statsQuery
+    )
+
+    return NextResponse.json(stats, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch notification statistics')
+  }
+}
@@ -0,0 +1,114 @@
+import { getSession } from '@/lib/auth/session'
+import { getEventTeamId, getNotificationEventBus } from '@/lib/notifications/events'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  unauthorizedProblem,
+} from '@/lib/problem'
+import { hasPermission } from '@/schemas/auth.schema'
+import { type NotificationEvent } from '@/types/notifications.types'
+import { NextRequest } from 'next/server'
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * Milliseconds between comments keeping an idle connection open through proxies
+ */
+const HEARTBEAT_INTERVAL = 25 * 1000
+
+/**
+ * Milliseconds the browser waits before reconnecting a dropped stream
+ */
+const RECONNECT_DELAY = 5 * 1000
+
+const encoder = new TextEncoder()
+
+const toMessage = (event: NotificationEvent) =>
+  encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+
+/**
+ * GET handler for the live stream of changes to the notifications
+ *
+ * Server-Sent Events, one per notification of the active team created, updated or deleted
+ * on this server instance from the moment the stream opens. Each `created`, `updated` or `deleted`
+ * event carries a `NotificationEvent` as JSON data. Moving to the Trash and purging are
+ * both `deleted`, restoring is `created`.
+ *
+ * Events missed while disconnected are not replayed, refetch after reconnecting.
+ *
+ * @example
+ * ```ts
+ * GET /api/notifications/stream
+ *
+ * // event: updated
+ * // data: {"type":"updated","notification":{"id":"65f1c0ffee0000000000abcd",...}}
+ * ```
+ *
+ * @returns {Promise<Response>} `text/event-stream` response, open until the client leaves
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:read`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:read')) {
+      return forbiddenProblem('notifications:read')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const bus = getNotificationEventBus()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const unsubscribe = bus.subscribe((event) => {
+          if (getEventTeamId(event) === teamId) controller.enqueue(toMessage(event))
+        })
+        const heartbeat = setInterval(
+          () => controller.enqueue(encoder.encode(': heartbeat\n\n')),
+          HEARTBEAT_INTERVAL
+        )
+
+        cleanup = () => {
+          unsubscribe()
+          clearInterval(heartbeat)
+        }
+        req.signal.addEventListener('abort', () => {
+          cleanup()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the runtime
+          }
+        })
+
+        controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY}\n\n`))
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Keep reverse proxies such as nginx from buffering the events
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to open the notification stream')
+  }
+}
@@ -0,0 +1,96 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { recordAuditLog } from '@/lib/notifications/audit'
+import { toETag } from '@/lib/notifications/etag'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import { IN_TRASH } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  notFoundProblem,
+  unauthorizedProblem,
+} from '@/lib/problem'
+import Notification, { type INotification } from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST handler for restoring a notification from the Trash
+ *
+ * Clears `deletedAt`, so the notification is listed again with the values it had
+ * when it was deleted. The restore is recorded in the audit log.
+ *
+ * @example
+ * ```ts
+ * POST /api/notifications/trash/65f1c0ffee0000000000abcd/restore
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the restored notification
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:delete`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if the notification is not in the Trash
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:delete')) {
+      return forbiddenProblem('notifications:delete')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return invalidIdProblem('Invalid notification ID')
+    }
+
+    const now = new Date()
+    const before = await Notification.findOneAndUpdate(
+      { _id: id, teamId, ...IN_TRASH },
+      { deletedAt: null, $inc: { __v: 1 } }
+    )
+      .lean<INotification>()
+      .exec()
+    if (!before) {
+      return notFoundProblem('Notification not found in the Trash')
+    }
+    const notification = { ...before, deletedAt: null, __v: before.__v + 1, updatedAt: now }
+    await recordAuditLog(session.user.email, [{ action: 'restore', before, after: notification }])
+    // Back in the list, to its viewers it is a new notification
+    const restored = serializeNotification(notification)
+    publishNotificationEvents([{ type: 'created', notification: restored }])
+
+    return NextResponse.json(restored, {
+      headers: { ETag: toETag(notification.__v) },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to restore notification')
+  }
+}
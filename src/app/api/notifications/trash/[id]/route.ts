@@ -0,0 +1,86 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { recordAuditLog } from '@/lib/notifications/audit'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import { IN_TRASH } from '@/lib/notifications/query'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  notFoundProblem,
+  unauthorizedProblem,
+} from '@/lib/problem'
+import Notification, { type INotification } from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * DELETE handler for permanently deleting a notification from the Trash
+ *
+ * Only notifications in the Trash can be purged, delete them with
+ * `DELETE /api/notifications/[id]` first. The purge is recorded in the audit log with
+ * the last values of the notification.
+ *
+ * @example
+ * ```ts
+ * DELETE /api/notifications/trash/65f1c0ffee0000000000abcd
+ * ```
+ *
+ * @returns JSON response indicating success
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:delete`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if the notification is not in the Trash
+ * - 500 `internal_error` on server error
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:delete')) {
+      return forbiddenProblem('notifications:delete')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return invalidIdProblem('Invalid notification ID')
+    }
+
+    const before = await Notification.findOneAndDelete({ _id: id, teamId, ...IN_TRASH })
+      .lean<INotification>()
+      .exec()
+    if (!before) {
+      return notFoundProblem('Notification not found in the Trash')
+    }
+    await recordAuditLog(session.user.email, [{ action: 'purge', before }])
+    publishNotificationEvents([{ type: 'deleted', id, teamId }])
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to permanently delete notification')
+  }
+}
@@ -0,0 +1,113 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { buildNotificationFilter, buildNotificationSort } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import Notification, { type INotification } from '@/models/notification.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import { notificationQuerySchema, searchParamsToObject } from '@/schemas/notification.schema'
+import { type NotificationResponse } from '@/types/notifications.types'
+import mongoose, { type SortOrder } from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * Fields returned by the Trash list
+ */
+const TRASH_FIELDS =
+  'teamId type space country city dateTime status scheduledAt endsAt deliveredAt cancelledAt cancellationReason createdAt updatedAt deletedAt __v'
+
+/**
+ * Most recently deleted first, unless the request sorts by other fields
+ */
+const TRASH_SORT: Record<string, SortOrder> = { deletedAt: -1, _id: -1 }
+
+/**
+ * GET handler for the notifications of the active team in the Trash
+ *
+ * Takes the same `query`, `status`, `type`, `sort`, `order`, `page` and `limit` params as
+ * `GET /api/notifications`, only offset pagination is supported. Each notification
+ * carries its `deletedAt`, it is purged once the retention period has passed since.
+ *
+ * @example
+ * ```ts
+ * GET /api/notifications/trash?query=dubai&page=1&limit=10
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing a page of notifications
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_query` with per-param `errors` on invalid query parameters
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `notifications:delete`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'notifications:delete')) {
+      return forbiddenProblem('notifications:delete')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const parsed = notificationQuerySchema.safeParse(searchParamsToObject(req.nextUrl.searchParams))
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid query parameters', 'invalid_query')
+    }
+
+    const query = parsed.data
+    const { page, limit } = query
+    const filter = buildNotificationFilter(query, { teamId, trash: true })
+
+    const [notifications, totalCount] = await Promise.all([
+      Notification.find(filter)
+        .select(TRASH_FIELDS)
+        .sort(query.sort.length ? buildNotificationSort(query) : TRASH_SORT)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<INotification[]>()
+        .exec(),
+      Notification.countDocuments(filter).exec(),
+    ])
+
+    const response: NotificationResponse = {
+      data: notifications.map(serializeNotification),
+      metadata: {
+        mode: 'offset',
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        pageSize: limit,
+        totalCount,
+      },
+    }
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch the Trash')
+  }
+}
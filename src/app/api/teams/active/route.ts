@@ -0,0 +1,84 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import {
+  handleRouteError,
+  invalidIdProblem,
+  notFoundProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { serializeTeam } from '@/lib/teams/serialize'
+import Team, { type ITeam } from '@/models/team.model'
+import User from '@/models/user.model'
+import { switchTeamSchema } from '@/schemas/team.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * PUT handler for switching the active team of the signed-in user
+ *
+ * The choice is stored on the user, so it is kept across sessions and browsers. Every
+ * request made afterwards reads and changes the data of that team only.
+ *
+ * @example
+ * ```ts
+ * PUT /api/teams/active
+ * { "teamId": "65f1c0ffee0000000000f00e" }
+ *
+ * // 200
+ * { "id": "65f1c0ffee0000000000f00e", "name": "Dnndon Outdoor" }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the team switched to
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` with per-field `errors` on validation error
+ * - 400 `invalid_id` if the team ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 404 `not_found` if the team doesn't exist or the user isn't a member of it
+ * - 500 `internal_error` on server error
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+
+    const parsed = switchTeamSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid team')
+    }
+
+    const { teamId } = parsed.data
+    if (!mongoose.isValidObjectId(teamId)) {
+      return invalidIdProblem('Invalid team ID')
+    }
+
+    const team = await Team.findById(teamId).lean<ITeam>().exec()
+    // Only members can switch to a team
+    const switched =
+      team &&
+      (await User.updateOne(
+        { _id: session.user.id, teamIds: team._id },
+        { activeTeamId: team._id }
+      ).exec())
+    if (!team || !switched?.matchedCount) {
+      return notFoundProblem('Team not found')
+    }
+
+    return NextResponse.json(serializeTeam(team))
+  } catch (error) {
+    return handleRouteError(error, 'Failed to switch team')
+  }
+}
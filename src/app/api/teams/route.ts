@@ -0,0 +1,63 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import { handleRouteError, unauthorizedProblem } from '@/lib/problem'
+import { serializeTeam } from '@/lib/teams/serialize'
+import Team, { type ITeam } from '@/models/team.model'
+import User, { type IUser } from '@/models/user.model'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * GET handler for the teams of the signed-in user, by name
+ *
+ * The active team is the session user's `teamId`, switch it with `PUT /api/teams/active`.
+ *
+ * @example
+ * ```ts
+ * GET /api/teams
+ *
+ * // 200
+ * [
+ *   { "id": "65f1c0ffee0000000000f00d", "name": "Dnndon" },
+ *   { "id": "65f1c0ffee0000000000f00e", "name": "Dnndon Outdoor" }
+ * ]
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the teams
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 401 `unauthorized` if not signed in
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+
+    const user = await User.findById(session.user.id)
+      .select('teamIds')
+      .lean<Pick<IUser, 'teamIds'>>()
+      .exec()
+    const teams = await Team.find({ _id: { $in: user?.teamIds ?? [] } })
+      .sort({ name: 1 })
+      .lean<ITeam[]>()
+      .exec()
+
+    return NextResponse.json(teams.map(serializeTeam), {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch teams')
+  }
+}
@@ -0,0 +1,212 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  notFoundProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { serializeWebhook } from '@/lib/webhooks/serialize'
+import Webhook, { type IWebhook } from '@/models/webhook.model'
+import WebhookDelivery from '@/models/webhook-delivery.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import { updateWebhookSchema } from '@/schemas/webhook.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Resolves and validates the `[id]` route segment
+ *
+ * @returns The webhook ID, or `null` if it is not a valid ObjectId
+ */
+async function getWebhookId({ params }: RouteContext) {
+  const { id } = await params
+  return mongoose.isValidObjectId(id) ? id : null
+}
+
+/**
+ * GET handler for a single webhook, webhooks of another team are not found
+ *
+ * @example
+ * ```ts
+ * GET /api/webhooks/65f1c0ffee0000000000beef
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the webhook
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if the webhook is not found
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest, context: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const id = await getWebhookId(context)
+    if (!id) {
+      return invalidIdProblem('Invalid webhook ID')
+    }
+
+    const webhook = await Webhook.findOne({ _id: id, teamId }).lean<IWebhook>().exec()
+    if (!webhook) {
+      return notFoundProblem('Webhook not found')
+    }
+
+    return NextResponse.json(serializeWebhook(webhook), {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch webhook')
+  }
+}
+
+/**
+ * PATCH handler for changing a webhook, e.g. to disable it or rotate its secret
+ *
+ * Deliveries already made keep the signature they were sent with, retries are signed
+ * with the new secret.
+ *
+ * @example
+ * ```ts
+ * PATCH /api/webhooks/65f1c0ffee0000000000beef
+ * { "active": false }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the updated webhook
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` with per-field `errors` on invalid data
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if the webhook is not found
+ * - 500 `internal_error` on server error
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const id = await getWebhookId(context)
+    if (!id) {
+      return invalidIdProblem('Invalid webhook ID')
+    }
+
+    const parsed = updateWebhookSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid webhook data')
+    }
+
+    const webhook = await Webhook.findOneAndUpdate({ _id: id, teamId }, parsed.data, {
+      new: true,
+      runValidators: true,
+    })
+      .lean<IWebhook>()
+      .exec()
+    if (!webhook) {
+      return notFoundProblem('Webhook not found')
+    }
+
+    return NextResponse.json(serializeWebhook(webhook))
+  } catch (error) {
+    return handleRouteError(error, 'Failed to update webhook')
+  }
+}
+
+/**
+ * DELETE handler for removing a webhook along with its delivery log
+ *
+ * @example
+ * ```ts
+ * DELETE /api/webhooks/65f1c0ffee0000000000beef
+ * ```
+ *
+ * @returns JSON response indicating success
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if the webhook is not found
+ * - 500 `internal_error` on server error
+ */
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const id = await getWebhookId(context)
+    if (!id) {
+      return invalidIdProblem('Invalid webhook ID')
+    }
+
+    const webhook = await Webhook.findOneAndDelete({ _id: id, teamId }).lean<IWebhook>().exec()
+    if (!webhook) {
+      return notFoundProblem('Webhook not found')
+    }
+    await WebhookDelivery.deleteMany({ webhookId: webhook._id }).exec()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to delete webhook')
+  }
+}
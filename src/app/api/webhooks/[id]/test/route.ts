@@ -0,0 +1,98 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  notFoundProblem,
+  unauthorizedProblem,
+} from '@/lib/problem'
+import { createWebhookDelivery } from '@/lib/webhooks/dispatcher'
+import { serializeWebhookDelivery } from '@/lib/webhooks/serialize'
+import Webhook, { type IWebhook } from '@/models/webhook.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import { WEBHOOK_TEST_EVENT } from '@/schemas/webhook.schema'
+import { randomUUID } from 'crypto'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST handler for sending a `webhook.test` event to a webhook
+ *
+ * Sent whether or not the webhook subscribes to it or is active, and made once without
+ * retries. Responds once the attempt is made, with the delivery as it was logged.
+ *
+ * @example
+ * ```ts
+ * POST /api/webhooks/65f1c0ffee0000000000beef/test
+ *
+ * // 201
+ * {
+ *   "id": "65f1c0ffee0000000000cafe",
+ *   "event": "webhook.test",
+ *   "status": "failed",
+ *   "attempts": [{ "statusCode": 500, "error": "Responded with 500", ... }],
+ *   ...
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the `WebhookDelivery`
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if the webhook is not found
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return invalidIdProblem('Invalid webhook ID')
+    }
+
+    const webhook = await Webhook.findOne({ _id: id, teamId }).lean<IWebhook>().exec()
+    if (!webhook) {
+      return notFoundProblem('Webhook not found')
+    }
+
+    const delivery = await createWebhookDelivery(webhook, {
+      id: randomUUID(),
+      type: WEBHOOK_TEST_EVENT,
+      createdAt: new Date().toISOString(),
+      data: { message: 'Test event, the webhook is reachable' },
+    })
+
+    return NextResponse.json(serializeWebhookDelivery(delivery), { status: 201 })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to send test event')
+  }
+}
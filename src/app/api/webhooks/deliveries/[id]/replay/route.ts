@@ -0,0 +1,109 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  notFoundProblem,
+  problem,
+  unauthorizedProblem,
+} from '@/lib/problem'
+import { createWebhookDelivery } from '@/lib/webhooks/dispatcher'
+import { serializeWebhookDelivery } from '@/lib/webhooks/serialize'
+import Webhook, { type IWebhook } from '@/models/webhook.model'
+import WebhookDelivery, { type IWebhookDelivery } from '@/models/webhook-delivery.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST handler for sending a delivery again
+ *
+ * Creates a new delivery of the same payload, with `replayOf` pointing to the original,
+ * signed with the webhook's current secret and retried like any other. The original is
+ * left as it was logged. Responds once the first attempt is made.
+ *
+ * @example
+ * ```ts
+ * POST /api/webhooks/deliveries/65f1c0ffee0000000000cafe/replay
+ *
+ * // 201
+ * { "id": "65f1c0ffee0000000000d00d", "replayOf": "65f1c0ffee0000000000cafe", "status": "succeeded", ... }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the new `WebhookDelivery`
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_id` if the ID is invalid
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 404 `not_found` if the delivery or its webhook is not found
+ * - 409 `conflict` if the delivery is still pending
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return invalidIdProblem('Invalid delivery ID')
+    }
+
+    const original = await WebhookDelivery.findOne({ _id: id, teamId })
+      .lean<IWebhookDelivery>()
+      .exec()
+    if (!original) {
+      return notFoundProblem('Delivery not found')
+    }
+    if (original.status === 'pending') {
+      return problem({
+        status: 409,
+        code: 'conflict',
+        detail: 'The delivery is still being retried',
+      })
+    }
+    const webhook = await Webhook.findOne({ _id: original.webhookId, teamId })
+      .select('_id teamId')
+      .lean<Pick<IWebhook, '_id' | 'teamId'>>()
+      .exec()
+    if (!webhook) {
+      return notFoundProblem('Webhook not found')
+    }
+
+    const delivery = await createWebhookDelivery(
+      webhook,
+      original.payload,
+      original._id as mongoose.Types.ObjectId
+    )
+
+    return NextResponse.json(serializeWebhookDelivery(delivery), { status: 201 })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to replay delivery')
+  }
+}
@@ -0,0 +1,121 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  invalidIdProblem,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { serializeWebhookDelivery } from '@/lib/webhooks/serialize'
+import WebhookDelivery, { type IWebhookDelivery } from '@/models/webhook-delivery.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import { searchParamsToObject } from '@/schemas/notification.schema'
+import { webhookDeliveryQuerySchema } from '@/schemas/webhook.schema'
+import { type WebhookDeliveriesResponse } from '@/types/webhooks.types'
+import mongoose, { type FilterQuery } from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * GET handler for the delivery log of every webhook, or of one with `webhookId`, newest
+ * first. Every attempt of a delivery is listed with its response status or error.
+ *
+ * @example
+ * ```ts
+ * GET /api/webhooks/deliveries?webhookId=65f1c0ffee0000000000beef&status=failed&page=1&limit=20
+ *
+ * // 200
+ * {
+ *   "data": [
+ *     {
+ *       "id": "65f1c0ffee0000000000cafe",
+ *       "webhookId": "65f1c0ffee0000000000beef",
+ *       "event": "notification.cancelled",
+ *       "status": "failed",
+ *       "attempts": [{ "attemptedAt": "...", "statusCode": 503, "error": "Responded with 503", ... }],
+ *       ...
+ *     }
+ *   ],
+ *   "metadata": { "mode": "offset", "currentPage": 1, ... }
+ * }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing a page of deliveries
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_query` with per-param `errors` on invalid query parameters
+ * - 400 `invalid_id` if `webhookId` is not a valid ID
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const parsed = webhookDeliveryQuerySchema.safeParse(
+      searchParamsToObject(req.nextUrl.searchParams)
+    )
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid query parameters', 'invalid_query')
+    }
+
+    const { page, limit, webhookId, status, event } = parsed.data
+    if (webhookId && !mongoose.isValidObjectId(webhookId)) {
+      return invalidIdProblem('Invalid webhook ID')
+    }
+
+    const filter: FilterQuery<IWebhookDelivery> = { teamId }
+    if (webhookId) filter.webhookId = webhookId
+    if (status.length) filter.status = { $in: status }
+    if (event.length) filter.event = { $in: event }
+
+    const [deliveries, totalCount] = await Promise.all([
+      WebhookDelivery.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<IWebhookDelivery[]>()
+        .exec(),
+      WebhookDelivery.countDocuments(filter).exec(),
+    ])
+
+    const response: WebhookDeliveriesResponse = {
+      data: deliveries.map(serializeWebhookDelivery),
+      metadata: {
+        mode: 'offset',
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        pageSize: limit,
+        totalCount,
+      },
+    }
+
+    return NextResponse.json(response, {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch webhook deliveries')
+  }
+}
@@ -0,0 +1,143 @@
+import { getSession } from '@/lib/auth/session'
+import dbConnect from '@/lib/dbConnect'
+import {
+  forbiddenProblem,
+  handleRouteError,
+  noTeamProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/lib/problem'
+import { serializeWebhook } from '@/lib/webhooks/serialize'
+import { generateWebhookSecret } from '@/lib/webhooks/signature'
+import Webhook, { type IWebhook } from '@/models/webhook.model'
+import { hasPermission } from '@/schemas/auth.schema'
+import { createWebhookSchema } from '@/schemas/webhook.schema'
+import { type CreatedWebhook } from '@/types/webhooks.types'
+import mongoose from 'mongoose'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Cache connection promise
+let connectionPromise: Promise<typeof mongoose> | null = null
+
+export const dynamic = 'force-dynamic' // defaults to auto
+
+/**
+ * GET handler for every webhook of the active team, newest first
+ *
+ * @example
+ * ```ts
+ * GET /api/webhooks
+ *
+ * // 200
+ * [
+ *   {
+ *     "id": "65f1c0ffee0000000000beef",
+ *     "url": "https://partner.example.com/hooks/dnndon",
+ *     "events": ["notification.delivered", "notification.cancelled"],
+ *     "active": true,
+ *     "secretHint": "…9f2a",
+ *     ...
+ *   }
+ * ]
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the webhooks
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const webhooks = await Webhook.find({ teamId })
+      .sort({ createdAt: -1 })
+      .lean<IWebhook[]>()
+      .exec()
+
+    return NextResponse.json(webhooks.map(serializeWebhook), {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch webhooks')
+  }
+}
+
+/**
+ * POST handler for registering a webhook
+ *
+ * The webhook belongs to the active team and receives the events of its notifications.
+ * Every delivery is signed with the `secret`, generated when not given. The response is
+ * the only one carrying the whole secret.
+ *
+ * @example
+ * ```ts
+ * POST /api/webhooks
+ * {
+ *   "url": "https://partner.example.com/hooks/dnndon",
+ *   "events": ["notification.delivered", "notification.cancelled"]
+ * }
+ *
+ * // 201
+ * { "id": "65f1c0ffee0000000000beef", "secret": "whsec_3f9c...", ... }
+ * ```
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the webhook and its secret
+ * @throws {NextResponse} `application/problem+json`, see `ProblemDetails`
+ * - 400 `invalid_json` if the body is not JSON
+ * - 400 `validation_failed` with per-field `errors` on invalid data
+ * - 401 `unauthorized` if not signed in
+ * - 403 `forbidden` if the role lacks `webhooks:manage`
+ * - 403 `no_team` if not a member of any team
+ * - 500 `internal_error` on server error
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!connectionPromise) {
+      connectionPromise = dbConnect()
+    }
+    await connectionPromise
+
+    const session = await getSession(req.cookies)
+    if (!session) {
+      return unauthorizedProblem()
+    }
+    if (!hasPermission(session.user.role, 'webhooks:manage')) {
+      return forbiddenProblem('webhooks:manage')
+    }
+    const { teamId } = session.user
+    if (!teamId) {
+      return noTeamProblem()
+    }
+
+    const parsed = createWebhookSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return validationProblem(parsed.error, 'Invalid webhook data')
+    }
+
+    const { secret = generateWebhookSecret(), ...fields } = parsed.data
+    const webhook = await Webhook.create({ ...fields, teamId, secret })
+    const response: CreatedWebhook = { ...serializeWebhook(webhook), secret }
+
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    return handleRouteError(error, 'Failed to add webhook')
+  }
+}
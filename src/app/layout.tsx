@@ -1,5 +1,6 @@
 import MainNavbar from '@/components/navbar/MainNavbar'
 import { AppSidebar } from '@/components/sidebar/app-sidebar'
+import { getCurrentUser } from '@/lib/auth/session'
 import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar'
 import { Toaster } from '@/components/ui/sonner'
 import type { Metadata } from 'next'
@@ -25,11 +26,14 @@ export const metadata: Metadata = {
   description: 'Dnndon dashboard for managing your business',
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  // Signed out, only the sign-in page renders, without the navigation
+  const user = await getCurrentUser()
+
   return (
     <html lang="en">
       <body
@@ -37,17 +41,24 @@ export default function RootLayout({
         suppressHydrationWarning
         suppressContentEditableWarning
       >
-        <Providers>
-          <SidebarProvider>
-            <AppSidebar />
-            <SidebarInset>
-              <MainNavbar />
-              <main className="p-4">
-                {children}
-                <Toaster />
-              </main>
-            </SidebarInset>
-          </SidebarProvider>
+        <Providers user={user}>
+          {user ? (
+            <SidebarProvider>
+              <AppSidebar />
+              <SidebarInset>
+                <MainNavbar />
+                <main className="p-4">
+                  {children}
+                  <Toaster />
+                </main>
+              </SidebarInset>
+            </SidebarProvider>
+          ) : (
+            <main>
+              {children}
+              <Toaster />
+            </main>
+          )}
         </Providers>
       </body>
     </html>
@@ -0,0 +1,32 @@
+import { SignInForm } from '@/components/auth/sign-in-form'
+import { getCurrentUser } from '@/lib/auth/session'
+import { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+
+export const metadata: Metadata = {
+  title: 'Sign in',
+  description: 'Sign in to the dashboard',
+}
+
+interface PageProps {
+  searchParams: Promise<{
+    from?: string
+  }>
+}
+
+const Page = async ({ searchParams }: PageProps) => {
+  const { from } = await searchParams
+
+  // Signed in already, nothing to do here
+  if (await getCurrentUser()) {
+    redirect('/')
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <SignInForm from={from} />
+    </div>
+  )
+}
+
+export default Page
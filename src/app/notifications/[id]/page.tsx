@@ -0,0 +1,39 @@
+import { NotificationDetails } from '@/components/notifications/notification-details'
+import { NoTeam } from '@/components/teams/no-team'
+import { isApiError } from '@/services/api-error'
+import { getNotification } from '@/services/notifications'
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+export const metadata: Metadata = {
+  title: 'Notification',
+  description: 'Notification details',
+}
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+const Page = async ({ params }: PageProps) => {
+  const { id } = await params
+
+  // Fetch the notification on the server so the page can be shared as a link
+  let notification
+  try {
+    notification = await getNotification(id)
+  } catch (error) {
+    if (isApiError(error) && error.code === 'no_team') {
+      return <NoTeam />
+    }
+    throw error
+  }
+  if (!notification) {
+    notFound()
+  }
+
+  return <NotificationDetails notification={notification} />
+}
+
+export default Page
@@ -0,0 +1,21 @@
+import { NotificationImportWizard } from '@/components/notifications/notification-import-wizard'
+import { getCurrentUser } from '@/lib/auth/session'
+import { hasPermission } from '@/schemas/auth.schema'
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+export const metadata: Metadata = {
+  title: 'Import notifications',
+  description: 'Import notifications from a CSV file',
+}
+
+const Page = async () => {
+  const user = await getCurrentUser()
+  if (!user || !hasPermission(user.role, 'notifications:write')) {
+    notFound()
+  }
+
+  return <NotificationImportWizard />
+}
+
+export default Page
@@ -1,5 +1,7 @@
 // import { NotificationTableSuspense } from '@/components/notifications/notification-table-suspense'
 import { NotificationTableSuspense } from '@/components/notifications/notification-table-suspense'
+import { NoTeam } from '@/components/teams/no-team'
+import { isApiError } from '@/services/api-error'
 import { getNotifications } from '@/services/notifications'
 import { Metadata } from 'next'
 import { Suspense } from 'react'
@@ -14,6 +16,11 @@ interface PageProps {
   searchParams: Promise<{
     page?: string
     limit?: string
+    query?: string
+    status?: string
+    type?: string
+    sort?: string
+    order?: string
   }>
 }
 
@@ -22,19 +29,35 @@ const Page = async ({ searchParams }: PageProps) => {
   const params = await searchParams
   const page = Number(params.page ?? 1)
   const limit = Number(params.limit ?? 10)
+  const filters = {
+    query: params.query,
+    status: params.status,
+    type: params.type,
+    sort: params.sort,
+    order: params.order,
+  }
 
   // Fetch initial data on the server
-  const initialData = await getNotifications({ page, limit })
+  let initialData
+  try {
+    initialData = await getNotifications({ page, limit, ...filters })
+  } catch (error) {
+    if (isApiError(error) && error.code === 'no_team') {
+      return <NoTeam />
+    }
+    throw error
+  }
 
   return (
     <Suspense fallback={<Loading />}>
       <NotificationTableSuspense
         initialPage={page}
         initialLimit={limit}
+        initialFilters={filters}
         initialData={initialData}
       />
     </Suspense>
   )
 }
 
-export default Page
\ No newline at end of file
+export default Page
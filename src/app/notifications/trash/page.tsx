@@ -0,0 +1,38 @@
+import { NotificationTrash } from '@/components/notifications/notification-trash'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getTrashRetentionDays } from '@/lib/notifications/trash'
+import { hasPermission } from '@/schemas/auth.schema'
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+export const metadata: Metadata = {
+  title: 'Trash',
+  description: 'Deleted notifications',
+}
+
+interface PageProps {
+  searchParams: Promise<{
+    page?: string
+    limit?: string
+  }>
+}
+
+const Page = async ({ searchParams }: PageProps) => {
+  const { page, limit } = await searchParams
+
+  // Restoring and purging need the same permission as deleting
+  const user = await getCurrentUser()
+  if (!user || !hasPermission(user.role, 'notifications:delete')) {
+    notFound()
+  }
+
+  return (
+    <NotificationTrash
+      retentionDays={getTrashRetentionDays()}
+      initialPage={Number(page ?? 1)}
+      initialLimit={Number(limit ?? 10)}
+    />
+  )
+}
+
+export default Page
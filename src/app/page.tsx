@@ -1,7 +1,42 @@
-export default function Home() {
+import { Dashboard } from '@/components/dashboard/dashboard'
+import { NoTeam } from '@/components/teams/no-team'
+import { isApiError } from '@/services/api-error'
+import { getAuditLog, getNotificationStats } from '@/services/notifications'
+import { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Dashboard',
+  description: 'Notifications at a glance',
+}
+
+/**
+ * Number of audit log entries listed under the recent activity
+ */
+const RECENT_ACTIVITY_LIMIT = 10
+
+const Page = async () => {
+  // Render the dashboard from the server, the client refreshes it in the background
+  let data
+  try {
+    data = await Promise.all([
+      getNotificationStats(),
+      getAuditLog({ limit: RECENT_ACTIVITY_LIMIT }),
+    ])
+  } catch (error) {
+    if (isApiError(error) && error.code === 'no_team') {
+      return <NoTeam />
+    }
+    throw error
+  }
+  const [stats, activity] = data
+
   return (
-    <div className="min-h-[calc(100vh-64px-32px)] bg-gray-50/50 p-8 flex flex-col items-center justify-center">
-      <h1 className="text-4xl font-bold">Dnndon</h1>
-    </div>
+    <Dashboard
+      initialStats={stats}
+      initialActivity={activity}
+      activityLimit={RECENT_ACTIVITY_LIMIT}
+    />
   )
 }
+
+export default Page
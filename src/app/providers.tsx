@@ -1,12 +1,33 @@
 'use client'
 
+import { CurrentUserProvider } from '@/hooks/use-auth'
+import { useNotificationEvents } from '@/hooks/use-notifications'
+import { TimeZoneProvider } from '@/hooks/use-time-zone'
+import { type SessionUser } from '@/types/auth.types'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { useState } from 'react'
+
+/**
+ * Keeps the cached notifications up to date with changes made by others
+ */
+function LiveNotifications() {
+  useNotificationEvents()
+  return null
+}
+
 /**
  * Providers component that wraps the app with necessary context providers
+ *
+ * @param user - The signed-in user, changes are only streamed while signed in
  */
-export function Providers({ children }: { children: React.ReactNode }) {
+export function Providers({
+  user,
+  children,
+}: {
+  user: SessionUser | null
+  children: React.ReactNode
+}) {
   const [queryClient] = useState(
     () =>
       new QueryClient({
@@ -25,7 +46,10 @@ export function Providers({ children }: { children: React.ReactNode }) {
 
   return (
     <QueryClientProvider client={queryClient}>
-      {children}
+      <CurrentUserProvider user={user}>
+        {user && <LiveNotifications />}
+        <TimeZoneProvider>{children}</TimeZoneProvider>
+      </CurrentUserProvider>
       <ReactQueryDevtools initialIsOpen={false} />
     </QueryClientProvider>
   )
@@ -0,0 +1,21 @@
+import { WebhookManager } from '@/components/webhooks/webhook-manager'
+import { getCurrentUser } from '@/lib/auth/session'
+import { hasPermission } from '@/schemas/auth.schema'
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+export const metadata: Metadata = {
+  title: 'Webhooks',
+  description: 'Outbound webhooks and their deliveries',
+}
+
+const Page = async () => {
+  const user = await getCurrentUser()
+  if (!user || !hasPermission(user.role, 'webhooks:manage')) {
+    notFound()
+  }
+
+  return <WebhookManager />
+}
+
+export default Page
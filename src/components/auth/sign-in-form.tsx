@@ -0,0 +1,122 @@
+'use client'
+
+import { setServerErrors } from '@/components/notifications/field-error'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { useSignIn } from '@/hooks/use-auth'
+import { type SignInInput, signInSchema } from '@/schemas/auth.schema'
+import { isApiError } from '@/services/api-error'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+
+/**
+ * Page to return to after signing in, only pages of this app are followed. `from` is
+ * resolved the way the browser would, since e.g. `/\evil.com` is read as `//evil.com`.
+ */
+const getReturnPath = (from: string | undefined) => {
+  if (!from?.startsWith('/')) return '/'
+
+  const url = new URL(from, window.location.origin)
+  return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/'
+}
+
+interface SignInFormProps {
+  /** Page the visitor was sent away from, see `middleware.ts` */
+  from?: string
+}
+
+/**
+ * SignInForm Component
+ *
+ * Signs in with an email and password, then returns to the page the visitor came from.
+ *
+ * @example
+ * ```tsx
+ * <SignInForm from="/notifications" />
+ * ```
+ */
+export function SignInForm({ from }: SignInFormProps) {
+  const { mutate: signIn, isPending } = useSignIn()
+  const [error, setError] = useState<string | null>(null)
+
+  const form = useForm<SignInInput>({
+    resolver: zodResolver(signInSchema),
+    defaultValues: {
+      email: '',
+      password: '',
+    },
+  })
+  const { errors } = form.formState
+
+  const onSubmit = (data: SignInInput) => {
+    setError(null)
+    signIn(data, {
+      onSuccess: () => {
+        // A full load renders the layout again, now signed in
+        window.location.assign(getReturnPath(from))
+      },
+      onError: (signInError) => {
+        if (isApiError(signInError) && signInError.code === 'invalid_credentials') {
+          setError(signInError.message)
+          form.resetField('password')
+        } else if (!setServerErrors(form, signInError)) {
+          toast.error('Failed to sign in')
+        }
+      },
+    })
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <form onSubmit={form.handleSubmit(onSubmit)}>
+        <CardHeader>
+          <CardTitle className="text-2xl">Sign in</CardTitle>
+          <CardDescription>Enter your email and password to continue.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4">
+          <div className="grid gap-2">
+            <label htmlFor="email" className="text-sm font-medium">
+              Email
+            </label>
+            <Input id="email" type="email" autoComplete="username" {...form.register('email')} />
+            {errors.email && <p className="text-sm text-destructive">{errors.email.message}</p>}
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="password" className="text-sm font-medium">
+              Password
+            </label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              {...form.register('password')}
+            />
+            {errors.password && (
+              <p className="text-sm text-destructive">{errors.password.message}</p>
+            )}
+          </div>
+          {error && (
+            <p role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" className="w-full" disabled={isPending}>
+            {isPending ? 'Signing in...' : 'Sign in'}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
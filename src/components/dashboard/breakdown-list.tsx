@@ -0,0 +1,62 @@
+import Link from 'next/link'
+
+export interface BreakdownItem {
+  label: string
+  count: number
+  /** Notifications list filtered down to this item */
+  href?: string
+}
+
+interface BreakdownListProps {
+  items: BreakdownItem[]
+  /** Shown when there are no items */
+  emptyMessage?: string
+}
+
+/**
+ * BreakdownList Component
+ *
+ * Lists counts with a bar relative to the largest one, e.g. the notifications per country.
+ *
+ * @example
+ * ```tsx
+ * <BreakdownList
+ *   items={stats.byCountry.map(({ country, count }) => ({ label: country, count }))}
+ * />
+ * ```
+ */
+export function BreakdownList({
+  items,
+  emptyMessage = 'No notifications yet.',
+}: BreakdownListProps) {
+  if (!items.length) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+  }
+
+  const max = Math.max(...items.map((item) => item.count))
+
+  return (
+    <ul className="space-y-3">
+      {items.map(({ label, count, href }) => (
+        <li key={label} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            {href ? (
+              <Link href={href} className="hover:underline">
+                {label}
+              </Link>
+            ) : (
+              <span>{label}</span>
+            )}
+            <span className="font-medium tabular-nums">{count}</span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div
+              className="h-2 rounded-full bg-primary"
+              style={{ width: `${max ? (count / max) * 100 : 0}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
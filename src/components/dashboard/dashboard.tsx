@@ -0,0 +1,203 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAuditLog, useNotificationStats } from '@/hooks/use-notifications'
+import { useTimeZone } from '@/hooks/use-time-zone'
+import { cn } from '@/lib/utils'
+import {
+  NOTIFICATION_TYPES,
+  STATS_INTERVALS,
+  type StatsInterval,
+} from '@/schemas/notification.schema'
+import { type AuditLogResponse, type NotificationStats } from '@/types/notifications.types'
+import { Ban, Bell, CircleCheck, Loader } from 'lucide-react'
+import Link from 'next/link'
+import { useState } from 'react'
+import { BreakdownList } from './breakdown-list'
+import { RecentActivity } from './recent-activity'
+import { TrendChart } from './trend-chart'
+
+/**
+ * Milliseconds between background refreshes of the dashboard
+ */
+const REFRESH_INTERVAL = 30 * 1000
+
+const INTERVAL_LABELS: Record<StatsInterval, string> = {
+  hour: 'Hourly',
+  day: 'Daily',
+  week: 'Weekly',
+}
+
+interface KpiCardProps {
+  title: string
+  value: number
+  description: string
+  icon: typeof Bell
+  href: string
+}
+
+function KpiCard({ title, value, description, icon: Icon, href }: KpiCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">
+          <Link href={href} className="hover:underline">
+            {title}
+          </Link>
+        </CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold tabular-nums">{value}</div>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface DashboardProps {
+  /** Daily statistics fetched on the server */
+  initialStats: NotificationStats
+  /** Latest audit log entries fetched on the server */
+  initialActivity: AuditLogResponse
+  /** Number of audit log entries listed, as fetched on the server */
+  activityLimit: number
+}
+
+/**
+ * Dashboard Component
+ *
+ * Overview of the notifications: KPIs, a trend chart with a selectable interval, the
+ * breakdowns per country and type, and the latest changes.
+ * Starts from the data rendered on the server and refreshes it in the background, the
+ * buckets follow the time zone picked with the time zone selector.
+ *
+ * @example
+ * ```tsx
+ * <Dashboard initialStats={stats} initialActivity={auditLog} activityLimit={10} />
+ * ```
+ */
+export function Dashboard({ initialStats, initialActivity, activityLimit }: DashboardProps) {
+  const timeZone = useTimeZone()
+  const [interval, selectInterval] = useState<StatsInterval>(initialStats.series.interval)
+
+  // The server doesn't know the viewer's time zone, its data only fits the same params
+  const isInitialParams =
+    interval === initialStats.series.interval && timeZone === initialStats.series.timeZone
+  const { data: stats = initialStats, isFetching } = useNotificationStats(
+    { interval, timeZone },
+    {
+      initialData: isInitialParams ? initialStats : undefined,
+      refetchInterval: REFRESH_INTERVAL,
+    }
+  )
+  const { data: activity = initialActivity } = useAuditLog(
+    undefined,
+    { limit: activityLimit },
+    { initialData: initialActivity, refetchInterval: REFRESH_INTERVAL }
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Dashboard</h1>
+        {isFetching && <Loader className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <KpiCard
+          title="Total"
+          value={stats.total}
+          description={`${stats.byStatus.Scheduled} scheduled`}
+          icon={Bell}
+          href="/notifications"
+        />
+        <KpiCard
+          title="In Progress"
+          value={stats.byStatus['In Progress']}
+          description="Live right now"
+          icon={Loader}
+          href="/notifications?status=In Progress"
+        />
+        <KpiCard
+          title="Delivered"
+          value={stats.byStatus.Delivered}
+          description={`${stats.deliveryRate}% delivery rate, ${stats.today.delivered} today`}
+          icon={CircleCheck}
+          href="/notifications?status=Delivered"
+        />
+        <KpiCard
+          title="Cancelled today"
+          value={stats.today.cancelled}
+          description={`${stats.cancellationRate}% cancellation rate overall`}
+          icon={Ban}
+          href="/notifications?status=Cancelled"
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Notifications over time</CardTitle>
+            <CardDescription>By date, stacked by status</CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {STATS_INTERVALS.map((option) => (
+              <Button
+                key={option}
+                variant={option === interval ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => selectInterval(option)}
+              >
+                {INTERVAL_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <TrendChart series={stats.series} timeZone={timeZone} />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>By country</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BreakdownList
+              items={stats.byCountry.map(({ country, count }) => ({
+                label: country,
+                count,
+                href: `/notifications?query=${encodeURIComponent(country)}`,
+              }))}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>By type</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BreakdownList
+              items={NOTIFICATION_TYPES.map((type) => ({
+                label: type,
+                count: stats.byType[type],
+                href: `/notifications?type=${type}`,
+              }))}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent activity</CardTitle>
+          </CardHeader>
+          <CardContent className={cn(!activity.data.length && 'pb-6')}>
+            <RecentActivity entries={activity.data} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import {
+  AUDIT_ACTION_DISPLAY,
+  AUDIT_FIELD_LABELS,
+} from '@/components/notifications/notification-history'
+import { DateTime } from '@/components/ui/date-time'
+import { cn } from '@/lib/utils'
+import { type AuditLogEntry } from '@/types/notifications.types'
+import Link from 'next/link'
+
+interface RecentActivityProps {
+  entries: AuditLogEntry[]
+}
+
+/**
+ * RecentActivity Component
+ *
+ * Latest changes from the audit log, newest first, each linking to the notification
+ * it changed. Permanently deleted notifications have nothing left to link to.
+ *
+ * @example
+ * ```tsx
+ * <RecentActivity entries={auditLog.data} />
+ * ```
+ */
+export function RecentActivity({ entries }: RecentActivityProps) {
+  if (!entries.length) {
+    return <p className="text-sm text-muted-foreground">No changes have been recorded yet.</p>
+  }
+
+  return (
+    <ul className="space-y-4">
+      {entries.map((entry) => {
+        const { label, icon: Icon, className } = AUDIT_ACTION_DISPLAY[entry.action]
+        const fields = entry.changes
+          .map((change) => AUDIT_FIELD_LABELS[change.field].toLowerCase())
+          .join(', ')
+
+        return (
+          <li key={entry.id} className="flex gap-3">
+            <span
+              className={cn(
+                'flex h-7 w-7 shrink-0 items-center justify-center rounded-full',
+                className
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <div className="min-w-0 flex-1 text-sm">
+              <p>
+                {entry.action === 'purge' ? (
+                  <span className="font-medium">{label}</span>
+                ) : (
+                  <Link
+                    href={`/notifications/${entry.notificationId}`}
+                    className="font-medium hover:underline"
+                  >
+                    {label}
+                  </Link>
+                )}{' '}
+                by <span className="font-medium">{entry.actor}</span>
+              </p>
+              <p className="truncate text-muted-foreground">
+                <DateTime value={entry.createdAt} />
+                {entry.action === 'update' && fields && ` · ${fields}`}
+              </p>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { formatDateTime } from '@/lib/datetime'
+import { cn } from '@/lib/utils'
+import {
+  NOTIFICATION_STATUSES,
+  type NotificationStatus,
+  STATS_INTERVAL_MS,
+  type StatsInterval,
+} from '@/schemas/notification.schema'
+import { type NotificationStats, type StatsBucket } from '@/types/notifications.types'
+
+const STATUS_COLORS: Record<NotificationStatus, string> = {
+  Scheduled: 'bg-blue-400',
+  'In Progress': 'bg-yellow-400',
+  Delivered: 'bg-green-500',
+  Cancelled: 'bg-red-400',
+}
+
+const LABEL_FORMATS: Record<StatsInterval, Intl.DateTimeFormatOptions> = {
+  hour: {
+    dateStyle: undefined,
+    timeStyle: undefined,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+  },
+  day: { timeStyle: undefined },
+  week: { timeStyle: undefined },
+}
+
+/**
+ * Places the buckets on the time axis between `from` and `to`, `null` where a bucket
+ * holds no notifications
+ */
+const toSlots = ({ interval, from, to, buckets }: NotificationStats['series']) => {
+  const start = new Date(from).getTime()
+  const size = STATS_INTERVAL_MS[interval]
+  const count = Math.max(1, Math.ceil((new Date(to).getTime() - start) / size))
+
+  const slots: (StatsBucket | null)[] = Array(count).fill(null)
+  for (const bucket of buckets) {
+    // The first bucket may start before `from`, daylight saving shifts a bucket by an hour
+    const index = Math.floor((new Date(bucket.start).getTime() - start) / size)
+    slots[Math.min(Math.max(index, 0), count - 1)] = bucket
+  }
+  return slots
+}
+
+interface TrendChartProps {
+  series: NotificationStats['series']
+  /** IANA time zone to label the buckets in */
+  timeZone: string
+}
+
+/**
+ * TrendChart Component
+ *
+ * Bar chart of the notifications per bucket of the stats time series, each bar stacked
+ * by status. Hovering a bar lists its counts.
+ *
+ * @example
+ * ```tsx
+ * <TrendChart series={stats.series} timeZone={timeZone} />
+ * ```
+ */
+export function TrendChart({ series, timeZone }: TrendChartProps) {
+  const slots = toSlots(series)
+  const max = Math.max(1, ...series.buckets.map((bucket) => bucket.total))
+  const format = (value: string) => formatDateTime(value, timeZone, LABEL_FORMATS[series.interval])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex h-48 gap-2">
+        <div className="flex flex-col justify-between text-xs text-muted-foreground">
+          <span>{max}</span>
+          <span>0</span>
+        </div>
+        <div className="flex flex-1 items-end gap-px border-b border-l">
+          {slots.map((bucket, index) => (
+            <div
+              key={bucket?.start ?? index}
+              className="flex h-full flex-1 flex-col-reverse"
+              suppressHydrationWarning
+              title={
+                bucket
+                  ? [
+                      `${format(bucket.start)}: ${bucket.total}`,
+                      ...NOTIFICATION_STATUSES.filter((status) => bucket.byStatus[status]).map(
+                        (status) => `${status}: ${bucket.byStatus[status]}`
+                      ),
+                    ].join('\n')
+                  : undefined
+              }
+            >
+              {bucket &&
+                NOTIFICATION_STATUSES.map((status) =>
+                  bucket.byStatus[status] ? (
+                    <div
+                      key={status}
+                      className={cn('w-full', STATUS_COLORS[status])}
+                      style={{ height: `${(bucket.byStatus[status] / max) * 100}%` }}
+                    />
+                  ) : null
+                )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-between pl-6 text-xs text-muted-foreground">
+        <span suppressHydrationWarning>{format(series.from)}</span>
+        <span suppressHydrationWarning>{format(series.to)}</span>
+      </div>
+      <ul className="flex flex-wrap gap-4 text-xs">
+        {NOTIFICATION_STATUSES.map((status) => (
+          <li key={status} className="flex items-center gap-1.5">
+            <span className={cn('h-2.5 w-2.5 rounded-sm', STATUS_COLORS[status])} />
+            {status}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
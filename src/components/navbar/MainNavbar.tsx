@@ -13,6 +13,7 @@ import { Home } from 'lucide-react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { Fragment } from 'react'
+import { TimeZoneSelect } from './time-zone-select'
 
 const MainNavbar = () => {
   const pathname = usePathname()
@@ -56,6 +57,9 @@ const MainNavbar = () => {
           </BreadcrumbList>
         </Breadcrumb>
       </div>
+      <div className="ml-auto px-4">
+        <TimeZoneSelect />
+      </div>
     </header>
   )
 }
@@ -0,0 +1,43 @@
+'use client'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTimeZoneMode } from '@/hooks/use-time-zone'
+import { TIME_ZONE_MODES, type TimeZoneMode } from '@/lib/datetime'
+import { Globe } from 'lucide-react'
+
+/**
+ * TimeZoneSelect Component
+ *
+ * Picks the time zone every date in the app is displayed and entered in:
+ * the viewer's, UTC, or the local time of each notification's city/country.
+ *
+ * @example
+ * ```tsx
+ * <TimeZoneSelect />
+ * ```
+ */
+export function TimeZoneSelect() {
+  const { mode, setMode } = useTimeZoneMode()
+
+  return (
+    <Select value={mode} onValueChange={(value: TimeZoneMode) => setMode(value)}>
+      <SelectTrigger className="h-8 w-[170px] gap-2" aria-label="Time zone">
+        <Globe className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TIME_ZONE_MODES.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { Button } from '@/components/ui/button'
+import { DateTimeInput } from '@/components/ui/date-time-input'
 import {
   Dialog,
   DialogContent,
@@ -18,21 +19,21 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { useAddNotification } from '@/hooks/use-notifications'
+import {
+  type CreateNotificationInput,
+  createNotificationSchema,
+  getScheduleErrors,
+  NOTIFICATION_TYPES,
+  type NotificationType,
+} from '@/schemas/notification.schema'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useForm } from 'react-hook-form'
 import { toast } from 'sonner'
-import { z } from 'zod'
-
-const notificationSchema = z.object({
-  type: z.string().min(1),
-  space: z.string().min(1),
-  country: z.string().min(1),
-  city: z.string().min(1),
-  // id and dateTime will be generated on the server
-  // status will default to "In Progress"
-})
+import { FieldError, setFieldErrors, setServerErrors } from './field-error'
 
-type NotificationFormData = z.infer<typeof notificationSchema>
+// id will be generated on the server, dateTime defaults to now when left empty
+// status will default to "In Progress", or "Scheduled" until a future start
+type NotificationFormData = CreateNotificationInput
 
 interface AddNotificationModalProps {
   open: boolean
@@ -43,9 +44,9 @@ export function AddNotificationModal({ open, onOpenChange }: AddNotificationModa
   const { mutate: addNotification, isPending } = useAddNotification()
 
   const form = useForm<NotificationFormData>({
-    resolver: zodResolver(notificationSchema),
+    resolver: zodResolver(createNotificationSchema),
     defaultValues: {
-      type: '',
+      type: undefined,
       space: '',
       country: '',
       city: '',
@@ -53,14 +54,20 @@ export function AddNotificationModal({ open, onOpenChange }: AddNotificationModa
   })
 
   const onSubmit = (data: NotificationFormData) => {
+    const errors = getScheduleErrors(data)
+    if (errors) {
+      setFieldErrors(form, errors)
+      return
+    }
+
     addNotification(data, {
       onSuccess: () => {
         toast.success('Notification added successfully')
         form.reset()
         onOpenChange(false)
       },
-      onError: () => {
-        toast.error('Failed to add notification')
+      onError: (error) => {
+        if (!setServerErrors(form, error)) toast.error('Failed to add notification')
       },
     })
   }
@@ -71,35 +78,80 @@ export function AddNotificationModal({ open, onOpenChange }: AddNotificationModa
         <form onSubmit={form.handleSubmit(onSubmit)}>
           <DialogHeader>
             <DialogTitle>Add Notification</DialogTitle>
-            <DialogDescription>Create a new notification with the form below.</DialogDescription>
+            <DialogDescription>
+              Create a new notification with the form below. Leave Starts empty to go live right
+              away.
+            </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-4 items-center gap-4">
               <label htmlFor="type">Type</label>
               <Select
                 value={form.watch('type')}
-                onValueChange={(value: 'Photo' | 'Text') => form.setValue('type', value)}
+                onValueChange={(value: NotificationType) =>
+                  form.setValue('type', value, { shouldValidate: true })
+                }
               >
-                <SelectTrigger className="col-span-3">
+                <SelectTrigger id="type" className="col-span-3">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Photo">Photo</SelectItem>
-                  <SelectItem value="Text">Text</SelectItem>
+                  {NOTIFICATION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <FieldError error={form.formState.errors.type} />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <label htmlFor="space">Space</label>
               <Input id="space" className="col-span-3" {...form.register('space')} />
+              <FieldError error={form.formState.errors.space} />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <label htmlFor="country">Country</label>
               <Input id="country" className="col-span-3" {...form.register('country')} />
+              <FieldError error={form.formState.errors.country} />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <label htmlFor="city">City</label>
               <Input id="city" className="col-span-3" {...form.register('city')} />
+              <FieldError error={form.formState.errors.city} />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <label htmlFor="dateTime">Date</label>
+              <DateTimeInput
+                id="dateTime"
+                className="col-span-3"
+                value={form.watch('dateTime')}
+                onChange={(value) => form.setValue('dateTime', value, { shouldValidate: true })}
+                location={{ country: form.watch('country'), city: form.watch('city') }}
+              />
+              <FieldError error={form.formState.errors.dateTime} />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <label htmlFor="scheduledAt">Starts</label>
+              <DateTimeInput
+                id="scheduledAt"
+                className="col-span-3"
+                value={form.watch('scheduledAt') ?? undefined}
+                onChange={(value) => form.setValue('scheduledAt', value, { shouldValidate: true })}
+                location={{ country: form.watch('country'), city: form.watch('city') }}
+              />
+              <FieldError error={form.formState.errors.scheduledAt} />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <label htmlFor="endsAt">Ends</label>
+              <DateTimeInput
+                id="endsAt"
+                className="col-span-3"
+                value={form.watch('endsAt') ?? undefined}
+                onChange={(value) => form.setValue('endsAt', value, { shouldValidate: true })}
+                location={{ country: form.watch('country'), city: form.watch('city') }}
+              />
+              <FieldError error={form.formState.errors.endsAt} />
             </div>
           </div>
           <DialogFooter>
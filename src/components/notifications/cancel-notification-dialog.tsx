@@ -0,0 +1,121 @@
+'use client'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Textarea } from '@/components/ui/textarea'
+import { MAX_CANCELLATION_REASON_LENGTH } from '@/schemas/notification.schema'
+import { useEffect, useState } from 'react'
+
+interface CancelNotificationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called with the trimmed reason, the dialog stays open until the caller closes it */
+  onConfirm: (reason: string) => void
+  isPending: boolean
+  /** Number of notifications being cancelled */
+  count?: number
+}
+
+/**
+ * CancelNotificationDialog Component
+ *
+ * Asks for the reason a notification is cancelled, which the API requires. Cancelling
+ * can't be undone, a cancelled notification keeps its status for good.
+ *
+ * @example
+ * ```tsx
+ * <CancelNotificationDialog
+ *   open={open}
+ *   onOpenChange={setOpen}
+ *   onConfirm={(reason) => apply({ action: 'cancel', ids, cancellationReason: reason })}
+ *   isPending={isPending}
+ *   count={ids.length}
+ * />
+ * ```
+ */
+export function CancelNotificationDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+  isPending,
+  count = 1,
+}: CancelNotificationDialogProps) {
+  const [reason, setReason] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from an empty reason each time the dialog opens
+  useEffect(() => {
+    if (!open) {
+      setReason('')
+      setError(null)
+    }
+  }, [open])
+
+  const handleConfirm = () => {
+    const trimmed = reason.trim()
+    if (!trimmed) {
+      setError('Reason is required')
+      return
+    }
+    if (trimmed.length > MAX_CANCELLATION_REASON_LENGTH) {
+      setError(`Reason must be at most ${MAX_CANCELLATION_REASON_LENGTH} characters`)
+      return
+    }
+    onConfirm(trimmed)
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {count === 1 ? 'Cancel notification?' : `Cancel ${count} notifications?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            A cancelled notification can no longer be delivered or reopened. Let others know why it
+            was cancelled.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <label htmlFor="cancellationReason" className="text-sm font-medium">
+            Reason
+          </label>
+          <Textarea
+            id="cancellationReason"
+            value={reason}
+            onChange={(event) => {
+              setReason(event.target.value)
+              setError(null)
+            }}
+            maxLength={MAX_CANCELLATION_REASON_LENGTH}
+            placeholder="e.g. The space was closed for maintenance"
+            disabled={isPending}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Keep</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(event) => {
+              // Keep the dialog open until the request finishes
+              event.preventDefault()
+              handleConfirm()
+            }}
+            disabled={isPending}
+            className="bg-destructive hover:bg-destructive/90"
+          >
+            {isPending ? 'Cancelling...' : 'Cancel notification' + (count === 1 ? '' : 's')}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -1,21 +1,56 @@
 'use client'
 
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { DateTime } from '@/components/ui/date-time'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
+import { useHasPermission } from '@/hooks/use-auth'
+import { useUpdateNotification } from '@/hooks/use-notifications'
+import {
+  NOTIFICATION_STATUSES,
+  NOTIFICATION_TYPES,
+  STATUS_TRANSITIONS,
+} from '@/schemas/notification.schema'
 import { type Notification } from '@/types/notifications.types'
 import { ColumnDef, Row } from '@tanstack/react-table'
-import { MoreHorizontal, Pencil, Trash } from 'lucide-react'
+import { Ban, CircleCheck, Eye, MoreHorizontal, Pencil, Trash } from 'lucide-react'
+import Link from 'next/link'
 import { useEffect, useState } from 'react'
 import ColumnHeaderOptions from '../ui/data-table/ColumnHeaderOptions'
+import { CancelNotificationDialog } from './cancel-notification-dialog'
 import { DeleteNotificationDialog } from './delete-notification-dialog'
 import { EditNotificationModal } from './edit-notification-modal'
+import { NotificationStatusBadge } from './notification-status-badge'
 
 export const columns: ColumnDef<Notification>[] = [
+  {
+    id: 'select',
+    size: 40,
+    header: ({ table }) => (
+      <Checkbox
+        checked={
+          table.getIsAllPageRowsSelected() || (table.getIsSomePageRowsSelected() && 'indeterminate')
+        }
+        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+        aria-label="Select all"
+      />
+    ),
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        aria-label="Select row"
+      />
+    ),
+    enableSorting: false,
+    enableHiding: false,
+  },
   {
     id: 'number',
     header: '#',
@@ -48,6 +83,7 @@ export const columns: ColumnDef<Notification>[] = [
     accessorKey: 'dateTime',
     size: 180,
     header: ({ column }) => <ColumnHeaderOptions column={column} />,
+    cell: ({ row }) => <DateTime value={row.getValue('dateTime')} location={row.original} />,
   },
   {
     accessorKey: 'status',
@@ -55,6 +91,23 @@ export const columns: ColumnDef<Notification>[] = [
     header: ({ column }) => <ColumnHeaderOptions column={column} />,
     cell: StatusCell,
   },
+  {
+    accessorKey: 'scheduledAt',
+    size: 180,
+    header: ({ column }) => <ColumnHeaderOptions column={column} title="Starts" />,
+    cell: ({ row }) =>
+      row.original.scheduledAt ? (
+        <DateTime value={row.original.scheduledAt} location={row.original} />
+      ) : (
+        <span className="text-muted-foreground">—</span>
+      ),
+  },
+  {
+    accessorKey: 'updatedAt',
+    size: 180,
+    header: ({ column }) => <ColumnHeaderOptions column={column} title="Last modified" />,
+    cell: ({ row }) => <DateTime value={row.getValue('updatedAt')} location={row.original} />,
+  },
   {
     id: 'actions',
     header: 'Actions',
@@ -63,29 +116,37 @@ export const columns: ColumnDef<Notification>[] = [
   },
 ]
 
+/**
+ * Faceted filters for the notifications table, each column id is also the API filter param
+ */
+export const filterableColumns = [
+  {
+    id: 'status',
+    title: 'Status',
+    options: NOTIFICATION_STATUSES.map((status) => ({ label: status, value: status })),
+  },
+  {
+    id: 'type',
+    title: 'Type',
+    options: NOTIFICATION_TYPES.map((type) => ({ label: type, value: type })),
+  },
+]
+
 function StatusCell({ row }: { row: Row<Notification> }) {
-  const status = row.getValue('status') as string
-  return (
-    <span
-      className={`
-        inline-flex rounded-full px-3 py-1 text-xs font-medium
-        ${status === 'Delivered'
-          ? 'bg-green-50 text-green-600'
-          : status === 'In Progress'
-            ? 'bg-yellow-50 text-yellow-600'
-            : 'bg-red-50 text-red-500'
-        }
-      `}
-    >
-      {status}
-    </span>
-  )
+  return <NotificationStatusBadge status={row.getValue('status')} />
 }
 
 function ActionsCell({ row }: { row: Row<Notification> }) {
   const [showEditModal, setShowEditModal] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [showCancelDialog, setShowCancelDialog] = useState(false)
   const [currentNotification, setCurrentNotification] = useState(row.original)
+  const { mutate: updateNotification, isPending } = useUpdateNotification()
+  const canWrite = useHasPermission('notifications:write')
+  const canDelete = useHasPermission('notifications:delete')
+
+  // Only the states the notification can move to are offered
+  const nextStatuses = STATUS_TRANSITIONS[currentNotification.status]
 
   // Update the current notification when the row data changes
   useEffect(() => {
@@ -98,6 +159,25 @@ function ActionsCell({ row }: { row: Row<Notification> }) {
     setShowEditModal(true)
   }
 
+  const markDelivered = () => {
+    updateNotification({
+      id: currentNotification.id,
+      data: { status: 'Delivered' },
+      version: currentNotification.version,
+    })
+  }
+
+  const cancel = (cancellationReason: string) => {
+    updateNotification(
+      {
+        id: currentNotification.id,
+        data: { status: 'Cancelled', cancellationReason },
+        version: currentNotification.version,
+      },
+      { onSuccess: () => setShowCancelDialog(false) }
+    )
+  }
+
   return (
     <>
       <DropdownMenu>
@@ -108,17 +188,42 @@ function ActionsCell({ row }: { row: Row<Notification> }) {
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end">
-          <DropdownMenuItem onClick={handleEditClick}>
-            <Pencil className="mr-2 h-4 w-4" />
-            Edit
-          </DropdownMenuItem>
-          <DropdownMenuItem
-            onClick={() => setShowDeleteDialog(true)}
-            className="text-destructive focus:text-destructive"
-          >
-            <Trash className="mr-2 h-4 w-4" />
-            Delete
+          <DropdownMenuItem asChild>
+            <Link href={`/notifications/${currentNotification.id}`}>
+              <Eye className="mr-2 h-4 w-4" />
+              View
+            </Link>
           </DropdownMenuItem>
+          {canWrite && (
+            <DropdownMenuItem onClick={handleEditClick}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          {canWrite && nextStatuses.includes('Delivered') && (
+            <DropdownMenuItem onClick={markDelivered} disabled={isPending}>
+              <CircleCheck className="mr-2 h-4 w-4" />
+              Mark as Delivered
+            </DropdownMenuItem>
+          )}
+          {canWrite && nextStatuses.includes('Cancelled') && (
+            <DropdownMenuItem onClick={() => setShowCancelDialog(true)} disabled={isPending}>
+              <Ban className="mr-2 h-4 w-4" />
+              Cancel...
+            </DropdownMenuItem>
+          )}
+          {canDelete && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => setShowDeleteDialog(true)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -130,6 +235,13 @@ function ActionsCell({ row }: { row: Row<Notification> }) {
         />
       )}
 
+      <CancelNotificationDialog
+        open={showCancelDialog}
+        onOpenChange={setShowCancelDialog}
+        onConfirm={cancel}
+        isPending={isPending}
+      />
+
       <DeleteNotificationDialog
         notificationId={currentNotification.id}
         open={showDeleteDialog}
@@ -16,12 +16,15 @@ interface DeleteNotificationDialogProps {
   notificationId: string
   open: boolean
   onOpenChange: (open: boolean) => void
+  /** Called after the notification was deleted, e.g. to leave its detail page */
+  onDeleted?: () => void
 }
 
 export function DeleteNotificationDialog({
   notificationId,
   open,
   onOpenChange,
+  onDeleted,
 }: DeleteNotificationDialogProps) {
   const { mutate: deleteNotification, isPending } = useDeleteNotification()
 
@@ -29,6 +32,7 @@ export function DeleteNotificationDialog({
     deleteNotification(notificationId, {
       onSuccess: () => {
         onOpenChange(false)
+        onDeleted?.()
       },
     })
   }
@@ -37,10 +41,10 @@ export function DeleteNotificationDialog({
     <AlertDialog open={open} onOpenChange={onOpenChange}>
       <AlertDialogContent>
         <AlertDialogHeader>
-          <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+          <AlertDialogTitle>Move to Trash?</AlertDialogTitle>
           <AlertDialogDescription>
-            This action cannot be undone. This will permanently delete the notification from our
-            servers.
+            The notification will be moved to the Trash, where it can be restored until it is
+            permanently deleted.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
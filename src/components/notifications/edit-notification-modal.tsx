@@ -2,6 +2,7 @@
 
 import { type Notification } from '@/types/notifications.types'
 import { Button } from '@/components/ui/button'
+import { DateTimeInput } from '@/components/ui/date-time-input'
 import {
   Dialog,
   DialogContent,
@@ -17,21 +18,39 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
 import { useUpdateNotification } from '@/hooks/use-notifications'
+import {
+  getScheduleErrors,
+  getStatusTransitionErrors,
+  NOTIFICATION_TYPES,
+  type NotificationStatus,
+  type NotificationType,
+  STATUS_TRANSITIONS,
+  type UpdateNotificationInput,
+  updateNotificationSchema,
+} from '@/schemas/notification.schema'
+import { isApiError } from '@/services/api-error'
 import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
 import { useForm } from 'react-hook-form'
-import { z } from 'zod'
+import { FieldError, setFieldErrors, setServerErrors } from './field-error'
+import { NotificationConflict } from './notification-conflict'
 
-const notificationSchema = z.object({
-  type: z.enum(['Photo', 'Text']),
-  space: z.string().min(1),
-  country: z.string().min(1),
-  city: z.string().min(1),
-  status: z.enum(['Delivered', 'In Progress', 'Cancelled']),
-  // id and dateTime are handled separately
-})
+// id is generated on the server, updatedAt records the last modification
+type NotificationFormData = UpdateNotificationInput
 
-type NotificationFormData = z.infer<typeof notificationSchema>
+const toFormValues = (notification: Notification): NotificationFormData => ({
+  type: notification.type,
+  space: notification.space,
+  country: notification.country,
+  city: notification.city,
+  status: notification.status,
+  dateTime: notification.dateTime,
+  scheduledAt: notification.scheduledAt,
+  endsAt: notification.endsAt,
+})
 
 interface EditNotificationModalProps {
   notification: Notification
@@ -45,80 +64,206 @@ export function EditNotificationModal({
   onOpenChange,
 }: EditNotificationModalProps) {
   const { mutate: updateNotification, isPending } = useUpdateNotification()
+  // Copy the form was loaded from, saving fails with a conflict once its version is outdated
+  const [base, setBase] = useState(notification)
+  // Latest server copy while the conflict view is shown
+  const [conflict, setConflict] = useState<Notification | null>(null)
 
   const form = useForm<NotificationFormData>({
-    resolver: zodResolver(notificationSchema),
-    defaultValues: {
-      type: notification.type,
-      space: notification.space,
-      country: notification.country,
-      city: notification.city,
-      status: notification.status,
-    },
+    resolver: zodResolver(updateNotificationSchema),
+    defaultValues: toFormValues(notification),
   })
 
-  const onSubmit = (data: any) => {
+  const status = form.watch('status') ?? base.status
+  // The status select only offers the current status and the ones it can move to
+  const statuses = [base.status, ...STATUS_TRANSITIONS[base.status]]
+  const isCancelling = status === 'Cancelled' && base.status !== 'Cancelled'
+
+  const save = (data: NotificationFormData, from: Notification) => {
+    // Only a notification being cancelled is sent a reason
+    const { cancellationReason, ...fields } = data
+    const changes =
+      data.status === 'Cancelled' && from.status !== 'Cancelled'
+        ? { ...fields, cancellationReason }
+        : fields
+
+    const errors = getScheduleErrors(changes) ?? getStatusTransitionErrors(from.status, changes)
+    if (errors) {
+      setFieldErrors(form, errors)
+      return
+    }
+
     updateNotification(
-      { id: notification.id, data },
+      { id: notification.id, data: changes, version: from.version },
       {
         onSuccess: () => {
           form.reset()
+          setConflict(null)
           onOpenChange(false)
         },
+        onError: (error) => {
+          if (isApiError(error) && error.code === 'conflict' && error.current) {
+            setConflict(error.current)
+            return
+          }
+          // Someone else changed the status first, offer the states it can move to now
+          if (isApiError(error) && error.code === 'invalid_transition' && error.current) {
+            setBase(error.current)
+          }
+          setServerErrors(form, error)
+        },
       }
     )
   }
 
+  const onSubmit = (data: NotificationFormData) => save(data, base)
+
+  // Drop the user's changes and edit the latest copy instead
+  const reloadLatest = (latest: Notification) => {
+    form.reset(toFormValues(latest))
+    setBase(latest)
+    setConflict(null)
+  }
+
+  // Save the user's changes again, this time against the latest version
+  const overwriteLatest = (latest: Notification) => {
+    setBase(latest)
+    save(form.getValues(), latest)
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
-        <form onSubmit={form.handleSubmit(onSubmit)}>
-          <DialogHeader>
-            <DialogTitle>Edit Notification</DialogTitle>
-            <DialogDescription>Update the notification details below.</DialogDescription>
-          </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <div className="grid grid-cols-4 items-center gap-4">
-              <label htmlFor="type">Type</label>
-              <Select
-                value={form.watch('type')}
-                onValueChange={(value: 'Photo' | 'Text') => form.setValue('type', value)}
-              >
-                <SelectTrigger className="col-span-3">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="Photo">Photo</SelectItem>
-                  <SelectItem value="Text">Text</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            {/* Other form fields similar to AddNotificationModal */}
-            <div className="grid grid-cols-4 items-center gap-4">
-              <label htmlFor="status">Status</label>
-              <Select
-                value={form.watch('status')}
-                onValueChange={(value: 'Delivered' | 'In Progress' | 'Cancelled') =>
-                  form.setValue('status', value)
-                }
-              >
-                <SelectTrigger className="col-span-3">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="Delivered">Delivered</SelectItem>
-                  <SelectItem value="In Progress">In Progress</SelectItem>
-                  <SelectItem value="Cancelled">Cancelled</SelectItem>
-                </SelectContent>
-              </Select>
+        {conflict ? (
+          <NotificationConflict
+            changes={form.getValues()}
+            latest={conflict}
+            onReload={() => reloadLatest(conflict)}
+            onOverwrite={() => overwriteLatest(conflict)}
+            isPending={isPending}
+          />
+        ) : (
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <DialogHeader>
+              <DialogTitle>Edit Notification</DialogTitle>
+              <DialogDescription>Update the notification details below.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="type">Type</label>
+                <Select
+                  value={form.watch('type')}
+                  onValueChange={(value: NotificationType) =>
+                    form.setValue('type', value, { shouldValidate: true })
+                  }
+                >
+                  <SelectTrigger id="type" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTIFICATION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError error={form.formState.errors.type} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="space">Space</label>
+                <Input id="space" className="col-span-3" {...form.register('space')} />
+                <FieldError error={form.formState.errors.space} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="country">Country</label>
+                <Input id="country" className="col-span-3" {...form.register('country')} />
+                <FieldError error={form.formState.errors.country} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="city">City</label>
+                <Input id="city" className="col-span-3" {...form.register('city')} />
+                <FieldError error={form.formState.errors.city} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="dateTime">Date</label>
+                <DateTimeInput
+                  id="dateTime"
+                  className="col-span-3"
+                  value={form.watch('dateTime')}
+                  onChange={(value) => form.setValue('dateTime', value, { shouldValidate: true })}
+                  location={{ country: form.watch('country'), city: form.watch('city') }}
+                />
+                <FieldError error={form.formState.errors.dateTime} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="scheduledAt">Starts</label>
+                <DateTimeInput
+                  id="scheduledAt"
+                  className="col-span-3"
+                  value={form.watch('scheduledAt') ?? undefined}
+                  onChange={(value) =>
+                    form.setValue('scheduledAt', value ?? null, { shouldValidate: true })
+                  }
+                  location={{ country: form.watch('country'), city: form.watch('city') }}
+                />
+                <FieldError error={form.formState.errors.scheduledAt} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="endsAt">Ends</label>
+                <DateTimeInput
+                  id="endsAt"
+                  className="col-span-3"
+                  value={form.watch('endsAt') ?? undefined}
+                  onChange={(value) =>
+                    form.setValue('endsAt', value ?? null, { shouldValidate: true })
+                  }
+                  location={{ country: form.watch('country'), city: form.watch('city') }}
+                />
+                <FieldError error={form.formState.errors.endsAt} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="status">Status</label>
+                <Select
+                  value={status}
+                  onValueChange={(value: NotificationStatus) =>
+                    form.setValue('status', value, { shouldValidate: true })
+                  }
+                  disabled={statuses.length === 1}
+                >
+                  <SelectTrigger id="status" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statuses.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError error={form.formState.errors.status} />
+              </div>
+              {isCancelling && (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <label htmlFor="cancellationReason">Reason</label>
+                  <Textarea
+                    id="cancellationReason"
+                    className="col-span-3"
+                    placeholder="Why is the notification cancelled?"
+                    {...form.register('cancellationReason')}
+                  />
+                  <FieldError error={form.formState.errors.cancellationReason} />
+                </div>
+              )}
             </div>
-          </div>
-          <DialogFooter>
-            <Button type="submit" disabled={isPending}>
-              {isPending ? 'Saving...' : 'Save Changes'}
-            </Button>
-          </DialogFooter>
-        </form>
+            <DialogFooter>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   )
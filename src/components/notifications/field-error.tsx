@@ -0,0 +1,55 @@
+import { isApiError } from '@/services/api-error'
+import {
+  type FieldValues,
+  type FieldError as FormFieldError,
+  type Path,
+  type UseFormReturn,
+} from 'react-hook-form'
+
+/**
+ * Validation message shown under a form input, aligned with the input column
+ */
+export function FieldError({ error }: { error?: FormFieldError }) {
+  if (!error?.message) return null
+
+  return <p className="col-span-3 col-start-2 text-sm text-destructive">{error.message}</p>
+}
+
+/**
+ * Shows the per-field `errors` of a failed request under the matching form inputs
+ *
+ * @returns Whether the error carried field errors
+ *
+ * @example
+ * ```ts
+ * addNotification(data, { onError: (error) => setServerErrors(form, error) })
+ * ```
+ */
+export function setServerErrors<T extends FieldValues>(form: UseFormReturn<T>, error: unknown) {
+  if (!isApiError(error)) return false
+  return setFieldErrors(form, error.errors, 'server')
+}
+
+/**
+ * Shows messages per field, such as the ones of `getStatusTransitionErrors`, under the
+ * matching form inputs
+ *
+ * @returns Whether there were any messages
+ *
+ * @example
+ * ```ts
+ * const errors = getScheduleErrors(data)
+ * if (errors) return setFieldErrors(form, errors)
+ * ```
+ */
+export function setFieldErrors<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  errors: Record<string, string[]>,
+  type = 'validate'
+) {
+  const fieldErrors = Object.entries(errors)
+  for (const [field, messages] of fieldErrors) {
+    form.setError(field as Path<T>, { type, message: messages[0] })
+  }
+  return fieldErrors.length > 0
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useHasPermission } from '@/hooks/use-auth'
+import { useBulkNotifications } from '@/hooks/use-notifications'
+import {
+  type BulkNotificationInput,
+  NOTIFICATION_STATUSES,
+  STATUS_TRANSITIONS,
+} from '@/schemas/notification.schema'
+import { type Notification } from '@/types/notifications.types'
+import { Ban, ChevronDown, Trash } from 'lucide-react'
+import { useState } from 'react'
+import { CancelNotificationDialog } from './cancel-notification-dialog'
+
+interface NotificationBulkActionsProps {
+  /** Selected notifications */
+  notifications: Notification[]
+  /** Called once an action was applied, e.g. to clear the selection */
+  onDone: () => void
+}
+
+/**
+ * NotificationBulkActions Component
+ *
+ * Set status, cancel and delete actions for the notifications selected in the table.
+ * Only statuses some selected notification can move to are offered, notifications that
+ * can't are reported as failed. Cancelling asks for a reason and deleting for confirmation.
+ * Actions the user's role doesn't allow are left out.
+ *
+ * @example
+ * ```tsx
+ * <DataTable
+ *   renderBulkActions={(rows, clearSelection) => (
+ *     <NotificationBulkActions notifications={rows} onDone={clearSelection} />
+ *   )}
+ * />
+ * ```
+ */
+export function NotificationBulkActions({ notifications, onDone }: NotificationBulkActionsProps) {
+  const { mutate: bulkUpdate, isPending } = useBulkNotifications()
+  const canWrite = useHasPermission('notifications:write')
+  const canDelete = useHasPermission('notifications:delete')
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [showCancelDialog, setShowCancelDialog] = useState(false)
+
+  const ids = notifications.map((notification) => notification.id)
+  // Cancelling needs a reason, it has its own action
+  const statuses = NOTIFICATION_STATUSES.filter(
+    (status) =>
+      status !== 'Cancelled' &&
+      notifications.some((notification) => STATUS_TRANSITIONS[notification.status].includes(status))
+  )
+  const canCancel = notifications.some((notification) =>
+    STATUS_TRANSITIONS[notification.status].includes('Cancelled')
+  )
+
+  const apply = (input: BulkNotificationInput) => {
+    bulkUpdate(input, {
+      onSuccess: () => {
+        setShowDeleteDialog(false)
+        setShowCancelDialog(false)
+        onDone()
+      },
+    })
+  }
+
+  return (
+    <>
+      {canWrite && (
+        <>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={isPending || !statuses.length}
+              >
+                Set status
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {statuses.map((status) => (
+                <DropdownMenuItem
+                  key={status}
+                  onClick={() => apply({ action: 'setStatus', ids, status })}
+                >
+                  {status}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={isPending || !canCancel}
+            onClick={() => setShowCancelDialog(true)}
+          >
+            <Ban className="h-4 w-4" />
+            Cancel
+          </Button>
+        </>
+      )}
+      {canDelete && (
+        <Button
+          variant="destructive"
+          size="sm"
+          className="gap-2"
+          disabled={isPending}
+          onClick={() => setShowDeleteDialog(true)}
+        >
+          <Trash className="h-4 w-4" />
+          Delete
+        </Button>
+      )}
+
+      <CancelNotificationDialog
+        open={showCancelDialog}
+        onOpenChange={setShowCancelDialog}
+        onConfirm={(cancellationReason) => apply({ action: 'cancel', ids, cancellationReason })}
+        isPending={isPending}
+        count={ids.length}
+      />
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {ids.length} notification{ids.length === 1 ? '' : 's'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected notifications will be moved to the Trash, where they can be restored
+              until they are permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                // Keep the dialog open until the request finishes
+                event.preventDefault()
+                apply({ action: 'delete', ids })
+              }}
+              disabled={isPending}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
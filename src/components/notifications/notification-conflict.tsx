@@ -0,0 +1,104 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { DateTime } from '@/components/ui/date-time'
+import { DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import { type UpdateNotificationInput } from '@/schemas/notification.schema'
+import { type Notification } from '@/types/notifications.types'
+
+const COMPARED_FIELDS = [
+  { name: 'type', label: 'Type' },
+  { name: 'space', label: 'Space' },
+  { name: 'country', label: 'Country' },
+  { name: 'city', label: 'City' },
+  { name: 'dateTime', label: 'Date' },
+  { name: 'status', label: 'Status' },
+] as const
+
+type ComparedField = (typeof COMPARED_FIELDS)[number]['name']
+
+const renderValue = (name: ComparedField, value: string, latest: Notification) =>
+  name === 'dateTime' ? <DateTime value={value} location={latest} /> : value
+
+interface NotificationConflictProps {
+  /** Values the user tried to save */
+  changes: UpdateNotificationInput
+  /** Latest server copy returned with the 409 */
+  latest: Notification
+  /** Discard the user's changes and continue editing the latest copy */
+  onReload: () => void
+  /** Save the user's changes over the latest copy */
+  onOverwrite: () => void
+  isPending?: boolean
+}
+
+/**
+ * NotificationConflict Component
+ *
+ * Shown in place of the edit form when saving fails because someone else updated
+ * the notification first. Lists the user's changes next to the latest server copy,
+ * highlighting the fields that differ, and lets the user reload or overwrite.
+ *
+ * @example
+ * ```tsx
+ * <NotificationConflict
+ *   changes={form.getValues()}
+ *   latest={conflict}
+ *   onReload={reload}
+ *   onOverwrite={overwrite}
+ * />
+ * ```
+ */
+export function NotificationConflict({
+  changes,
+  latest,
+  onReload,
+  onOverwrite,
+  isPending,
+}: NotificationConflictProps) {
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>This notification was changed</DialogTitle>
+        <DialogDescription>
+          Someone else saved changes while you were editing. Compare them with yours and choose
+          which to keep.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="my-4 rounded-md border text-sm">
+        <div className="grid grid-cols-3 gap-2 border-b px-3 py-2 font-medium text-muted-foreground">
+          <span>Field</span>
+          <span>Your changes</span>
+          <span>Latest</span>
+        </div>
+        {COMPARED_FIELDS.map(({ name, label }) => {
+          const differs = changes[name] !== undefined && changes[name] !== latest[name]
+
+          return (
+            <div
+              key={name}
+              className={cn('grid grid-cols-3 gap-2 px-3 py-2', differs && 'bg-amber-50')}
+            >
+              <span className="text-muted-foreground">{label}</span>
+              <span className={cn(differs && 'font-medium')}>
+                {renderValue(name, changes[name] ?? latest[name], latest)}
+              </span>
+              <span className={cn(differs && 'font-medium')}>
+                {renderValue(name, latest[name], latest)}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+      <DialogFooter className="gap-2">
+        <Button type="button" variant="outline" onClick={onReload} disabled={isPending}>
+          Reload latest
+        </Button>
+        <Button type="button" onClick={onOverwrite} disabled={isPending}>
+          {isPending ? 'Saving...' : 'Keep my changes'}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
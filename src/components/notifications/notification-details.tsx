@@ -0,0 +1,172 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { DateTime } from '@/components/ui/date-time'
+import { Separator } from '@/components/ui/separator'
+import { useHasPermission } from '@/hooks/use-auth'
+import { useNotification } from '@/hooks/use-notifications'
+import { type Notification } from '@/types/notifications.types'
+import { ArrowLeft, Pencil, Trash } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { DeleteNotificationDialog } from './delete-notification-dialog'
+import { EditNotificationModal } from './edit-notification-modal'
+import { NotificationHistory } from './notification-history'
+import { NotificationStatusBadge } from './notification-status-badge'
+
+interface NotificationDetailsProps {
+  /** Notification fetched on the server */
+  notification: Notification
+}
+
+/**
+ * NotificationDetails Component
+ *
+ * Shows every field of a notification with its timestamps, including its schedule and
+ * when it was delivered or cancelled and why, edit/delete actions when the role allows them
+ * and the history of changes made to it.
+ * Stays in sync with the notifications cache, so edits are reflected immediately.
+ *
+ * @example
+ * ```tsx
+ * <NotificationDetails notification={notification} />
+ * ```
+ */
+export function NotificationDetails({
+  notification: initialNotification,
+}: NotificationDetailsProps) {
+  const router = useRouter()
+  const [showEditModal, setShowEditModal] = useState(false)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const canWrite = useHasPermission('notifications:write')
+  const canDelete = useHasPermission('notifications:delete')
+
+  const { data } = useNotification(initialNotification.id, initialNotification)
+  const notification = data ?? initialNotification
+
+  const fields: { label: string; value: React.ReactNode }[] = [
+    { label: 'Type', value: notification.type },
+    { label: 'Space', value: notification.space },
+    { label: 'Country', value: notification.country },
+    { label: 'City', value: notification.city },
+    { label: 'Date', value: <DateTime value={notification.dateTime} location={notification} /> },
+    { label: 'Status', value: <NotificationStatusBadge status={notification.status} /> },
+    ...(notification.scheduledAt
+      ? [
+          {
+            label: 'Starts',
+            value: <DateTime value={notification.scheduledAt} location={notification} />,
+          },
+        ]
+      : []),
+    ...(notification.endsAt
+      ? [
+          {
+            label: 'Ends',
+            value: <DateTime value={notification.endsAt} location={notification} />,
+          },
+        ]
+      : []),
+    ...(notification.deliveredAt
+      ? [
+          {
+            label: 'Delivered',
+            value: <DateTime value={notification.deliveredAt} location={notification} />,
+          },
+        ]
+      : []),
+    ...(notification.cancelledAt
+      ? [
+          {
+            label: 'Cancelled',
+            value: <DateTime value={notification.cancelledAt} location={notification} />,
+          },
+        ]
+      : []),
+    ...(notification.cancellationReason
+      ? [{ label: 'Cancellation reason', value: notification.cancellationReason }]
+      : []),
+    {
+      label: 'Created',
+      value: <DateTime value={notification.createdAt} location={notification} />,
+    },
+    {
+      label: 'Last modified',
+      value: <DateTime value={notification.updatedAt} location={notification} />,
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/notifications">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to notifications</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Notification</h1>
+        </div>
+        <div className="flex items-center space-x-2">
+          {canWrite && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowEditModal(true)}
+              className="gap-2"
+            >
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setShowDeleteDialog(true)}
+              className="gap-2"
+            >
+              <Trash className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <div className="px-4 py-3">
+          <p className="text-sm text-muted-foreground">ID</p>
+          <p className="font-mono text-sm">{notification.id}</p>
+        </div>
+        <Separator />
+        <dl className="grid gap-4 p-4 sm:grid-cols-2">
+          {fields.map(({ label, value }) => (
+            <div key={label} className="space-y-1">
+              <dt className="text-sm text-muted-foreground">{label}</dt>
+              <dd className="text-sm font-medium">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <NotificationHistory notification={notification} />
+
+      {showEditModal && (
+        <EditNotificationModal
+          notification={notification}
+          open={showEditModal}
+          onOpenChange={setShowEditModal}
+        />
+      )}
+
+      <DeleteNotificationDialog
+        notificationId={notification.id}
+        open={showDeleteDialog}
+        onOpenChange={setShowDeleteDialog}
+        onDeleted={() => router.push('/notifications')}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { DateTime } from '@/components/ui/date-time'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useAuditLog } from '@/hooks/use-notifications'
+import { cn } from '@/lib/utils'
+import { type AuditAction, type AuditedField } from '@/schemas/notification.schema'
+import {
+  type AuditChange,
+  type AuditLogEntry,
+  type Notification,
+} from '@/types/notifications.types'
+import { Pencil, Plus, RotateCcw, Trash, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+
+/**
+ * Label of each audited field
+ */
+export const AUDIT_FIELD_LABELS: Record<AuditedField, string> = {
+  type: 'Type',
+  space: 'Space',
+  country: 'Country',
+  city: 'City',
+  dateTime: 'Date',
+  status: 'Status',
+  scheduledAt: 'Starts',
+  endsAt: 'Ends',
+  cancellationReason: 'Cancellation reason',
+  deletedAt: 'Deleted',
+}
+
+/**
+ * How each audit log action is shown
+ */
+export const AUDIT_ACTION_DISPLAY: Record<
+  AuditAction,
+  { label: string; icon: typeof Plus; className: string }
+> = {
+  create: { label: 'Created', icon: Plus, className: 'bg-green-100 text-green-700' },
+  update: { label: 'Updated', icon: Pencil, className: 'bg-blue-100 text-blue-700' },
+  delete: { label: 'Moved to Trash', icon: Trash, className: 'bg-red-100 text-red-700' },
+  restore: { label: 'Restored', icon: RotateCcw, className: 'bg-amber-100 text-amber-700' },
+  purge: { label: 'Permanently deleted', icon: Trash2, className: 'bg-red-100 text-red-700' },
+}
+
+const DATE_FIELDS: AuditedField[] = ['dateTime', 'scheduledAt', 'endsAt', 'deletedAt']
+
+const PAGE_SIZE = 20
+
+const renderValue = (field: AuditedField, value: string | null, notification: Notification) => {
+  if (value === null) return <span className="text-muted-foreground">none</span>
+  return DATE_FIELDS.includes(field) ? <DateTime value={value} location={notification} /> : value
+}
+
+interface HistoryChangeProps {
+  change: AuditChange
+  action: AuditAction
+  notification: Notification
+}
+
+function HistoryChange({
+  change: { field, before, after },
+  action,
+  notification,
+}: HistoryChangeProps) {
+  return (
+    <li className="grid grid-cols-[140px_1fr] gap-2">
+      <span className="text-muted-foreground">{AUDIT_FIELD_LABELS[field]}</span>
+      <span>
+        {action === 'create' ? (
+          renderValue(field, after, notification)
+        ) : action === 'purge' ? (
+          <span className="line-through">{renderValue(field, before, notification)}</span>
+        ) : (
+          <>
+            <span className="text-muted-foreground line-through">
+              {renderValue(field, before, notification)}
+            </span>
+            {' → '}
+            <span className="font-medium">{renderValue(field, after, notification)}</span>
+          </>
+        )}
+      </span>
+    </li>
+  )
+}
+
+interface HistoryEntryProps {
+  entry: AuditLogEntry
+  notification: Notification
+}
+
+function HistoryEntry({ entry, notification }: HistoryEntryProps) {
+  const { label, icon: Icon, className } = AUDIT_ACTION_DISPLAY[entry.action]
+
+  return (
+    <li className="relative flex gap-3 pb-6 last:pb-0">
+      <span
+        className={cn(
+          'z-10 flex h-7 w-7 shrink-0 items-center justify-center rounded-full',
+          className
+        )}
+      >
+        <Icon className="h-3.5 w-3.5" />
+      </span>
+      <div className="flex-1 space-y-2 pt-0.5">
+        <p className="text-sm">
+          <span className="font-medium">{label}</span> by{' '}
+          <span className="font-medium">{entry.actor}</span>{' '}
+          <span className="text-muted-foreground">
+            <DateTime value={entry.createdAt} location={notification} />
+          </span>
+        </p>
+        {entry.changes.length > 0 && (
+          <ul className="space-y-1 rounded-md border p-3 text-sm">
+            {entry.changes.map((change) => (
+              <HistoryChange
+                key={change.field}
+                change={change}
+                action={entry.action}
+                notification={notification}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </li>
+  )
+}
+
+interface NotificationHistoryProps {
+  notification: Notification
+}
+
+/**
+ * NotificationHistory Component
+ *
+ * Timeline of every change made to a notification, newest first, from its audit log.
+ * Each entry shows who made the change and when, with the values of the fields that
+ * changed before and after.
+ *
+ * @example
+ * ```tsx
+ * <NotificationHistory notification={notification} />
+ * ```
+ */
+export function NotificationHistory({ notification }: NotificationHistoryProps) {
+  const [page, setPage] = useState(1)
+  const { data, isLoading, isError, error } = useAuditLog(notification.id, {
+    page,
+    limit: PAGE_SIZE,
+  })
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold">History</h2>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : !data?.data.length ? (
+        <p className="text-sm text-muted-foreground">No changes have been recorded yet.</p>
+      ) : (
+        <ol className="relative before:absolute before:bottom-0 before:left-3.5 before:top-0 before:w-px before:bg-border">
+          {data.data.map((entry) => (
+            <HistoryEntry key={entry.id} entry={entry} notification={notification} />
+          ))}
+        </ol>
+      )}
+
+      {data && data.metadata.totalPages > 1 && (
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page <= 1}
+          >
+            Newer
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {data.metadata.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page >= data.metadata.totalPages}
+          >
+            Older
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
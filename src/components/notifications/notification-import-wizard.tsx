@@ -0,0 +1,371 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { DateTime } from '@/components/ui/date-time'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useImportNotifications } from '@/hooks/use-notifications'
+import { parseCsv } from '@/lib/csv'
+import {
+  type ColumnMapping,
+  DATE_FIELDS,
+  guessColumnMapping,
+  toImportRow,
+} from '@/lib/notifications/import'
+import { cn } from '@/lib/utils'
+import {
+  createNotificationSchema,
+  getInitialStatus,
+  getScheduleErrors,
+  getStatusTransitionErrors,
+  IMPORT_FIELDS,
+  type ImportField,
+  MAX_IMPORT_ROWS,
+  toFieldErrors,
+} from '@/schemas/notification.schema'
+import { ArrowLeft, ArrowRight, Upload } from 'lucide-react'
+import Link from 'next/link'
+import { useMemo, useState } from 'react'
+
+type Step = 'upload' | 'map' | 'preview' | 'done'
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'map', label: 'Map columns' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'done', label: 'Done' },
+]
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  type: 'Type',
+  space: 'Space',
+  country: 'Country',
+  city: 'City',
+  status: 'Status',
+  dateTime: 'Date',
+  scheduledAt: 'Starts',
+  endsAt: 'Ends',
+  cancellationReason: 'Cancellation reason',
+}
+
+/**
+ * Fields every row needs, the others fall back to their defaults when not mapped
+ */
+const REQUIRED_FIELDS: ImportField[] = ['type', 'space', 'country', 'city']
+
+const UNMAPPED = 'unmapped'
+
+interface ParsedFile {
+  name: string
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * NotificationImportWizard Component
+ *
+ * Imports notifications from a partner's CSV file in four steps:
+ * 1. Upload the file, its first line holds the column headers
+ * 2. Map the columns to notification fields, matching headers are mapped automatically
+ * 3. Preview the rows with their validation errors, using the same rules as the API
+ * 4. Import the rows and review how many were inserted, skipped or failed
+ *
+ * @example
+ * ```tsx
+ * <NotificationImportWizard />
+ * ```
+ */
+export function NotificationImportWizard() {
+  const [step, setStep] = useState<Step>('upload')
+  const [file, setFile] = useState<ParsedFile | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [onlyErrors, setOnlyErrors] = useState(false)
+
+  const { mutate: importRows, data: result, isPending, reset } = useImportNotifications()
+
+  // Rows as they will be sent, with the errors the API would report for them
+  const preview = useMemo(
+    () =>
+      (file?.rows ?? []).map((fields, index) => {
+        const row = toImportRow(fields, mapping)
+        const parsed = createNotificationSchema.safeParse(row)
+        return {
+          number: index + 1,
+          row,
+          errors: parsed.success
+            ? (getScheduleErrors(parsed.data) ??
+              getStatusTransitionErrors(getInitialStatus(parsed.data.scheduledAt), parsed.data))
+            : toFieldErrors(parsed.error),
+        }
+      }),
+    [file, mapping]
+  )
+  const invalidCount = preview.filter((item) => item.errors).length
+  const missingFields = REQUIRED_FIELDS.filter((field) => mapping[field] === undefined)
+
+  const handleFile = async (selected: File | undefined) => {
+    setFileError(null)
+    if (!selected) return
+
+    const [headers, ...rows] = parseCsv(await selected.text())
+    if (!headers || !rows.length) {
+      setFileError('The file has no rows below the header line')
+      return
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      setFileError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`)
+      return
+    }
+
+    setFile({ name: selected.name, headers, rows })
+    setMapping(guessColumnMapping(headers))
+    setStep('map')
+  }
+
+  const handleImport = () => {
+    importRows({ rows: preview.map((item) => item.row) }, { onSuccess: () => setStep('done') })
+  }
+
+  const startOver = () => {
+    setFile(null)
+    setMapping({})
+    setOnlyErrors(false)
+    reset()
+    setStep('upload')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/notifications">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="sr-only">Back to notifications</span>
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">Import notifications</h1>
+      </div>
+
+      <ol className="flex items-center gap-2 text-sm">
+        {STEPS.map(({ id, label }, index) => (
+          <li key={id} className="flex items-center gap-2">
+            {index > 0 && <span className="text-muted-foreground">/</span>}
+            <span className={cn(step === id ? 'font-medium' : 'text-muted-foreground')}>
+              {index + 1}. {label}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {step === 'upload' && (
+        <div className="space-y-2 rounded-md border p-6">
+          <label htmlFor="file" className="text-sm font-medium">
+            CSV file
+          </label>
+          <Input
+            id="file"
+            type="file"
+            accept=".csv,text/csv"
+            className="max-w-sm"
+            onChange={(event) => handleFile(event.target.files?.[0])}
+          />
+          <p className="text-sm text-muted-foreground">
+            The first line must hold the column headers. Up to {MAX_IMPORT_ROWS} rows.
+          </p>
+          {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+        </div>
+      )}
+
+      {step === 'map' && file && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {file.name}: {file.rows.length} rows. Pick the column holding each field.
+          </p>
+          <div className="grid max-w-xl gap-3">
+            {IMPORT_FIELDS.map((field) => {
+              const index = mapping[field]
+              return (
+                <div key={field} className="grid grid-cols-3 items-center gap-4">
+                  <label htmlFor={`map-${field}`} className="text-sm">
+                    {FIELD_LABELS[field]}
+                    {REQUIRED_FIELDS.includes(field) && (
+                      <span className="text-destructive"> *</span>
+                    )}
+                  </label>
+                  <Select
+                    value={index === undefined ? UNMAPPED : String(index)}
+                    onValueChange={(value) =>
+                      setMapping((current) => ({
+                        ...current,
+                        [field]: value === UNMAPPED ? undefined : Number(value),
+                      }))
+                    }
+                  >
+                    <SelectTrigger id={`map-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {file.headers.map((header, headerIndex) => (
+                        <SelectItem key={headerIndex} value={String(headerIndex)}>
+                          {header || `Column ${headerIndex + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="truncate text-sm text-muted-foreground">
+                    {index === undefined ? '' : file.rows[0][index]}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+          {missingFields.length > 0 && (
+            <p className="text-sm text-destructive">
+              Map a column to {missingFields.map((field) => FIELD_LABELS[field]).join(', ')}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={startOver}>
+              Choose another file
+            </Button>
+            <Button
+              onClick={() => setStep('preview')}
+              disabled={missingFields.length > 0}
+              className="gap-2"
+            >
+              Preview
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm">
+              {preview.length - invalidCount} valid rows,{' '}
+              <span className={cn(invalidCount && 'text-destructive')}>
+                {invalidCount} with errors
+              </span>
+              . Rows with errors will be reported as failed.
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={onlyErrors}
+                onCheckedChange={(value) => setOnlyErrors(value === true)}
+              />
+              Only rows with errors
+            </label>
+          </div>
+          <div className="max-h-[480px] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  {IMPORT_FIELDS.map((field) => (
+                    <TableHead key={field}>{FIELD_LABELS[field]}</TableHead>
+                  ))}
+                  <TableHead>Errors</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview
+                  .filter((item) => !onlyErrors || item.errors)
+                  .map(({ number, row, errors }) => (
+                    <TableRow key={number} className={cn(errors && 'bg-destructive/5')}>
+                      <TableCell className="text-muted-foreground">{number}</TableCell>
+                      {IMPORT_FIELDS.map((field) => (
+                        <TableCell
+                          key={field}
+                          className={cn(errors?.[field] && 'text-destructive')}
+                        >
+                          {DATE_FIELDS.includes(field) && row[field] && !errors?.[field] ? (
+                            <DateTime value={row[field]} location={row} />
+                          ) : (
+                            (row[field] ?? '—')
+                          )}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-sm text-destructive">
+                        {errors && Object.values(errors).flat().join(', ')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setStep('map')} disabled={isPending}>
+              Back
+            </Button>
+            <Button onClick={handleImport} disabled={isPending} className="gap-2">
+              <Upload className="h-4 w-4" />
+              {isPending ? 'Importing...' : `Import ${preview.length} rows`}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-4">
+          <dl className="grid max-w-md grid-cols-3 gap-4 rounded-md border p-4">
+            {(
+              [
+                ['Inserted', result.inserted],
+                ['Skipped', result.skipped],
+                ['Failed', result.failed],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label} className="space-y-1">
+                <dt className="text-sm text-muted-foreground">{label}</dt>
+                <dd className="text-2xl font-bold">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          {result.skipped + result.failed > 0 && (
+            <ul className="space-y-1 text-sm">
+              {result.results
+                .filter((item) => item.status !== 'inserted')
+                .map((item) => (
+                  <li key={item.row}>
+                    <span className="text-muted-foreground">Row {item.row}:</span>{' '}
+                    {item.status === 'skipped'
+                      ? `skipped, ${item.reason}`
+                      : Object.values(item.errors ?? {})
+                          .flat()
+                          .join(', ')}
+                  </li>
+                ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={startOver}>
+              Import another file
+            </Button>
+            <Button asChild>
+              <Link href="/notifications">View notifications</Link>
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
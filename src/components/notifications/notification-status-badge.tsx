@@ -0,0 +1,27 @@
+import { cn } from '@/lib/utils'
+import { type Notification } from '@/types/notifications.types'
+
+interface NotificationStatusBadgeProps {
+  status: Notification['status']
+  className?: string
+}
+
+export function NotificationStatusBadge({ status, className }: NotificationStatusBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex rounded-full px-3 py-1 text-xs font-medium',
+        status === 'Delivered'
+          ? 'bg-green-50 text-green-600'
+          : status === 'In Progress'
+            ? 'bg-yellow-50 text-yellow-600'
+            : status === 'Scheduled'
+              ? 'bg-blue-50 text-blue-600'
+              : 'bg-red-50 text-red-500',
+        className
+      )}
+    >
+      {status}
+    </span>
+  )
+}
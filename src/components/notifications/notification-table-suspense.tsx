@@ -2,43 +2,61 @@
 
 import { Button } from '@/components/ui/button'
 import { DataTable } from '@/components/ui/data-table/data-table'
+import { useHasPermission } from '@/hooks/use-auth'
 import { useSuspenseNotifications } from '@/hooks/use-notifications'
 import { cn } from '@/lib/utils'
-import { NotificationsResponse } from '@/services/notifications'
-import { Plus, RefreshCcw } from 'lucide-react'
+import { EXPORT_FORMATS } from '@/schemas/notification.schema'
+import {
+  FetchNotificationsParams,
+  getNotificationsExportUrl,
+  NotificationsResponse,
+} from '@/services/notifications'
+import { Plus, RefreshCcw, Upload } from 'lucide-react'
+import Link from 'next/link'
 import { useState } from 'react'
 import { AddNotificationModal } from './add-notification-modal'
-import { columns } from './columns'
+import { columns, filterableColumns } from './columns'
+import { NotificationBulkActions } from './notification-bulk-actions'
 
 interface NotificationTableSuspenseProps {
   initialPage?: number
   initialLimit?: number
+  initialFilters?: Pick<FetchNotificationsParams, 'query' | 'status' | 'type' | 'sort' | 'order'>
   initialData?: NotificationsResponse
 }
 
 export function NotificationTableSuspense({
   initialPage = 1,
   initialLimit = 10,
+  initialFilters,
   initialData,
 }: NotificationTableSuspenseProps) {
   const [addModalOpen, setAddModalOpen] = useState(false)
+  const canWrite = useHasPermission('notifications:write')
+  const canDelete = useHasPermission('notifications:delete')
+
+  // Export what the table shows: the same filters and sort, every page
+  const exportOptions = EXPORT_FORMATS.map((format) => ({
+    label: format.toUpperCase(),
+    href: getNotificationsExportUrl({ ...initialFilters }, format),
+  }))
 
   const { data, refetch, isFetching } = useSuspenseNotifications({
     page: initialPage,
     limit: initialLimit,
+    ...initialFilters,
     initialData,
     initialDataUpdatedAt: initialData ? Date.now() : undefined, // Mark when the initial data was received
   })
+  // Cursor pages come without a total
+  const totalCount = data.metadata.mode === 'offset' ? data.metadata.totalCount : 0
 
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-bold flex items-center gap-2">
-            Total Notifications:{' '}
-            <span className="flex items-center gap-2">
-              {data.metadata.totalCount}
-            </span>
+            Total Notifications: <span className="flex items-center gap-2">{totalCount}</span>
           </h1>
         </div>
         <div className="flex items-center space-x-2">
@@ -52,40 +70,41 @@ export function NotificationTableSuspense({
             <RefreshCcw className={cn('h-4 w-4', isFetching ? 'animate-spin' : '')} />
             {isFetching ? 'Refreshing...' : 'Refresh'}
           </Button>
-          <Button size="sm" onClick={() => setAddModalOpen(true)} className="gap-2">
-            <Plus className="h-4 w-4" />
-            Add Notification
-          </Button>
+          {canWrite && (
+            <>
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <Link href="/notifications/import">
+                  <Upload className="h-4 w-4" />
+                  Import
+                </Link>
+              </Button>
+              <Button size="sm" onClick={() => setAddModalOpen(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Notification
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
       <DataTable
         columns={columns}
         data={data.data}
-        totalCount={data.metadata.totalCount}
+        totalCount={totalCount}
         onRefresh={refetch}
         isRefetching={isFetching}
-        filterableColumns={[
-          {
-            id: 'status',
-            title: 'Status',
-            options: [
-              { label: 'Delivered', value: 'Delivered' },
-              { label: 'In Progress', value: 'In Progress' },
-              { label: 'Cancelled', value: 'Cancelled' },
-            ],
-          },
-          {
-            id: 'type',
-            title: 'Type',
-            options: [
-              { label: 'Photo', value: 'Photo' },
-              { label: 'Text', value: 'Text' },
-            ],
-          },
-        ]}
+        filterableColumns={filterableColumns}
+        getRowId={(notification) => notification.id}
+        exportOptions={exportOptions}
+        renderBulkActions={
+          canWrite || canDelete
+            ? (selected, clearSelection) => (
+                <NotificationBulkActions notifications={selected} onDone={clearSelection} />
+              )
+            : undefined
+        }
       />
-      <AddNotificationModal open={addModalOpen} onOpenChange={setAddModalOpen} />
+      {canWrite && <AddNotificationModal open={addModalOpen} onOpenChange={setAddModalOpen} />}
     </div>
   )
-} 
\ No newline at end of file
+}
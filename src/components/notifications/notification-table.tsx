@@ -1,14 +1,21 @@
 'use client'
 
+import { NoTeam } from '@/components/teams/no-team'
 import { Button } from '@/components/ui/button'
 import { DataTable } from '@/components/ui/data-table/data-table'
+import { useHasPermission } from '@/hooks/use-auth'
 import { useNotifications } from '@/hooks/use-notifications'
 import { cn } from '@/lib/utils'
-import { Plus, RefreshCcw } from 'lucide-react'
+import { EXPORT_FORMATS } from '@/schemas/notification.schema'
+import { isApiError } from '@/services/api-error'
+import { getNotificationsExportUrl } from '@/services/notifications'
+import { Plus, RefreshCcw, Upload } from 'lucide-react'
+import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { useState } from 'react'
 import { AddNotificationModal } from './add-notification-modal'
-import { columns } from './columns'
+import { columns, filterableColumns } from './columns'
+import { NotificationBulkActions } from './notification-bulk-actions'
 
 /**
  * NotificationTable Component
@@ -17,12 +24,13 @@ import { columns } from './columns'
  * Uses React Query for data fetching and state management.
  *
  * Features:
- * - Server-side pagination
+ * - Server-side pagination (offset, or keyset with `?mode=cursor`)
  * - Server-side sorting
  * - Server-side filtering
  * - Real-time data updates
  * - Loading states
  * - Error handling
+ * - Adding, importing and bulk actions only for roles allowed to use them
  *
  * @example
  * ```tsx
@@ -40,15 +48,45 @@ export function NotificationTable({
   const searchParams = useSearchParams()
   const page = Number(searchParams.get('page')) || initialPage
   const limit = Number(searchParams.get('limit')) || initialLimit
+  // `?mode=cursor` switches to keyset pagination, paging with `after`/`before` cursors
+  const mode = searchParams.get('mode') === 'cursor' ? 'cursor' : 'offset'
+  const after = searchParams.get('after') ?? undefined
+  const before = searchParams.get('before') ?? undefined
+  const query = searchParams.get('query') ?? undefined
+  const status = searchParams.get('status') ?? undefined
+  const type = searchParams.get('type') ?? undefined
+  const sort = searchParams.get('sort') ?? undefined
+  const order = searchParams.get('order') ?? undefined
 
   const [addModalOpen, setAddModalOpen] = useState(false)
+  const canWrite = useHasPermission('notifications:write')
+  const canDelete = useHasPermission('notifications:delete')
 
-  const { data, isLoading, isError, refetch, isFetching } = useNotifications({
+  // Export what the table shows: the same filters and sort, every page
+  const exportOptions = EXPORT_FORMATS.map((format) => ({
+    label: format.toUpperCase(),
+    href: getNotificationsExportUrl({ query, status, type, sort, order }, format),
+  }))
+
+  const { data, isLoading, isError, error, refetch, isFetching } = useNotifications({
     page,
     limit,
+    mode,
+    after,
+    before,
+    query,
+    status,
+    type,
+    sort,
+    order,
   })
+  // Cursor pages come without a total
+  const totalCount = data?.metadata.mode === 'offset' ? data.metadata.totalCount : undefined
 
   if (isError) {
+    if (isApiError(error) && error.code === 'no_team') {
+      return <NoTeam />
+    }
     return (
       <div className="flex h-[400px] flex-col items-center justify-center gap-4">
         <p className="text-muted-foreground">Failed to load notifications</p>
@@ -63,14 +101,18 @@ export function NotificationTable({
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-2xl font-bold flex items-center gap-2">
-            Total Notifications:{' '}
-            <span className="flex items-center gap-2">
-              {data?.metadata?.totalCount ?? (
-                <RefreshCcw className={cn('h-4 w-4', isFetching ? 'animate-spin' : '')} />
-              )}
-            </span>
-          </h1>
+          {mode === 'cursor' ? (
+            <h1 className="text-2xl font-bold">Notifications</h1>
+          ) : (
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              Total Notifications:{' '}
+              <span className="flex items-center gap-2">
+                {totalCount ?? (
+                  <RefreshCcw className={cn('h-4 w-4', isFetching ? 'animate-spin' : '')} />
+                )}
+              </span>
+            </h1>
+          )}
         </div>
         <div className="flex items-center space-x-2">
           <Button
@@ -83,10 +125,20 @@ export function NotificationTable({
             <RefreshCcw className={cn('h-4 w-4', isFetching ? 'animate-spin' : '')} />
             {isFetching ? 'Refreshing...' : 'Refresh'}
           </Button>
-          <Button size="sm" onClick={() => setAddModalOpen(true)} className="gap-2">
-            <Plus className="h-4 w-4" />
-            Add Notification
-          </Button>
+          {canWrite && (
+            <>
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <Link href="/notifications/import">
+                  <Upload className="h-4 w-4" />
+                  Import
+                </Link>
+              </Button>
+              <Button size="sm" onClick={() => setAddModalOpen(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Notification
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -94,30 +146,22 @@ export function NotificationTable({
         columns={columns}
         data={data?.data || []}
         loading={isLoading}
-        totalCount={data?.metadata?.totalCount || 0}
+        totalCount={totalCount || 0}
+        cursorPagination={data?.metadata.mode === 'cursor' ? data.metadata : undefined}
         onRefresh={refetch}
         isRefetching={isFetching}
-        filterableColumns={[
-          {
-            id: 'status',
-            title: 'Status',
-            options: [
-              { label: 'Delivered', value: 'Delivered' },
-              { label: 'In Progress', value: 'In Progress' },
-              { label: 'Cancelled', value: 'Cancelled' },
-            ],
-          },
-          {
-            id: 'type',
-            title: 'Type',
-            options: [
-              { label: 'Photo', value: 'Photo' },
-              { label: 'Text', value: 'Text' },
-            ],
-          },
-        ]}
+        filterableColumns={filterableColumns}
+        getRowId={(notification) => notification.id}
+        exportOptions={exportOptions}
+        renderBulkActions={
+          canWrite || canDelete
+            ? (selected, clearSelection) => (
+                <NotificationBulkActions notifications={selected} onDone={clearSelection} />
+              )
+            : undefined
+        }
       />
-      <AddNotificationModal open={addModalOpen} onOpenChange={setAddModalOpen} />
+      {canWrite && <AddNotificationModal open={addModalOpen} onOpenChange={setAddModalOpen} />}
     </div>
   )
 }
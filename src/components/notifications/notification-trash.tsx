@@ -0,0 +1,116 @@
+'use client'
+
+import { NoTeam } from '@/components/teams/no-team'
+import { Button } from '@/components/ui/button'
+import { DataTable } from '@/components/ui/data-table/data-table'
+import { useTrash } from '@/hooks/use-notifications'
+import { cn } from '@/lib/utils'
+import { isApiError } from '@/services/api-error'
+import { ArrowLeft, RefreshCcw } from 'lucide-react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { useMemo } from 'react'
+import { filterableColumns } from './columns'
+import { getTrashColumns } from './trash-columns'
+
+interface NotificationTrashProps {
+  /** Days a notification stays in the Trash before it is permanently deleted */
+  retentionDays: number
+  initialPage?: number
+  initialLimit?: number
+}
+
+/**
+ * NotificationTrash Component
+ *
+ * Lists the deleted notifications, most recently deleted first, with the same search,
+ * filters and pagination as the notifications table. Each one can be restored or
+ * permanently deleted until the retention period purges it.
+ *
+ * @example
+ * ```tsx
+ * <NotificationTrash retentionDays={30} />
+ * ```
+ */
+export function NotificationTrash({
+  retentionDays,
+  initialPage = 1,
+  initialLimit = 10,
+}: NotificationTrashProps) {
+  const searchParams = useSearchParams()
+  const page = Number(searchParams.get('page')) || initialPage
+  const limit = Number(searchParams.get('limit')) || initialLimit
+  const query = searchParams.get('query') ?? undefined
+  const status = searchParams.get('status') ?? undefined
+  const type = searchParams.get('type') ?? undefined
+  const sort = searchParams.get('sort') ?? undefined
+  const order = searchParams.get('order') ?? undefined
+
+  const columns = useMemo(() => getTrashColumns(retentionDays), [retentionDays])
+
+  const { data, isLoading, isError, error, refetch, isFetching } = useTrash({
+    page,
+    limit,
+    query,
+    status,
+    type,
+    sort,
+    order,
+  })
+
+  if (isError) {
+    if (isApiError(error) && error.code === 'no_team') {
+      return <NoTeam />
+    }
+    return (
+      <div className="flex h-[400px] flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Failed to load the Trash</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Try again
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/notifications">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to notifications</span>
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Trash</h1>
+            <p className="text-sm text-muted-foreground">
+              Deleted notifications are permanently deleted after {retentionDays} days.
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="gap-2 min-w-[130px]"
+        >
+          <RefreshCcw className={cn('h-4 w-4', isFetching ? 'animate-spin' : '')} />
+          {isFetching ? 'Refreshing...' : 'Refresh'}
+        </Button>
+      </div>
+
+      <DataTable
+        columns={columns}
+        data={data?.data || []}
+        loading={isLoading}
+        totalCount={data?.metadata?.totalCount || 0}
+        onRefresh={refetch}
+        isRefetching={isFetching}
+        filterableColumns={filterableColumns}
+        getRowId={(notification) => notification.id}
+      />
+    </div>
+  )
+}
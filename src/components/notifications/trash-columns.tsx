@@ -0,0 +1,151 @@
+'use client'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { DateTime } from '@/components/ui/date-time'
+import { usePurgeNotification, useRestoreNotification } from '@/hooks/use-notifications'
+import { type Notification } from '@/types/notifications.types'
+import { ColumnDef, Row } from '@tanstack/react-table'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import ColumnHeaderOptions from '../ui/data-table/ColumnHeaderOptions'
+import { NotificationStatusBadge } from './notification-status-badge'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Columns of the Trash table
+ *
+ * @param retentionDays - Days a notification stays in the Trash, to show when it is purged
+ */
+export const getTrashColumns = (retentionDays: number): ColumnDef<Notification>[] => [
+  {
+    id: 'number',
+    header: '#',
+    size: 50,
+    cell: ({ row }) => {
+      return <div className="text-sm text-muted-foreground">{row.index + 1}</div>
+    },
+  },
+  {
+    accessorKey: 'type',
+    size: 120,
+    header: ({ column }) => <ColumnHeaderOptions column={column} />,
+  },
+  {
+    accessorKey: 'space',
+    size: 150,
+    header: ({ column }) => <ColumnHeaderOptions column={column} />,
+  },
+  {
+    accessorKey: 'country',
+    size: 120,
+    header: ({ column }) => <ColumnHeaderOptions column={column} />,
+  },
+  {
+    accessorKey: 'city',
+    size: 150,
+    header: ({ column }) => <ColumnHeaderOptions column={column} />,
+  },
+  {
+    accessorKey: 'status',
+    size: 120,
+    header: ({ column }) => <ColumnHeaderOptions column={column} />,
+    cell: ({ row }) => <NotificationStatusBadge status={row.getValue('status')} />,
+  },
+  {
+    accessorKey: 'deletedAt',
+    size: 180,
+    header: 'Deleted',
+    enableSorting: false,
+    cell: ({ row }) => <DateTime value={row.getValue('deletedAt')} location={row.original} />,
+  },
+  {
+    id: 'purgedAt',
+    size: 180,
+    header: 'Permanently deleted on',
+    cell: ({ row }) => {
+      const deletedAt = new Date(row.original.deletedAt ?? Date.now()).getTime()
+      return (
+        <DateTime
+          value={new Date(deletedAt + retentionDays * DAY_MS).toISOString()}
+          location={row.original}
+        />
+      )
+    },
+  },
+  {
+    id: 'actions',
+    header: 'Actions',
+    size: 200,
+    cell: TrashActionsCell,
+  },
+]
+
+function TrashActionsCell({ row }: { row: Row<Notification> }) {
+  const [showPurgeDialog, setShowPurgeDialog] = useState(false)
+  const { mutate: restore, isPending: isRestoring } = useRestoreNotification()
+  const { mutate: purge, isPending: isPurging } = usePurgeNotification()
+
+  const handlePurge = () => {
+    purge(row.original.id, {
+      onSuccess: () => setShowPurgeDialog(false),
+    })
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => restore(row.original.id)}
+        disabled={isRestoring || isPurging}
+        className="gap-2"
+      >
+        <RotateCcw className="h-4 w-4" />
+        Restore
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setShowPurgeDialog(true)}
+        disabled={isRestoring || isPurging}
+        className="gap-2 text-destructive hover:text-destructive"
+      >
+        <Trash2 className="h-4 w-4" />
+        Delete forever
+      </Button>
+
+      <AlertDialog open={showPurgeDialog} onOpenChange={setShowPurgeDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete the notification from our
+              servers.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPurging}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              disabled={isPurging}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {isPurging ? 'Deleting...' : 'Delete forever'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { Bell, Home } from 'lucide-react'
+import { Bell, Home, Trash, Webhook } from 'lucide-react'
 import * as React from 'react'
 
 import { Nav, NavItem } from '@/components/sidebar/nav'
@@ -12,6 +12,8 @@ import {
   SidebarHeader,
   SidebarRail,
 } from '@/components/ui/sidebar'
+import { useCurrentUser } from '@/hooks/use-auth'
+import { hasPermission } from '@/schemas/auth.schema'
 import { TeamSwitcher } from './team-switcher'
 
 // This is sample data.
@@ -28,6 +30,18 @@ const navigationItems: NavItem[] = [
     icon: Bell,
     // isActive: false,
   },
+  {
+    title: 'Trash',
+    url: '/notifications/trash',
+    icon: Trash,
+    permission: 'notifications:delete',
+  },
+  {
+    title: 'Webhooks',
+    url: '/webhooks',
+    icon: Webhook,
+    permission: 'webhooks:manage',
+  },
   // {
   //   title: 'Notifications ( SSR )',
   //   url: '/notifications/ssr',
@@ -37,13 +51,18 @@ const navigationItems: NavItem[] = [
 ]
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
+  const user = useCurrentUser()
+  const items = navigationItems.filter(
+    (item) => !item.permission || (user && hasPermission(user.role, item.permission))
+  )
+
   return (
     <Sidebar collapsible="icon" {...props}>
       <SidebarHeader>
         <TeamSwitcher />
       </SidebarHeader>
       <SidebarContent>
-        <Nav items={navigationItems} hideProjectsOnCollapse />
+        <Nav items={items} hideProjectsOnCollapse />
       </SidebarContent>
       <SidebarFooter>
         <NavUser />
@@ -2,7 +2,7 @@
 
 import { BadgeCheck, Bell, ChevronsUpDown, CreditCard, LogOut, Sparkles } from 'lucide-react'
 
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,9 +18,45 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from '@/components/ui/sidebar'
+import { useCurrentUser, useSignOut } from '@/hooks/use-auth'
+import { type SessionUser } from '@/types/auth.types'
 
+/**
+ * Up to two initials of a name, shown as the avatar
+ */
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('')
+
+function UserSummary({ user }: { user: SessionUser }) {
+  return (
+    <>
+      <Avatar className="h-8 w-8 rounded-lg">
+        <AvatarFallback className="rounded-lg">{getInitials(user.name)}</AvatarFallback>
+      </Avatar>
+      <div className="grid flex-1 text-left text-sm leading-tight">
+        <span className="truncate font-semibold">{user.name}</span>
+        <span className="truncate text-xs">{user.email}</span>
+      </div>
+    </>
+  )
+}
+
+/**
+ * NavUser Component
+ *
+ * The signed-in user at the bottom of the sidebar, with a menu to log out
+ */
 export function NavUser() {
   const { isMobile } = useSidebar()
+  const user = useCurrentUser()
+  const { mutate: signOut, isPending: isSigningOut } = useSignOut()
+
+  if (!user) return null
 
   return (
     <SidebarMenu>
@@ -31,17 +67,7 @@ export function NavUser() {
               size="lg"
               className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
             >
-              <Avatar className="h-8 w-8 rounded-lg">
-                <AvatarImage
-                  src="https://avatars.githubusercontent.com/u/10353856?v=4"
-                  alt="Ibrahim Omar"
-                />
-                <AvatarFallback className="rounded-lg">IO</AvatarFallback>
-              </Avatar>
-              <div className="grid flex-1 text-left text-sm leading-tight">
-                <span className="truncate font-semibold">Ibrahim Omar</span>
-                <span className="truncate text-xs">ebrahimamra69@gmail.com</span>
-              </div>
+              <UserSummary user={user} />
               <ChevronsUpDown className="ml-auto size-4" />
             </SidebarMenuButton>
           </DropdownMenuTrigger>
@@ -53,17 +79,7 @@ export function NavUser() {
           >
             <DropdownMenuLabel className="p-0 font-normal">
               <div className="flex items-center gap-2 px-1 py-1.5 text-left text-sm">
-                <Avatar className="h-8 w-8 rounded-lg">
-                  <AvatarImage
-                    src="https://avatars.githubusercontent.com/u/10353856?v=4"
-                    alt="Ibrahim Omar"
-                  />
-                  <AvatarFallback className="rounded-lg">IO</AvatarFallback>
-                </Avatar>
-                <div className="grid flex-1 text-left text-sm leading-tight">
-                  <span className="truncate font-semibold">Ibrahim Omar</span>
-                  <span className="truncate text-xs">ebrahimamra69@gmail.com</span>
-                </div>
+                <UserSummary user={user} />
               </div>
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
@@ -89,9 +105,9 @@ export function NavUser() {
               </DropdownMenuItem>
             </DropdownMenuGroup>
             <DropdownMenuSeparator />
-            <DropdownMenuItem>
+            <DropdownMenuItem onClick={() => signOut()} disabled={isSigningOut}>
               <LogOut />
-              Log out
+              {isSigningOut ? 'Logging out...' : 'Log out'}
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
@@ -12,6 +12,7 @@ import {
   SidebarMenuSubButton,
   SidebarMenuSubItem,
 } from '@/components/ui/sidebar'
+import { type Permission } from '@/schemas/auth.schema'
 import Link from 'next/link'
 
 export interface NavItem {
@@ -20,6 +21,8 @@ export interface NavItem {
   url: string
   icon?: LucideIcon
   isActive?: boolean
+  /** Only shown when the current user's role has it */
+  permission?: Permission
   items?: {
     title: string
     url: string
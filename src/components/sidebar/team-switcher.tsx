@@ -1,29 +1,100 @@
-import { SidebarMenu, SidebarMenuButton, SidebarMenuItem } from '@/components/ui/sidebar'
-import Image from 'next/image'
+'use client'
 
+import { Check, ChevronsUpDown } from 'lucide-react'
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCurrentUser } from '@/hooks/use-auth'
+import { useSwitchTeam, useTeams } from '@/hooks/use-teams'
+import { type Team } from '@/types/teams.types'
+
+function TeamSummary({ team }: { team: Team | undefined }) {
+  return (
+    <>
+      <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-primary-green text-sm font-bold uppercase text-white">
+        {team?.name[0] ?? '?'}
+      </div>
+      <div className="grid flex-1 text-left text-sm leading-tight">
+        <span className="truncate font-semibold">{team?.name ?? 'No team'}</span>
+        <span className="truncate text-xs">Team</span>
+      </div>
+    </>
+  )
+}
+
+/**
+ * TeamSwitcher Component
+ *
+ * The active team at the top of the sidebar, with a menu to switch to another team the
+ * user is a member of. Everything shown, from the notifications to the webhooks, belongs
+ * to the active team.
+ */
 export function TeamSwitcher() {
+  const { isMobile } = useSidebar()
+  const user = useCurrentUser()
+  const { data: teams, isLoading } = useTeams()
+  const { mutate: switchTeam, isPending } = useSwitchTeam()
+
+  if (isLoading) {
+    return (
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </SidebarMenuItem>
+      </SidebarMenu>
+    )
+  }
+
+  const activeTeam = teams?.find((team) => team.id === user?.teamId)
+
   return (
     <SidebarMenu>
       <SidebarMenuItem>
-        <SidebarMenuButton
-          size="lg"
-          className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
-        >
-          <div className="mx-auto">
-            <Image
-              src="https://dnndon.net/assets/images/dnndon_logo.svg"
-              alt="dnndon logo"
-              width={150}
-              height={0}
-              className="h-[30px] w-auto group-data-[collapsible=icon]:hidden"
-              priority
-            />
-            <p className="font-bold text-3xl text-primary-green uppercase group-data-[collapsible=icon]:block hidden">
-              D
-            </p>
-          </div>
-          {/* <ChevronsUpDown className="ml-auto" /> */}
-        </SidebarMenuButton>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild disabled={!teams?.length}>
+            <SidebarMenuButton
+              size="lg"
+              className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
+            >
+              <TeamSummary team={activeTeam} />
+              <ChevronsUpDown className="ml-auto size-4" />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            className="w-[--radix-dropdown-menu-trigger-width] min-w-56 rounded-lg"
+            side={isMobile ? 'bottom' : 'right'}
+            align="start"
+            sideOffset={4}
+          >
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Teams</DropdownMenuLabel>
+            {teams?.map((team) => (
+              <DropdownMenuItem
+                key={team.id}
+                onClick={() => team.id !== activeTeam?.id && switchTeam({ teamId: team.id })}
+                disabled={isPending}
+                className="gap-2 p-2"
+              >
+                <div className="flex size-6 items-center justify-center rounded-sm border text-xs font-semibold uppercase">
+                  {team.name[0]}
+                </div>
+                <span className="truncate">{team.name}</span>
+                {team.id === activeTeam?.id && <Check className="ml-auto size-4" />}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </SidebarMenuItem>
     </SidebarMenu>
   )
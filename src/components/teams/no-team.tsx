@@ -0,0 +1,19 @@
+import { Users } from 'lucide-react'
+
+/**
+ * NoTeam Component
+ *
+ * Shown in place of a page when the signed-in user is not a member of any team. Everything
+ * belongs to a team, so there is nothing to show until an admin adds them to one.
+ */
+export function NoTeam() {
+  return (
+    <div className="flex h-[400px] flex-col items-center justify-center gap-2 text-center">
+      <Users className="h-8 w-8 text-muted-foreground" />
+      <p className="font-medium">You are not a member of any team yet</p>
+      <p className="text-sm text-muted-foreground">
+        Ask an admin to add you to a team, then reload this page.
+      </p>
+    </div>
+  )
+}
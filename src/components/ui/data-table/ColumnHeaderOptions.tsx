@@ -9,12 +9,23 @@ import { type Notification } from '@/types/notifications.types'
 import { Column } from '@tanstack/react-table'
 import { ArrowUpDown, ChevronDown, ChevronUp } from 'lucide-react'
 
-const ColumnHeaderOptions = ({ column }: { column: Column<Notification> }) => {
+const ColumnHeaderOptions = ({
+  column,
+  title = column.id,
+}: {
+  column: Column<Notification>
+  /** Header label, the column id by default */
+  title?: string
+}) => {
+  if (!column.getCanSort()) {
+    return <span className="capitalize">{title}</span>
+  }
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button variant="ghost" className="flex items-center gap-1 p-0">
-          <span className="capitalize"> {column.id}</span>
+          <span className="capitalize"> {title}</span>
           {column.getIsSorted() === 'asc' ? (
             <ChevronUp className="h-4 w-4" />
           ) : column.getIsSorted() === 'desc' ? (
@@ -25,8 +36,13 @@ const ColumnHeaderOptions = ({ column }: { column: Column<Notification> }) => {
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="start">
-        <DropdownMenuItem onClick={() => column.toggleSorting(true)}>Ascending</DropdownMenuItem>
-        <DropdownMenuItem onClick={() => column.toggleSorting(false)}>Descending</DropdownMenuItem>
+        {/* Hold shift to add the column to the current sort instead of replacing it */}
+        <DropdownMenuItem onClick={(event) => column.toggleSorting(false, event.shiftKey)}>
+          Ascending
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={(event) => column.toggleSorting(true, event.shiftKey)}>
+          Descending
+        </DropdownMenuItem>
         <DropdownMenuItem onClick={() => column.clearSorting()}>None</DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
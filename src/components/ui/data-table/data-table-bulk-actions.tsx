@@ -0,0 +1,39 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { X } from 'lucide-react'
+
+interface DataTableBulkActionsProps {
+  selectedCount: number
+  onClearSelection: () => void
+  /** Actions applying to the selected rows */
+  children: React.ReactNode
+}
+
+/**
+ * Bar shown above the table while rows are selected, with the selection count,
+ * the bulk actions and a button to clear the selection
+ */
+export function DataTableBulkActions({
+  selectedCount,
+  onClearSelection,
+  children,
+}: DataTableBulkActionsProps) {
+  return (
+    <div className="flex items-center justify-between rounded-md border bg-muted/50 px-4 py-2">
+      <div className="flex items-center gap-2 text-sm">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onClearSelection}
+          aria-label="Clear selection"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+        <span className="font-medium">{selectedCount} selected</span>
+      </div>
+      <div className="flex items-center space-x-2">{children}</div>
+    </div>
+  )
+}
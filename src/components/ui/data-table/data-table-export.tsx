@@ -0,0 +1,46 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Download } from 'lucide-react'
+
+export interface ExportOption {
+  label: string
+  /** Download URL of the export, reflecting the current filters and sort */
+  href: string
+}
+
+interface DataTableExportProps {
+  options: ExportOption[]
+}
+
+/**
+ * Export dropdown of the table toolbar, each option downloads the rows the user is
+ * currently looking at in one format
+ */
+export function DataTableExport({ options }: DataTableExportProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option) => (
+          <DropdownMenuItem key={option.href} asChild>
+            <a href={option.href} download>
+              {option.label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
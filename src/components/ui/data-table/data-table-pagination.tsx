@@ -13,12 +13,28 @@ import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-r
 import Link from 'next/link'
 import { usePathname, useSearchParams } from 'next/navigation'
 
+/**
+ * Cursors of the current page, `null` when there is no page in that direction
+ */
+export interface CursorPagination {
+  nextCursor: string | null
+  prevCursor: string | null
+}
+
 interface DataTablePaginationProps<TData> {
   table: Table<TData>
   totalRows?: number
+  /** Switches the controls to cursor mode, paging with `after`/`before` URL params */
+  cursor?: CursorPagination
 }
 
-export function DataTablePagination<TData>({ table, totalRows }: DataTablePaginationProps<TData>) {
+const linkClassName = 'h-8 w-8 p-0 aria-disabled:opacity-50 aria-disabled:cursor-not-allowed'
+
+export function DataTablePagination<TData>({
+  table,
+  totalRows,
+  cursor,
+}: DataTablePaginationProps<TData>) {
   const pageSizeOptions = [10, 20, 30, 40, 50]
   const { pageIndex, pageSize } = table.getState().pagination
   const total = totalRows ?? table.getFilteredRowModel().rows.length
@@ -37,14 +53,85 @@ export function DataTablePagination<TData>({ table, totalRows }: DataTablePagina
   const startRow = Math.min(pageIndex * pageSize + 1, total)
   const endRow = Math.min((pageIndex + 1) * pageSize, total)
 
-  const createQueryString = (params: Record<string, string | number>) => {
+  const createQueryString = (params: Record<string, string | number | null>) => {
     const newSearchParams = new URLSearchParams(searchParams.toString())
     Object.entries(params).forEach(([key, value]) => {
-      newSearchParams.set(key, String(value))
+      if (value === null) {
+        newSearchParams.delete(key)
+      } else {
+        newSearchParams.set(key, String(value))
+      }
     })
     return newSearchParams.toString()
   }
 
+  if (cursor) {
+    const pageRows = table.getRowModel().rows.length
+
+    return (
+      <div className="flex items-center justify-between px-2">
+        <div className="flex-1 text-sm text-muted-foreground">
+          {pageRows > 0 ? `Showing ${pageRows} results` : 'No results.'}
+        </div>
+        <div className="flex items-center space-x-6 lg:space-x-8">
+          <div className="flex items-center space-x-2">
+            <p className="text-sm font-medium">Rows per page</p>
+            <Select
+              value={`${pageSize}`}
+              onValueChange={(value) => table.setPageSize(Number(value))}
+            >
+              <SelectTrigger className="h-8 w-[70px]">
+                <SelectValue placeholder={pageSize} />
+              </SelectTrigger>
+              <SelectContent side="top">
+                {pageSizeOptions.map((size) => (
+                  <SelectItem key={size} value={`${size}`}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Link
+              href={`${pathname}?${createQueryString({ after: null, before: null })}`}
+              onClick={(e) => {
+                if (!cursor.prevCursor) e.preventDefault()
+              }}
+              className={buttonVariants({ variant: 'outline', className: linkClassName })}
+              aria-disabled={!cursor.prevCursor}
+            >
+              <span className="sr-only">Go to first page</span>
+              <ChevronsLeft className="h-4 w-4" />
+            </Link>
+            <Link
+              href={`${pathname}?${createQueryString({ after: null, before: cursor.prevCursor })}`}
+              onClick={(e) => {
+                if (!cursor.prevCursor) e.preventDefault()
+              }}
+              className={buttonVariants({ variant: 'outline', className: linkClassName })}
+              aria-disabled={!cursor.prevCursor}
+            >
+              <span className="sr-only">Go to previous page</span>
+              <ChevronLeft className="h-4 w-4" />
+            </Link>
+            <Link
+              href={`${pathname}?${createQueryString({ after: cursor.nextCursor, before: null })}`}
+              onClick={(e) => {
+                if (!cursor.nextCursor) e.preventDefault()
+              }}
+              className={buttonVariants({ variant: 'outline', className: linkClassName })}
+              aria-disabled={!cursor.nextCursor}
+            >
+              <span className="sr-only">Go to next page</span>
+              <ChevronRight className="h-4 w-4" />
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="flex items-center justify-between px-2">
       <div className="flex-1 text-sm text-muted-foreground">
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Table } from '@tanstack/react-table'
 import { Search, X } from 'lucide-react'
+import { DataTableExport, type ExportOption } from './data-table-export'
 import { DataTableFacetedFilter } from './data-table-faceted-filter'
 import { DataTableViewOptions } from './data-table-view-options'
 
@@ -28,6 +29,7 @@ interface DataTableToolbarProps<TData> {
   isRefetching?: boolean
   globalFilter?: string
   onGlobalFilterChange?: (value: string) => void
+  exportOptions?: ExportOption[]
 }
 
 export function DataTableToolbar<TData>({
@@ -35,6 +37,7 @@ export function DataTableToolbar<TData>({
   filterableColumns = [],
   globalFilter = '',
   onGlobalFilterChange,
+  exportOptions,
 }: DataTableToolbarProps<TData>) {
   const isFiltered = table.getState().columnFilters.length > 0
 
@@ -82,7 +85,10 @@ export function DataTableToolbar<TData>({
             </Button>
           )}
         </div>
-        <DataTableViewOptions table={table} />
+        <div className="flex items-center space-x-2">
+          {exportOptions?.length ? <DataTableExport options={exportOptions} /> : null}
+          <DataTableViewOptions table={table} />
+        </div>
       </div>
     </div>
   )
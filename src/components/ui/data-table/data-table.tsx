@@ -13,13 +13,15 @@ import {
   ColumnFiltersState,
   flexRender,
   getCoreRowModel,
-  getFilteredRowModel,
-  getSortedRowModel,
+  RowSelectionState,
+  SortingState,
   useReactTable,
 } from '@tanstack/react-table'
 import { usePathname, useRouter, useSearchParams } from 'next/navigation'
-import { useCallback, useEffect, useState } from 'react'
-import { DataTablePagination } from './data-table-pagination'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { DataTableBulkActions } from './data-table-bulk-actions'
+import { type ExportOption } from './data-table-export'
+import { CursorPagination, DataTablePagination } from './data-table-pagination'
 import { DataTableToolbar } from './data-table-toolbar'
 
 interface ColumnConfig {
@@ -40,15 +42,28 @@ interface DataTableProps<TData, TValue> {
   searchableColumns?: ColumnConfig[]
   filterableColumns?: FilterableColumn[]
   loading?: boolean
+  /** Number of rows over all pages, unused with `cursorPagination` */
   totalCount: number
+  /** Cursors of the current page when the data is fetched with cursor pagination */
+  cursorPagination?: CursorPagination
   onRefresh?: () => void
   isRefetching?: boolean
+  /** Identifies rows, so the selection is kept by id rather than by index */
+  getRowId?: (row: TData) => string
+  /** Actions shown in a bar above the table while rows are selected */
+  renderBulkActions?: (selectedRows: TData[], clearSelection: () => void) => React.ReactNode
+  /** Download links offered by the toolbar's export button */
+  exportOptions?: ExportOption[]
 }
 
 // Add this constant at the top of the file
 const DEFAULT_ROW_HEIGHT = 53 // Height of a single row in pixels
 const HEADER_HEIGHT = 45 // Height of the header row
 const MIN_ROWS_SHOWN = 5 // Minimum number of rows to show
+const SEARCH_DEBOUNCE_MS = 300 // Delay before the search input updates the URL
+const FIRST_PAGE = { page: 1, after: null, before: null } // URL params that reset pagination
+
+const EMPTY_FILTERABLE_COLUMNS: FilterableColumn[] = []
 
 function getColumnWidth(column: ColumnDef<any, any>) {
   if (column.size) return column.size
@@ -75,6 +90,14 @@ function SkeletonCell({ column }: { column: ColumnDef<any, any> }) {
 /**
  * A flexible and feature-rich data table component
  *
+ * Pagination, filtering and sorting are server-side: the current page, the search input
+ * (`query`), each filterable column (one comma separated param per column id) and the
+ * sort state (`sort`/`order`) live in the URL, so the page reading the URL can pass them
+ * on to the API.
+ *
+ * Rows can be selected with a selection column, `renderBulkActions` then renders the
+ * actions applying to the selected rows. The selection is cleared when the URL changes.
+ *
  * @template TData - Type of the data array
  * @template TValue - Type of the cell values
  *
@@ -102,15 +125,17 @@ function SkeletonCell({ column }: { column: ColumnDef<any, any> }) {
 export function DataTable<TData, TValue>({
   columns,
   data,
-  filterableColumns,
+  filterableColumns = EMPTY_FILTERABLE_COLUMNS,
   loading = false,
   totalCount,
+  cursorPagination,
   onRefresh,
   isRefetching,
+  getRowId,
+  renderBulkActions,
+  exportOptions,
 }: DataTableProps<TData, TValue>) {
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
-  const [globalFilter, setGlobalFilter] = useState('')
-  const [rowSelection, setRowSelection] = useState({})
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
 
   const router = useRouter()
   const pathname = usePathname()
@@ -120,9 +145,30 @@ export function DataTable<TData, TValue>({
   const page = Number(searchParams.get('page')) || 1
   const pageSize = Number(searchParams.get('limit')) || 10
 
+  // Get filter values from URL, one comma separated param per filterable column
+  const query = searchParams.get('query') ?? ''
+  const [globalFilter, setGlobalFilter] = useState(query)
+  const columnFilters = useMemo<ColumnFiltersState>(
+    () =>
+      filterableColumns.flatMap(({ id }) => {
+        const value = searchParams.get(id)
+        return value ? [{ id, value: value.split(',') }] : []
+      }),
+    [filterableColumns, searchParams]
+  )
+
+  // Get sorting from URL, `sort` and `order` are matching comma separated lists
+  const sortParam = searchParams.get('sort')
+  const orderParam = searchParams.get('order')
+  const sorting = useMemo<SortingState>(() => {
+    if (!sortParam) return []
+    const orders = orderParam?.split(',') ?? []
+    return sortParam.split(',').map((id, index) => ({ id, desc: orders[index] === 'desc' }))
+  }, [sortParam, orderParam])
+
   // Create URL updater function
   const createQueryString = useCallback(
-    (params: Record<string, string | number>) => {
+    (params: Record<string, string | number | null>) => {
       const newSearchParams = new URLSearchParams(searchParams.toString())
 
       Object.entries(params).forEach(([key, value]) => {
@@ -150,20 +196,75 @@ export function DataTable<TData, TValue>({
 
   const handlePageSizeChange = useCallback(
     (newPageSize: number) => {
-      router.push(`${pathname}?${createQueryString({ page: 1, limit: newPageSize })}`, {
+      router.push(`${pathname}?${createQueryString({ ...FIRST_PAGE, limit: newPageSize })}`, {
         scroll: false,
       })
     },
     [router, pathname, createQueryString]
   )
 
+  const handleColumnFiltersChange = useCallback(
+    (filters: ColumnFiltersState) => {
+      const params = Object.fromEntries(
+        filterableColumns.map(({ id }) => {
+          const values = filters.find((filter) => filter.id === id)?.value as string[] | undefined
+          return [id, values?.length ? values.join(',') : null]
+        })
+      )
+      // Filtering changes the result set, so go back to the first page
+      router.push(`${pathname}?${createQueryString({ ...params, ...FIRST_PAGE })}`, {
+        scroll: false,
+      })
+    },
+    [router, pathname, filterableColumns, createQueryString]
+  )
+
+  const handleSortingChange = useCallback(
+    (newSorting: SortingState) => {
+      const sort = newSorting.map(({ id }) => id).join(',')
+      const order = newSorting.map(({ desc }) => (desc ? 'desc' : 'asc')).join(',')
+      router.push(
+        `${pathname}?${createQueryString({ sort: sort || null, order: order || null, ...FIRST_PAGE })}`,
+        { scroll: false }
+      )
+    },
+    [router, pathname, createQueryString]
+  )
+
+  // Keep the search input in sync when the URL changes (e.g. back navigation)
+  useEffect(() => {
+    setGlobalFilter(query)
+  }, [query])
+
+  // Debounce the search input before pushing it to the URL
+  useEffect(() => {
+    if (globalFilter === query) return
+    const timeout = setTimeout(() => {
+      router.replace(
+        `${pathname}?${createQueryString({ query: globalFilter || null, ...FIRST_PAGE })}`,
+        {
+          scroll: false,
+        }
+      )
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [globalFilter, query, router, pathname, createQueryString])
+
+  // Selected rows are only shown on the current page, start over when it changes
+  useEffect(() => {
+    setRowSelection({})
+  }, [searchParams])
+
   const table = useReactTable({
     data,
     columns,
+    getRowId,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
     manualPagination: true,
+    manualFiltering: true,
+    manualSorting: true,
+    // Cursor pages always follow the default order
+    enableSorting: !cursorPagination,
     pageCount: Math.ceil(totalCount / pageSize),
     state: {
       pagination: {
@@ -172,17 +273,17 @@ export function DataTable<TData, TValue>({
       },
       columnFilters,
       globalFilter,
+      sorting,
       rowSelection,
     },
-    onColumnFiltersChange: setColumnFilters,
+    onSortingChange: (updater) => {
+      handleSortingChange(typeof updater === 'function' ? updater(sorting) : updater)
+    },
+    onColumnFiltersChange: (updater) => {
+      handleColumnFiltersChange(typeof updater === 'function' ? updater(columnFilters) : updater)
+    },
     onGlobalFilterChange: setGlobalFilter,
     onRowSelectionChange: setRowSelection,
-    globalFilterFn: (row, columnId, filterValue) => {
-      const value = row.getValue(columnId)
-      return value != null
-        ? String(value).toLowerCase().includes(String(filterValue).toLowerCase())
-        : false
-    },
     onPaginationChange: (updater) => {
       const state = typeof updater === 'function' ? updater(table.getState().pagination) : updater
       handlePageChange(state.pageIndex + 1)
@@ -205,6 +306,8 @@ export function DataTable<TData, TValue>({
   // Calculate minimum table height
   const minTableHeight = HEADER_HEIGHT + DEFAULT_ROW_HEIGHT * MIN_ROWS_SHOWN
 
+  const selectedRows = table.getSelectedRowModel().rows.map((row) => row.original)
+
   return (
     <div className="space-y-4">
       <DataTableToolbar
@@ -215,7 +318,16 @@ export function DataTable<TData, TValue>({
         isRefetching={isRefetching}
         globalFilter={globalFilter}
         onGlobalFilterChange={setGlobalFilter}
+        exportOptions={exportOptions}
       />
+      {renderBulkActions && selectedRows.length > 0 && (
+        <DataTableBulkActions
+          selectedCount={selectedRows.length}
+          onClearSelection={() => table.resetRowSelection()}
+        >
+          {renderBulkActions(selectedRows, () => table.resetRowSelection())}
+        </DataTableBulkActions>
+      )}
       <div className="rounded-md border">
         <div style={{ minHeight: `${minTableHeight}px` }}>
           <Table>
@@ -271,7 +383,7 @@ export function DataTable<TData, TValue>({
           </Table>
         </div>
       </div>
-      <DataTablePagination table={table} totalRows={totalCount} />
+      <DataTablePagination table={table} totalRows={totalCount} cursor={cursorPagination} />
     </div>
   )
 }
@@ -0,0 +1,53 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { useTimeZone } from '@/hooks/use-time-zone'
+import {
+  fromDateTimeLocalValue,
+  getTimeZoneName,
+  toDateTimeLocalValue,
+  type NotificationLocation,
+} from '@/lib/datetime'
+import { cn } from '@/lib/utils'
+
+interface DateTimeInputProps {
+  id?: string
+  /** ISO-8601 timestamp */
+  value?: string
+  /** Called with the ISO-8601 timestamp, or `undefined` when cleared */
+  onChange: (value: string | undefined) => void
+  /** Country and city of the notification, used when entering location time */
+  location?: NotificationLocation
+  className?: string
+}
+
+/**
+ * Date and time input that reads and writes wall clock time in the time zone picked
+ * with the time zone selector, while the value stays an ISO-8601 UTC timestamp.
+ *
+ * @example
+ * ```tsx
+ * <DateTimeInput
+ *   value={form.watch('dateTime')}
+ *   onChange={(value) => form.setValue('dateTime', value, { shouldValidate: true })}
+ *   location={{ country: form.watch('country'), city: form.watch('city') }}
+ * />
+ * ```
+ */
+export function DateTimeInput({ id, value, onChange, location, className }: DateTimeInputProps) {
+  const timeZone = useTimeZone(location)
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <Input
+        id={id}
+        type="datetime-local"
+        value={value ? toDateTimeLocalValue(value, timeZone) : ''}
+        onChange={(event) => onChange(fromDateTimeLocalValue(event.target.value, timeZone))}
+      />
+      <span className="shrink-0 text-xs text-muted-foreground" title={timeZone}>
+        {getTimeZoneName(timeZone, value)}
+      </span>
+    </div>
+  )
+}
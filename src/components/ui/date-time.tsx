@@ -0,0 +1,38 @@
+'use client'
+
+import { useTimeZone, useTimeZoneMode } from '@/hooks/use-time-zone'
+import { formatDateTime, getTimeZoneName, type NotificationLocation } from '@/lib/datetime'
+
+interface DateTimeProps {
+  /** ISO-8601 timestamp */
+  value?: string
+  /** Country and city of the notification, used when showing location time */
+  location?: NotificationLocation
+  className?: string
+}
+
+/**
+ * Renders an ISO-8601 timestamp inside a `<time>` element, in the time zone picked
+ * with the time zone selector. Shows the zone name unless it's the viewer's own.
+ *
+ * @example
+ * ```tsx
+ * <DateTime value={notification.dateTime} location={notification} />
+ * ```
+ */
+export function DateTime({ value, location, className }: DateTimeProps) {
+  const { mode } = useTimeZoneMode()
+  const timeZone = useTimeZone(location)
+
+  if (!value) return <span className="text-muted-foreground">—</span>
+
+  const zoneName = getTimeZoneName(timeZone, value)
+
+  return (
+    // The server and the browser may format differently, the browser wins
+    <time dateTime={value} className={className} title={timeZone} suppressHydrationWarning>
+      {formatDateTime(value, timeZone)}
+      {mode !== 'viewer' && <span className="ml-1 text-muted-foreground">{zoneName}</span>}
+    </time>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { FieldError, setServerErrors } from '@/components/notifications/field-error'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { useAddWebhook } from '@/hooks/use-webhooks'
+import {
+  type CreateWebhookInput,
+  createWebhookSchema,
+  WEBHOOK_EVENTS,
+} from '@/schemas/webhook.schema'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Copy } from 'lucide-react'
+import { useState } from 'react'
+import { type FieldError as FormFieldError, useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+
+interface AddWebhookModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * AddWebhookModal Component
+ *
+ * Registers a webhook, then shows the secret it signs its deliveries with. The secret
+ * can't be shown again once the dialog is closed.
+ *
+ * @example
+ * ```tsx
+ * <AddWebhookModal open={open} onOpenChange={setOpen} />
+ * ```
+ */
+export function AddWebhookModal({ open, onOpenChange }: AddWebhookModalProps) {
+  const { mutate: addWebhook, isPending } = useAddWebhook()
+  const [secret, setSecret] = useState<string | null>(null)
+
+  const form = useForm<CreateWebhookInput>({
+    resolver: zodResolver(createWebhookSchema),
+    defaultValues: {
+      url: '',
+      description: '',
+      events: ['notification.delivered', 'notification.cancelled'],
+      secret: undefined,
+    },
+  })
+  const events = form.watch('events')
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      form.reset()
+      setSecret(null)
+    }
+    onOpenChange(next)
+  }
+
+  const onSubmit = (data: CreateWebhookInput) => {
+    addWebhook(data, {
+      onSuccess: (webhook) => {
+        toast.success('Webhook added successfully')
+        setSecret(webhook.secret)
+      },
+      onError: (error) => {
+        if (!setServerErrors(form, error)) toast.error('Failed to add webhook')
+      },
+    })
+  }
+
+  const copySecret = async () => {
+    if (!secret) return
+    await navigator.clipboard.writeText(secret)
+    toast.success('Secret copied')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        {secret ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Webhook added</DialogTitle>
+              <DialogDescription>
+                Deliveries are signed with this secret, verify the X-Webhook-Signature header with
+                it. Copy it now, it won&apos;t be shown again.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex items-center gap-2 py-4">
+              <Input readOnly value={secret} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={copySecret}>
+                <Copy className="h-4 w-4" />
+                <span className="sr-only">Copy secret</span>
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <DialogHeader>
+              <DialogTitle>Add Webhook</DialogTitle>
+              <DialogDescription>
+                Changes to the notifications are POSTed to the URL as they happen. Leave Secret
+                empty to generate one.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="url">URL</label>
+                <Input
+                  id="url"
+                  className="col-span-3"
+                  placeholder="https://partner.example.com/hooks"
+                  {...form.register('url')}
+                />
+                <FieldError error={form.formState.errors.url} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="description">Description</label>
+                <Input id="description" className="col-span-3" {...form.register('description')} />
+                <FieldError error={form.formState.errors.description} />
+              </div>
+              <div className="grid grid-cols-4 items-start gap-4">
+                <span>Events</span>
+                <div className="col-span-3 space-y-2">
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <label key={event} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={events.includes(event)}
+                        onCheckedChange={(checked) =>
+                          form.setValue(
+                            'events',
+                            checked ? [...events, event] : events.filter((item) => item !== event),
+                            { shouldValidate: true }
+                          )
+                        }
+                      />
+                      <span className="font-mono text-xs">{event}</span>
+                    </label>
+                  ))}
+                </div>
+                {/* The message of the whole list is on the list itself */}
+                <FieldError error={form.formState.errors.events as FormFieldError | undefined} />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <label htmlFor="secret">Secret</label>
+                <Input
+                  id="secret"
+                  className="col-span-3"
+                  autoComplete="off"
+                  // Empty means generate one
+                  {...form.register('secret', { setValueAs: (value) => value || undefined })}
+                />
+                <FieldError error={form.formState.errors.secret} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Adding...' : 'Add Webhook'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
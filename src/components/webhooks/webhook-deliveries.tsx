@@ -0,0 +1,266 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { DateTime } from '@/components/ui/date-time'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useReplayWebhookDelivery, useWebhookDeliveries } from '@/hooks/use-webhooks'
+import { cn } from '@/lib/utils'
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_MAX_ATTEMPTS,
+  type WebhookDeliveryStatus,
+} from '@/schemas/webhook.schema'
+import { type Webhook, type WebhookDelivery } from '@/types/webhooks.types'
+import { RotateCcw, X } from 'lucide-react'
+import { useState } from 'react'
+
+const PAGE_SIZE = 20
+
+const ALL_STATUSES = 'all'
+
+const STATUS_CLASS_NAMES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-50 text-yellow-600',
+  succeeded: 'bg-green-50 text-green-600',
+  failed: 'bg-red-50 text-red-500',
+}
+
+function LastAttempt({ delivery }: { delivery: WebhookDelivery }) {
+  const attempt = delivery.attempts.at(-1)
+  if (!attempt) return <span className="text-muted-foreground">—</span>
+
+  return (
+    <div className="space-y-0.5">
+      <div className={cn(attempt.error && 'text-destructive')}>
+        {attempt.error ?? `Responded with ${attempt.statusCode}`}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        <DateTime value={attempt.attemptedAt} /> · {attempt.durationMs} ms
+      </div>
+    </div>
+  )
+}
+
+function ReplayButton({ delivery }: { delivery: WebhookDelivery }) {
+  const { mutate: replay, isPending } = useReplayWebhookDelivery()
+
+  // Pending deliveries are still being retried
+  if (delivery.status === 'pending') return null
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => replay(delivery.id)}
+      disabled={isPending}
+      className="gap-2"
+    >
+      <RotateCcw className={cn('h-4 w-4', isPending && 'animate-spin')} />
+      Replay
+    </Button>
+  )
+}
+
+interface WebhookDeliveriesProps {
+  webhooks: Webhook[]
+  /** Only show the deliveries of this webhook */
+  webhookId?: string
+  onClearWebhook: () => void
+}
+
+/**
+ * WebhookDeliveries Component
+ *
+ * Log of the deliveries, newest first, with the outcome of the last attempt and when
+ * the next retry is due. Finished deliveries can be replayed. Refreshes itself while
+ * retries run in the background.
+ *
+ * @example
+ * ```tsx
+ * <WebhookDeliveries webhooks={webhooks} webhookId={webhookId} onClearWebhook={clear} />
+ * ```
+ */
+export function WebhookDeliveries({ webhooks, webhookId, onClearWebhook }: WebhookDeliveriesProps) {
+  const [status, setStatus] = useState<WebhookDeliveryStatus | typeof ALL_STATUSES>(ALL_STATUSES)
+  const [page, setPage] = useState(1)
+
+  const { data, isLoading, isError, refetch } = useWebhookDeliveries({
+    page,
+    limit: PAGE_SIZE,
+    webhookId,
+    status: status === ALL_STATUSES ? undefined : status,
+  })
+  const urls = new Map(webhooks.map((webhook) => [webhook.id, webhook.url]))
+  const totalPages = data?.metadata.totalPages ?? 1
+
+  const selectedUrl = webhookId && urls.get(webhookId)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Deliveries</h2>
+          <p className="text-sm text-muted-foreground">
+            Failed attempts are retried with exponential backoff, up to {WEBHOOK_MAX_ATTEMPTS}{' '}
+            attempts.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {selectedUrl && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="gap-2"
+              onClick={() => {
+                setPage(1)
+                onClearWebhook()
+              }}
+            >
+              <span className="max-w-[240px] truncate">{selectedUrl}</span>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Show every webhook</span>
+            </Button>
+          )}
+          <Select
+            value={status}
+            onValueChange={(value: WebhookDeliveryStatus | typeof ALL_STATUSES) => {
+              setStatus(value)
+              setPage(1)
+            }}
+          >
+            <SelectTrigger className="h-8 w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+              {WEBHOOK_DELIVERY_STATUSES.map((option) => (
+                <SelectItem key={option} value={option} className="capitalize">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Created</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Webhook</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Last attempt</TableHead>
+              <TableHead>Next retry</TableHead>
+              <TableHead className="w-[100px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isError ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  <span className="text-muted-foreground">Failed to load the deliveries</span>{' '}
+                  <Button variant="link" onClick={() => refetch()}>
+                    Try again
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ) : isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : data?.data.length ? (
+              data.data.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>
+                    <DateTime value={delivery.createdAt} />
+                    {delivery.replayOf && (
+                      <div className="text-xs text-muted-foreground">Replay</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                  <TableCell className="max-w-[200px] truncate">
+                    {urls.get(delivery.webhookId) ?? delivery.webhookId}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={cn(
+                        'inline-flex rounded-full px-3 py-1 text-xs font-medium capitalize',
+                        STATUS_CLASS_NAMES[delivery.status]
+                      )}
+                    >
+                      {delivery.status}
+                    </span>
+                  </TableCell>
+                  <TableCell className="tabular-nums">{delivery.attempts.length}</TableCell>
+                  <TableCell>
+                    <LastAttempt delivery={delivery} />
+                  </TableCell>
+                  <TableCell>
+                    <DateTime
+                      value={
+                        delivery.status === 'pending'
+                          ? (delivery.nextAttemptAt ?? undefined)
+                          : undefined
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <ReplayButton delivery={delivery} />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                  No deliveries yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
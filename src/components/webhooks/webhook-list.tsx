@@ -0,0 +1,188 @@
+'use client'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useDeleteWebhook, useTestWebhook, useUpdateWebhook } from '@/hooks/use-webhooks'
+import { cn } from '@/lib/utils'
+import { type Webhook } from '@/types/webhooks.types'
+import { List, MoreHorizontal, Pause, Play, Send, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+
+interface WebhookActionsProps {
+  webhook: Webhook
+  onShowDeliveries: () => void
+}
+
+function WebhookActions({ webhook, onShowDeliveries }: WebhookActionsProps) {
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const { mutate: testWebhook, isPending: isTesting } = useTestWebhook()
+  const { mutate: updateWebhook, isPending: isUpdating } = useUpdateWebhook()
+  const { mutate: deleteWebhook, isPending: isDeleting } = useDeleteWebhook()
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-8 w-8 p-0">
+            <span className="sr-only">Open menu</span>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => testWebhook(webhook.id)} disabled={isTesting}>
+            <Send className="mr-2 h-4 w-4" />
+            {isTesting ? 'Sending...' : 'Send test event'}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={onShowDeliveries}>
+            <List className="mr-2 h-4 w-4" />
+            Show deliveries
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => updateWebhook({ id: webhook.id, data: { active: !webhook.active } })}
+            disabled={isUpdating}
+          >
+            {webhook.active ? (
+              <Pause className="mr-2 h-4 w-4" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            {webhook.active ? 'Disable' : 'Enable'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setShowDeleteDialog(true)} className="text-destructive">
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {webhook.url} will no longer receive events, its delivery log is deleted along with
+              it. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                deleteWebhook(webhook.id, { onSuccess: () => setShowDeleteDialog(false) })
+              }
+              disabled={isDeleting}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
+
+interface WebhookListProps {
+  webhooks: Webhook[]
+  /** Webhook whose deliveries are shown, highlighted in the list */
+  selectedId?: string
+  onSelect: (id: string) => void
+}
+
+/**
+ * WebhookList Component
+ *
+ * Lists the registered webhooks with the events they subscribe to. Each can be sent a
+ * test event, disabled or deleted, and selected to filter the delivery log.
+ *
+ * @example
+ * ```tsx
+ * <WebhookList webhooks={webhooks} selectedId={webhookId} onSelect={setWebhookId} />
+ * ```
+ */
+export function WebhookList({ webhooks, selectedId, onSelect }: WebhookListProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>URL</TableHead>
+            <TableHead>Events</TableHead>
+            <TableHead>Secret</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-[50px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {webhooks.length ? (
+            webhooks.map((webhook) => (
+              <TableRow key={webhook.id} data-state={webhook.id === selectedId && 'selected'}>
+                <TableCell>
+                  <div className="font-medium break-all">{webhook.url}</div>
+                  {webhook.description && (
+                    <div className="text-xs text-muted-foreground">{webhook.description}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="outline" className="font-mono font-normal">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{webhook.secretHint}</TableCell>
+                <TableCell>
+                  <span
+                    className={cn(
+                      'inline-flex rounded-full px-3 py-1 text-xs font-medium',
+                      webhook.active ? 'bg-green-50 text-green-600' : 'bg-gray-100 text-gray-500'
+                    )}
+                  >
+                    {webhook.active ? 'Active' : 'Disabled'}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <WebhookActions webhook={webhook} onShowDeliveries={() => onSelect(webhook.id)} />
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                No webhooks yet
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
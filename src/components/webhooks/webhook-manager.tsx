@@ -0,0 +1,77 @@
+'use client'
+
+import { NoTeam } from '@/components/teams/no-team'
+import { Button } from '@/components/ui/button'
+import { useWebhooks } from '@/hooks/use-webhooks'
+import { isApiError } from '@/services/api-error'
+import { Plus } from 'lucide-react'
+import { useState } from 'react'
+import { AddWebhookModal } from './add-webhook-modal'
+import { WebhookDeliveries } from './webhook-deliveries'
+import { WebhookList } from './webhook-list'
+
+/**
+ * WebhookManager Component
+ *
+ * Management page of the outbound webhooks: registers endpoints, sends them test
+ * events and shows the delivery log, where failed deliveries can be replayed.
+ *
+ * @example
+ * ```tsx
+ * <WebhookManager />
+ * ```
+ */
+export function WebhookManager() {
+  const [showAddModal, setShowAddModal] = useState(false)
+  const [selectedId, setSelectedId] = useState<string>()
+  const { data: webhooks = [], isLoading, isError, error, refetch } = useWebhooks()
+
+  if (isError) {
+    if (isApiError(error) && error.code === 'no_team') {
+      return <NoTeam />
+    }
+    return (
+      <div className="flex h-[400px] flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Failed to load the webhooks</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Try again
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold">Webhooks</h1>
+            <p className="text-sm text-muted-foreground">
+              Endpoints notified of changes to the notifications, every delivery is signed.
+            </p>
+          </div>
+          <Button onClick={() => setShowAddModal(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Webhook
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center text-muted-foreground">
+            Loading...
+          </div>
+        ) : (
+          <WebhookList webhooks={webhooks} selectedId={selectedId} onSelect={setSelectedId} />
+        )}
+      </div>
+
+      <WebhookDeliveries
+        webhooks={webhooks}
+        webhookId={selectedId}
+        onClearWebhook={() => setSelectedId(undefined)}
+      />
+
+      <AddWebhookModal open={showAddModal} onOpenChange={setShowAddModal} />
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { hasPermission, type Permission, type SignInInput } from '@/schemas/auth.schema'
+import { signIn, signOut } from '@/services/auth'
+import { type SessionUser } from '@/types/auth.types'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { createContext, useContext } from 'react'
+import { toast } from 'sonner'
+
+const CurrentUserContext = createContext<SessionUser | null>(null)
+
+/**
+ * Makes the signed-in user, resolved by the root layout on the server, available to the
+ * client components. `null` while signed out.
+ */
+export function CurrentUserProvider({
+  user,
+  children,
+}: {
+  user: SessionUser | null
+  children: React.ReactNode
+}) {
+  return <CurrentUserContext.Provider value={user}>{children}</CurrentUserContext.Provider>
+}
+
+/**
+ * Reads the signed-in user, `null` while signed out
+ *
+ * @example
+ * ```tsx
+ * const user = useCurrentUser()
+ * ```
+ */
+function useCurrentUser() {
+  return useContext(CurrentUserContext)
+}
+
+/**
+ * Whether the signed-in user's role grants a permission, `false` while signed out. Only
+ * decides what the UI shows, the route handlers check the permission again.
+ *
+ * @example
+ * ```tsx
+ * const canDelete = useHasPermission('notifications:delete')
+ * ```
+ */
+function useHasPermission(permission: Permission) {
+  const user = useCurrentUser()
+  return user ? hasPermission(user.role, permission) : false
+}
+
+/**
+ * Custom hook for signing in, the caller navigates away once signed in
+ *
+ * @example
+ * ```tsx
+ * const { mutate: signIn, isPending } = useSignIn()
+ * signIn(data, { onSuccess: () => router.replace('/') })
+ * ```
+ */
+const useSignIn = () => {
+  return useMutation({
+    mutationFn: (data: SignInInput) => signIn(data),
+  })
+}
+
+/**
+ * Custom hook for signing out. Reloads into the sign-in page so nothing fetched as the
+ * user stays in memory.
+ *
+ * @example
+ * ```tsx
+ * const { mutate: signOut } = useSignOut()
+ * ```
+ */
+const useSignOut = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: signOut,
+    onSuccess: () => {
+      queryClient.clear()
+      window.location.assign('/login')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to sign out')
+    },
+  })
+}
+
+export { useCurrentUser, useHasPermission, useSignIn, useSignOut }
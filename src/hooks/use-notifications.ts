@@ -1,39 +1,84 @@
+import {
+  type BulkAction,
+  NOTIFICATION_EVENT_TYPES,
+  type UpdateNotificationInput,
+} from '@/schemas/notification.schema'
+import { isApiError } from '@/services/api-error'
 import {
   addNotification,
+  auditLogQueryKey,
+  bulkNotifications,
   deleteNotification,
+  FetchAuditLogParams,
+  FetchNotificationsParams,
+  FetchNotificationStatsParams,
+  getAuditLog,
+  getNotification,
   getNotifications,
+  getNotificationsStreamUrl,
+  getNotificationStats,
+  getTrash,
+  importNotifications,
+  notificationQueryKey,
   notificationsQueryKey,
   NotificationsResponse,
+  notificationStatsQueryKey,
+  purgeNotification,
+  restoreNotification,
+  trashQueryKey,
   updateNotification,
 } from '@/services/notifications'
 import {
+  type AuditLogResponse,
+  type Notification,
+  type NotificationEvent,
+  type NotificationStats,
+  type OffsetPaginationMetadata,
+} from '@/types/notifications.types'
+import {
+  type QueryKey,
   useMutation,
   useQuery,
   useQueryClient,
   UseQueryResult,
   useSuspenseQuery,
 } from '@tanstack/react-query'
+import { useEffect } from 'react'
 import { toast } from 'sonner'
 
 /**
- * Custom hook for fetching notifications with pagination
+ * Options of the query hooks that can start from data fetched on the server
+ */
+interface BackgroundQueryOptions<T> {
+  /** Data fetched on the server for the same params */
+  initialData?: T
+  /** Milliseconds between refetches in the background, none by default */
+  refetchInterval?: number
+}
+
+/**
+ * Custom hook for fetching notifications with pagination and filtering
  *
  * Uses TanStack Query for data fetching, caching, and state management.
- * Implements server-side pagination.
+ * Implements server-side pagination and filtering.
  *
- * @param {UseNotificationsParams} params - Query parameters for pagination
+ * @param {FetchNotificationsParams} params - Query parameters for pagination and filtering
  * @param {number} params.page - Current page number for pagination
  * @param {number} params.limit - Number of items per page
+ * @param {string} params.query - Free-text search
+ * @param {string} params.status - Comma separated statuses to filter by
+ * @param {string} params.type - Comma separated types to filter by
  *
  * @example
  * ```tsx
  * // Basic usage
  * const { data, isLoading } = useNotifications()
  *
- * // With and pagination
+ * // With filters and pagination
  * const { data, isLoading } = useNotifications({
  *   page: 1,
- *   limit: 10
+ *   limit: 10,
+ *   status: 'Delivered,Cancelled',
  * })
  * ```
  *
@@ -45,10 +90,9 @@ import { toast } from 'sonner'
  * - error: Error object if query failed
  * - refetch: Function to manually refetch data
  */
-const useNotifications = (params: {
-  page?: number
-  limit?: number
-}): UseQueryResult<NotificationsResponse, Error> => {
+const useNotifications = (
+  params: FetchNotificationsParams
+): UseQueryResult<NotificationsResponse, Error> => {
   return useQuery({
     queryKey: notificationsQueryKey(params),
     queryFn: () => getNotifications(params),
@@ -60,6 +104,215 @@ const useNotifications = (params: {
   })
 }
 
+/**
+ * Custom hook for fetching a single notification
+ *
+ * Uses TanStack Query with the server-rendered notification as initial data,
+ * so the details stay in sync with edits made through the mutation hooks.
+ *
+ * @param {string} id - ID of the notification
+ * @param {Notification} initialData - Notification fetched on the server
+ *
+ * @example
+ * ```tsx
+ * const { data: notification } = useNotification(id, initialNotification)
+ * ```
+ *
+ * @returns Query result object, `data` is `null` once the notification no longer exists
+ */
+const useNotification = (
+  id: string,
+  initialData?: Notification
+): UseQueryResult<Notification | null, Error> => {
+  return useQuery({
+    queryKey: notificationQueryKey(id),
+    queryFn: () => getNotification(id),
+    initialData,
+    staleTime: 1000 * 60 * 5, // Consider data fresh for 5 minutes
+    refetchOnWindowFocus: false,
+  })
+}
+
+/**
+ * Custom hook for fetching the notifications in the Trash
+ *
+ * Same params as `useNotifications`, with offset pagination only.
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useTrash({ page: 1, limit: 10, query: 'dubai' })
+ * ```
+ *
+ * @returns Query result object with the deleted notifications and pagination metadata
+ */
+const useTrash = (
+  params: FetchNotificationsParams
+): UseQueryResult<NotificationsResponse<OffsetPaginationMetadata>, Error> => {
+  return useQuery({
+    queryKey: trashQueryKey(params),
+    queryFn: () => getTrash(params),
+    placeholderData: (prev) => prev,
+  })
+}
+
+/**
+ * Custom hook for fetching the audit log, of a single notification when `id` is given
+ *
+ * Refetched along with the notifications after every change made through the
+ * mutation hooks.
+ *
+ * @param {string} id - ID of the notification, omit for the log of every notification
+ * @param {FetchAuditLogParams} params - Pagination and `action`/`actor` filters
+ * @param {BackgroundQueryOptions} options - Entries fetched on the server and how often
+ * to refresh them
+ *
+ * @example
+ * ```tsx
+ * const { data: history, isLoading } = useAuditLog(notification.id, { limit: 50 })
+ * ```
+ *
+ * @returns Query result object with the entries, newest first, and pagination metadata
+ */
+const useAuditLog = (
+  id?: string,
+  params: FetchAuditLogParams = {},
+  { initialData, refetchInterval }: BackgroundQueryOptions<AuditLogResponse> = {}
+): UseQueryResult<AuditLogResponse, Error> => {
+  return useQuery({
+    queryKey: auditLogQueryKey(id, params),
+    queryFn: () => getAuditLog(params, id),
+    initialData,
+    refetchInterval,
+    placeholderData: (prev) => prev,
+  })
+}
+
+/**
+ * Custom hook for fetching the statistics of the notifications matching the filters
+ *
+ * Refetched along with the notifications after every change made through the
+ * mutation hooks.
+ *
+ * @param {FetchNotificationStatsParams} params - Filters and time series options
+ * @param {BackgroundQueryOptions} options - Statistics fetched on the server and how often
+ * to refresh them
+ *
+ * @example
+ * ```tsx
+ * const { data: stats } = useNotificationStats({ status: 'Delivered', interval: 'week' })
+ * ```
+ *
+ * @returns Query result object with the counts, rates and time series
+ */
+const useNotificationStats = (
+  params: FetchNotificationStatsParams = {},
+  { initialData, refetchInterval }: BackgroundQueryOptions<NotificationStats> = {}
+): UseQueryResult<NotificationStats, Error> => {
+  return useQuery({
+    queryKey: notificationStatsQueryKey(params),
+    queryFn: () => getNotificationStats(params),
+    initialData,
+    refetchInterval,
+    placeholderData: (prev) => prev,
+  })
+}
+
+/**
+ * Milliseconds to gather live events before refetching the queries they may affect
+ */
+const LIVE_REFETCH_DELAY = 1000
+
+/**
+ * Whether `queryKey` is a page of the notification list or of the Trash
+ */
+const isNotificationListKey = (queryKey: QueryKey) =>
+  queryKey[0] === 'notifications' && (typeof queryKey[1] === 'object' || queryKey[1] === 'trash')
+
+/**
+ * Custom hook keeping the cached notifications in sync with changes made anywhere
+ *
+ * Listens to `GET /api/notifications/stream` and patches the cache right away: cached
+ * details are replaced, and the notification is replaced in or removed from every cached
+ * page. Once a burst of events is over, the lists, counts, statistics and audit log
+ * currently shown are refetched, as filters, sorting and totals may have changed.
+ * Everything is refetched after a reconnect, events are not replayed.
+ *
+ * Mount it once, within the `QueryClientProvider`.
+ *
+ * @example
+ * ```tsx
+ * function LiveNotifications() {
+ *   useNotificationEvents()
+ *   return null
+ * }
+ * ```
+ */
+const useNotificationEvents = () => {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    const source = new EventSource(getNotificationsStreamUrl())
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined
+    let disconnected = false
+
+    const scheduleRefetch = () => {
+      clearTimeout(refetchTimer)
+      refetchTimer = setTimeout(() => {
+        void queryClient.invalidateQueries({
+          queryKey: ['notifications'],
+          // The details are up to date with the events already
+          predicate: (query) => query.queryKey[1] !== 'detail',
+        })
+      }, LIVE_REFETCH_DELAY)
+    }
+
+    const patchDetails = (id: string, notification: Notification | null) =>
+      // Only the details already cached, returning `undefined` leaves the others out
+      queryClient.setQueryData<Notification | null>(notificationQueryKey(id), (current) =>
+        current === undefined ? undefined : notification
+      )
+
+    const patchLists = (update: (notifications: Notification[]) => Notification[]) =>
+      queryClient.setQueriesData<NotificationsResponse>(
+        { predicate: (query) => isNotificationListKey(query.queryKey) },
+        (data) => data && { ...data, data: update(data.data) }
+      )
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      const event: NotificationEvent = JSON.parse(message.data)
+      if (event.type === 'deleted') {
+        patchDetails(event.id, null)
+        patchLists((notifications) => notifications.filter(({ id }) => id !== event.id))
+      } else {
+        const { notification } = event
+        patchDetails(notification.id, notification)
+        patchLists((notifications) =>
+          notifications.map((item) => (item.id === notification.id ? notification : item))
+        )
+      }
+      scheduleRefetch()
+    }
+
+    for (const type of NOTIFICATION_EVENT_TYPES) {
+      source.addEventListener(type, handleEvent)
+    }
+    // The browser reconnects by itself
+    source.onerror = () => {
+      disconnected = true
+    }
+    source.onopen = () => {
+      if (!disconnected) return
+      disconnected = false
+      void queryClient.invalidateQueries({ queryKey: ['notifications'] })
+    }
+
+    return () => {
+      clearTimeout(refetchTimer)
+      source.close()
+    }
+  }, [queryClient])
+}
+
 /**
  * Custom hook to get cached notifications data.
  *
@@ -128,10 +381,11 @@ const useAddNotification = () => {
 }
 
 /**
- * Custom hook for deleting notifications
+ * Custom hook for moving notifications to the Trash
  *
  * Uses TanStack Query mutations for state updates and cache invalidation.
  * Shows success/error toasts and automatically refetches notifications list.
+ * The success toast offers to undo the deletion.
  *
  * @example
  * ```tsx
@@ -149,6 +403,7 @@ const useAddNotification = () => {
  */
 const useDeleteNotification = () => {
   const queryClient = useQueryClient()
+  const { mutate: restore } = useRestoreNotification()
 
   return useMutation({
     mutationFn: async (id: string) => {
@@ -158,13 +413,17 @@ const useDeleteNotification = () => {
       }
       return response
     },
-    onSuccess: async () => {
+    onSuccess: async (_response, id) => {
+      // The notification is in the Trash now, drop its details instead of refetching them
+      queryClient.removeQueries({ queryKey: notificationQueryKey(id) })
       // Invalidate and refetch all notification queries
       await queryClient.invalidateQueries({
         queryKey: ['notifications'],
         refetchType: 'all',
       })
-      toast.success('Notification deleted successfully')
+      toast.success('Notification moved to Trash', {
+        action: { label: 'Undo', onClick: () => restore(id) },
+      })
     },
     onError: (error: Error) => {
       toast.error(error.message || 'Failed to delete notification')
@@ -182,13 +441,14 @@ const useDeleteNotification = () => {
  * ```tsx
  * const { mutate: updateNotification, isPending } = useUpdateNotification()
  *
- * // Update a notification
+ * // Update a notification, failing with a conflict if it changed since version 3
  * updateNotification({
  *   id: "notification-id",
  *   data: {
  *     status: "Delivered",
  *     city: "New City"
- *   }
+ *   },
+ *   version: 3
  * })
  * ```
  *
@@ -202,8 +462,16 @@ const useUpdateNotification = () => {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: any }) => {
-      const response = await updateNotification(id, data)
+    mutationFn: async ({
+      id,
+      data,
+      version,
+    }: {
+      id: string
+      data: UpdateNotificationInput
+      version?: number
+    }) => {
+      const response = await updateNotification(id, data, version)
       if (!response) {
         throw new Error('Failed to update notification')
       }
@@ -218,21 +486,186 @@ const useUpdateNotification = () => {
 
       toast.success('Notification updated successfully')
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { id }) => {
+      // The server sent its latest copy along with the conflict, show it right away
+      if (isApiError(error) && error.current) {
+        queryClient.setQueryData(notificationQueryKey(id), error.current)
+      }
       toast.error(error.message || 'Failed to update notification')
     },
   })
 }
 
+/**
+ * Custom hook for restoring notifications from the Trash
+ *
+ * Shows success/error toasts and refetches the notifications and the Trash.
+ *
+ * @example
+ * ```tsx
+ * const { mutate: restore, isPending } = useRestoreNotification()
+ *
+ * restore('notification-id')
+ * ```
+ */
+const useRestoreNotification = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: restoreNotification,
+    onSuccess: async (notification) => {
+      queryClient.setQueryData(notificationQueryKey(notification.id), notification)
+      await queryClient.invalidateQueries({
+        queryKey: ['notifications'],
+        refetchType: 'all',
+      })
+      toast.success('Notification restored')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to restore notification')
+    },
+  })
+}
+
+/**
+ * Custom hook for permanently deleting notifications from the Trash
+ *
+ * Shows success/error toasts and refetches the Trash.
+ *
+ * @example
+ * ```tsx
+ * const { mutate: purge, isPending } = usePurgeNotification()
+ *
+ * purge('notification-id')
+ * ```
+ */
+const usePurgeNotification = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: purgeNotification,
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({
+        queryKey: ['notifications'],
+        refetchType: 'all',
+      })
+      toast.success('Notification permanently deleted')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to permanently delete notification')
+    },
+  })
+}
+
+const BULK_ACTION_PAST_TENSE: Record<BulkAction, string> = {
+  delete: 'moved to Trash',
+  cancel: 'cancelled',
+  setStatus: 'updated',
+}
+
+/**
+ * Custom hook for applying one action to many notifications
+ *
+ * Deletes, cancels or sets the status of the given ids in one request.
+ * Shows a toast summarizing how many succeeded and failed, and refetches the notifications.
+ *
+ * @example
+ * ```tsx
+ * const { mutate: bulkUpdate, isPending } = useBulkNotifications()
+ *
+ * bulkUpdate({ action: 'delete', ids })
+ * bulkUpdate({ action: 'cancel', ids })
+ * bulkUpdate({ action: 'setStatus', ids, status: 'Delivered' })
+ * ```
+ *
+ * @returns Mutation result object containing:
+ * - mutate: Function to trigger the bulk action
+ * - data: Outcome for every id
+ * - isPending: Boolean indicating loading state
+ * - error: Error object if the request failed as a whole
+ */
+const useBulkNotifications = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: bulkNotifications,
+    onSuccess: async ({ action, results, succeeded, failed }) => {
+      if (action === 'delete') {
+        // Notifications in the Trash have no details, drop them instead of refetching them
+        results
+          .filter((result) => result.ok)
+          .forEach((result) =>
+            queryClient.removeQueries({ queryKey: notificationQueryKey(result.id) })
+          )
+      }
+      await queryClient.invalidateQueries({
+        queryKey: ['notifications'],
+        refetchType: 'all',
+      })
+
+      const summary = `${succeeded} notification${succeeded === 1 ? '' : 's'} ${BULK_ACTION_PAST_TENSE[action]}`
+      if (failed) {
+        toast.warning(`${summary}, ${failed} failed`)
+      } else {
+        toast.success(summary)
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to apply bulk action')
+    },
+  })
+}
+
+/**
+ * Custom hook for importing a batch of notifications
+ *
+ * Shows a toast with the inserted/skipped/failed counts and refetches the notifications.
+ * The per-row outcome is available as `data.results`.
+ *
+ * @example
+ * ```tsx
+ * const { mutate: importRows, data, isPending } = useImportNotifications()
+ *
+ * importRows({ rows })
+ * ```
+ */
+const useImportNotifications = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: importNotifications,
+    onSuccess: async ({ inserted, skipped, failed }) => {
+      if (inserted) {
+        await queryClient.invalidateQueries({
+          queryKey: ['notifications'],
+          refetchType: 'all',
+        })
+      }
+
+      const summary = `${inserted} imported, ${skipped} skipped, ${failed} failed`
+      if (failed) {
+        toast.warning(summary)
+      } else {
+        toast.success(summary)
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to import notifications')
+    },
+  })
+}
+
 /**
  * Custom hook for fetching notifications with Suspense
  *
  * Uses TanStack Query's useSuspenseQuery for data fetching with Suspense integration.
  * Data is guaranteed to be available when component renders.
  */
-const useSuspenseNotifications = (params: {
-  page?: number
-  limit?: number
+const useSuspenseNotifications = ({
+  initialData,
+  initialDataUpdatedAt,
+  ...params
+}: FetchNotificationsParams & {
   initialData?: NotificationsResponse
   initialDataUpdatedAt?: number
 }) => {
@@ -242,16 +675,25 @@ const useSuspenseNotifications = (params: {
     staleTime: 0, // Always fetch new data
     refetchOnMount: true,
     refetchOnWindowFocus: true,
-    initialData: params.initialData,
-    initialDataUpdatedAt: params.initialDataUpdatedAt,
+    initialData,
+    initialDataUpdatedAt,
   })
 }
 
 export {
   useAddNotification,
+  useAuditLog,
+  useBulkNotifications,
   useDeleteNotification,
   useGetCachedNotifications,
+  useImportNotifications,
+  useNotification,
+  useNotificationEvents,
   useNotifications,
+  useNotificationStats,
+  usePurgeNotification,
+  useRestoreNotification,
   useSuspenseNotifications,
+  useTrash,
   useUpdateNotification,
 }
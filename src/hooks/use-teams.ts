@@ -0,0 +1,47 @@
+import { type SwitchTeamInput } from '@/schemas/team.schema'
+import { getTeams, switchTeam, teamsQueryKey } from '@/services/teams'
+import { type Team } from '@/types/teams.types'
+import { useMutation, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query'
+import { toast } from 'sonner'
+
+/**
+ * Custom hook for fetching the teams of the signed-in user
+ *
+ * @example
+ * ```tsx
+ * const { data: teams, isLoading } = useTeams()
+ * ```
+ */
+const useTeams = (): UseQueryResult<Team[], Error> => {
+  return useQuery({
+    queryKey: teamsQueryKey(),
+    queryFn: getTeams,
+  })
+}
+
+/**
+ * Custom hook for switching the active team. Reloads the page once switched, so the
+ * layout, the cached queries and the live stream all start over with the new team.
+ *
+ * @example
+ * ```tsx
+ * const { mutate: switchTeam, isPending } = useSwitchTeam()
+ * switchTeam({ teamId: team.id })
+ * ```
+ */
+const useSwitchTeam = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: SwitchTeamInput) => switchTeam(data),
+    onSuccess: () => {
+      queryClient.clear()
+      window.location.reload()
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to switch team')
+    },
+  })
+}
+
+export { useSwitchTeam, useTeams }
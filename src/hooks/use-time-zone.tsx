@@ -0,0 +1,77 @@
+'use client'
+
+import {
+  resolveTimeZone,
+  TIME_ZONE_MODES,
+  type NotificationLocation,
+  type TimeZoneMode,
+} from '@/lib/datetime'
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+
+const STORAGE_KEY = 'time-zone-mode'
+
+interface TimeZoneContextValue {
+  mode: TimeZoneMode
+  setMode: (mode: TimeZoneMode) => void
+}
+
+const TimeZoneContext = createContext<TimeZoneContextValue | null>(null)
+
+const isTimeZoneMode = (value: unknown): value is TimeZoneMode =>
+  TIME_ZONE_MODES.some((option) => option.value === value)
+
+/**
+ * Holds the time zone dates are displayed and entered in, persisted in `localStorage`.
+ * Renders in the viewer's time zone until the stored preference is read on mount.
+ */
+export function TimeZoneProvider({ children }: { children: React.ReactNode }) {
+  const [mode, setModeState] = useState<TimeZoneMode>('viewer')
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (isTimeZoneMode(stored)) setModeState(stored)
+  }, [])
+
+  const setMode = useCallback((next: TimeZoneMode) => {
+    setModeState(next)
+    window.localStorage.setItem(STORAGE_KEY, next)
+  }, [])
+
+  const value = useMemo(() => ({ mode, setMode }), [mode, setMode])
+
+  return <TimeZoneContext.Provider value={value}>{children}</TimeZoneContext.Provider>
+}
+
+/**
+ * Reads and updates the time zone preference
+ *
+ * @example
+ * ```tsx
+ * const { mode, setMode } = useTimeZoneMode()
+ * ```
+ */
+function useTimeZoneMode() {
+  const context = useContext(TimeZoneContext)
+  if (!context) {
+    throw new Error('useTimeZoneMode must be used within a TimeZoneProvider')
+  }
+  return context
+}
+
+/**
+ * Resolves the IANA time zone to show a notification's dates in
+ *
+ * @param location - The notification's country and city, used by the `location` mode
+ *
+ * @example
+ * ```tsx
+ * const timeZone = useTimeZone({ country: 'UAE', city: 'Dubai' })
+ * formatDateTime(notification.dateTime, timeZone)
+ * ```
+ */
+function useTimeZone(location?: NotificationLocation) {
+  const { mode } = useTimeZoneMode()
+  return resolveTimeZone(mode, location)
+}
+
+export { useTimeZone, useTimeZoneMode }
@@ -0,0 +1,198 @@
+import { type CreateWebhookInput, type UpdateWebhookInput } from '@/schemas/webhook.schema'
+import {
+  addWebhook,
+  deleteWebhook,
+  FetchWebhookDeliveriesParams,
+  getWebhookDeliveries,
+  getWebhooks,
+  replayWebhookDelivery,
+  testWebhook,
+  updateWebhook,
+  webhookDeliveriesQueryKey,
+  webhooksQueryKey,
+} from '@/services/webhooks'
+import { type Webhook, type WebhookDeliveriesResponse } from '@/types/webhooks.types'
+import { useMutation, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query'
+import { toast } from 'sonner'
+
+/**
+ * Milliseconds between refetches of the delivery log while retries may be running
+ */
+const DELIVERIES_REFETCH_INTERVAL = 10 * 1000
+
+/**
+ * Custom hook for fetching every webhook
+ *
+ * @example
+ * ```tsx
+ * const { data: webhooks, isLoading } = useWebhooks()
+ * ```
+ */
+const useWebhooks = (): UseQueryResult<Webhook[], Error> => {
+  return useQuery({
+    queryKey: webhooksQueryKey(),
+    queryFn: getWebhooks,
+  })
+}
+
+/**
+ * Custom hook for fetching the delivery log
+ *
+ * Refetched every few seconds so retries show up as they are made.
+ *
+ * @param {FetchWebhookDeliveriesParams} params - Pagination and `webhookId`/`status`/`event` filters
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useWebhookDeliveries({ webhookId, status: 'failed' })
+ * ```
+ */
+const useWebhookDeliveries = (
+  params: FetchWebhookDeliveriesParams = {}
+): UseQueryResult<WebhookDeliveriesResponse, Error> => {
+  return useQuery({
+    queryKey: webhookDeliveriesQueryKey(params),
+    queryFn: () => getWebhookDeliveries(params),
+    refetchInterval: DELIVERIES_REFETCH_INTERVAL,
+    placeholderData: (prev) => prev,
+  })
+}
+
+/**
+ * Custom hook for registering webhooks, the caller shows the secret the webhook was
+ * created with since it is never returned again
+ *
+ * @example
+ * ```tsx
+ * const { mutate: addWebhook, isPending } = useAddWebhook()
+ * addWebhook(data, { onSuccess: ({ secret }) => setSecret(secret) })
+ * ```
+ */
+const useAddWebhook = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateWebhookInput) => addWebhook(data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['webhooks'] })
+    },
+  })
+}
+
+/**
+ * Custom hook for updating webhooks, e.g. enabling or disabling them
+ *
+ * @example
+ * ```tsx
+ * const { mutate: updateWebhook } = useUpdateWebhook()
+ * updateWebhook({ id: webhook.id, data: { active: false } })
+ * ```
+ */
+const useUpdateWebhook = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateWebhookInput }) => updateWebhook(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['webhooks'] })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update webhook')
+    },
+  })
+}
+
+/**
+ * Custom hook for deleting webhooks along with their delivery log
+ *
+ * @example
+ * ```tsx
+ * const { mutate: deleteWebhook } = useDeleteWebhook()
+ * deleteWebhook(webhook.id)
+ * ```
+ */
+const useDeleteWebhook = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteWebhook(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['webhooks'] })
+      toast.success('Webhook deleted')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to delete webhook')
+    },
+  })
+}
+
+/**
+ * Custom hook for sending a test event to a webhook, toasts whether it was received
+ *
+ * @example
+ * ```tsx
+ * const { mutate: testWebhook, isPending } = useTestWebhook()
+ * testWebhook(webhook.id)
+ * ```
+ */
+const useTestWebhook = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => testWebhook(id),
+    onSuccess: async (delivery) => {
+      await queryClient.invalidateQueries({ queryKey: ['webhooks', 'deliveries'] })
+      const [attempt] = delivery.attempts
+      if (delivery.status === 'succeeded') {
+        toast.success(`Test event received, responded with ${attempt?.statusCode}`)
+      } else {
+        toast.error(`Test event failed: ${attempt?.error ?? 'no response'}`)
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to send test event')
+    },
+  })
+}
+
+/**
+ * Custom hook for replaying a delivery, toasts the outcome of the first attempt
+ *
+ * @example
+ * ```tsx
+ * const { mutate: replay, isPending } = useReplayWebhookDelivery()
+ * replay(delivery.id)
+ * ```
+ */
+const useReplayWebhookDelivery = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => replayWebhookDelivery(id),
+    onSuccess: async (delivery) => {
+      await queryClient.invalidateQueries({ queryKey: ['webhooks', 'deliveries'] })
+      if (delivery.status === 'succeeded') {
+        toast.success('Delivery replayed')
+      } else {
+        toast.error(
+          delivery.status === 'pending'
+            ? 'Replay failed, it will be retried'
+            : `Replay failed: ${delivery.attempts.at(-1)?.error ?? 'no response'}`
+        )
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to replay delivery')
+    },
+  })
+}
+
+export {
+  useAddWebhook,
+  useDeleteWebhook,
+  useReplayWebhookDelivery,
+  useTestWebhook,
+  useUpdateWebhook,
+  useWebhookDeliveries,
+  useWebhooks,
+}
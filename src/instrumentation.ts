@@ -0,0 +1,13 @@
+/**
+ * Runs once when a server instance starts, see
+ * https://nextjs.org/docs/app/building-your-application/optimizing/instrumentation
+ */
+export async function register() {
+  // The scheduler and the webhooks need Mongoose, which only runs on the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('@/lib/notifications/scheduler')
+    const { startWebhookDispatcher } = await import('@/lib/webhooks/dispatcher')
+    startScheduler()
+    startWebhookDispatcher()
+  }
+}
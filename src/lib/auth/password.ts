@@ -0,0 +1,63 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>
+
+/**
+ * Prefix naming the algorithm of a password hash, so it can change later
+ */
+const HASH_ALGORITHM = 'scrypt'
+
+const SALT_LENGTH = 16
+
+const KEY_LENGTH = 64
+
+/**
+ * Hash compared against when no user has the email signed in with, so an unknown email
+ * takes as long to reject as a wrong password
+ */
+let dummyHash: Promise<string> | null = null
+
+/**
+ * Hashes a password with scrypt and a random salt
+ *
+ * @returns `scrypt$<salt>$<key>`, both hex encoded
+ *
+ * @example
+ * ```ts
+ * await hashPassword('correct horse battery staple') // 'scrypt$9f86...$d2a8...'
+ * ```
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH)
+  const key = await scryptAsync(password, salt, KEY_LENGTH)
+  return [HASH_ALGORITHM, salt.toString('hex'), key.toString('hex')].join('$')
+}
+
+/**
+ * Checks a password against a hash made with `hashPassword`, in constant time. Without a
+ * hash, e.g. for an unknown email, it is checked against a throwaway one and fails.
+ *
+ * @example
+ * ```ts
+ * const valid = await verifyPassword(password, user?.passwordHash)
+ * ```
+ */
+export async function verifyPassword(password: string, hash: string | undefined): Promise<boolean> {
+  if (!hash) {
+    dummyHash ??= hashPassword(randomBytes(SALT_LENGTH).toString('hex'))
+    await verifyPassword(password, await dummyHash)
+    return false
+  }
+
+  const [algorithm, salt, key] = hash.split('$')
+  if (algorithm !== HASH_ALGORITHM || !salt || !key) return false
+
+  const expected = Buffer.from(key, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length)
+  return timingSafeEqual(expected, actual)
+}
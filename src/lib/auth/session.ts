@@ -0,0 +1,139 @@
+import dbConnect from '@/lib/dbConnect'
+import Session, { type ISession } from '@/models/session.model'
+import User, { type IUser } from '@/models/user.model'
+import { DEFAULT_USER_ROLE } from '@/schemas/auth.schema'
+import { type SessionUser } from '@/types/auth.types'
+import { cookies } from 'next/headers'
+import { type NextResponse } from 'next/server'
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  signSessionToken,
+  verifySessionToken,
+} from './token'
+
+/**
+ * Cookies of a request, `req.cookies` in a route handler or `await cookies()` elsewhere
+ */
+export interface RequestCookies {
+  get(name: string): { value: string } | undefined
+}
+
+/**
+ * The team a user works in: the one last switched to while still a member of it, or
+ * else the first team the user joined. `null` for users without a team.
+ */
+export function getActiveTeamId(
+  doc: Partial<Pick<IUser, 'teamIds' | 'activeTeamId'>>
+): string | null {
+  const teamIds = (doc.teamIds ?? []).map(String)
+  const activeTeamId = doc.activeTeamId ? String(doc.activeTeamId) : null
+  if (activeTeamId && teamIds.includes(activeTeamId)) return activeTeamId
+  return teamIds[0] ?? null
+}
+
+/**
+ * Maps a user document to the `SessionUser` DTO, leaving out the password hash
+ */
+export function serializeUser(
+  doc: Pick<IUser, '_id' | 'email' | 'name' | 'role'> &
+    Partial<Pick<IUser, 'teamIds' | 'activeTeamId'>>
+): SessionUser {
+  return {
+    id: String(doc._id),
+    email: doc.email,
+    name: doc.name,
+    // Users created before roles existed
+    role: doc.role ?? DEFAULT_USER_ROLE,
+    teamId: getActiveTeamId(doc),
+  }
+}
+
+/**
+ * Starts a session for a user who just signed in
+ *
+ * @returns The session cookie value and when it expires, see `setSessionCookie`
+ */
+export async function createSession(userId: string, now = new Date()) {
+  await dbConnect()
+
+  const expiresAt = new Date(now.getTime() + SESSION_MAX_AGE_SECONDS * 1000)
+  const session = await Session.create({ userId, expiresAt })
+  return { token: await signSessionToken(String(session._id), expiresAt), expiresAt }
+}
+
+/**
+ * Resolves the session of a request: the cookie must be correctly signed, the session
+ * not signed out of or expired and its user must still exist.
+ *
+ * @returns The session ID and its user, or `null` when signed out
+ *
+ * @example
+ * ```ts
+ * const session = await getSession(req.cookies)
+ * if (!session) return problem({ status: 401, code: 'unauthorized', ... })
+ * ```
+ */
+export async function getSession(
+  requestCookies: RequestCookies,
+  now = new Date()
+): Promise<{ id: string; user: SessionUser } | null> {
+  const token = await verifySessionToken(requestCookies.get(SESSION_COOKIE)?.value, now)
+  if (!token) return null
+
+  await dbConnect()
+  const session = await Session.findOne({ _id: token.sessionId, expiresAt: { $gt: now } })
+    .lean<ISession>()
+    .exec()
+  if (!session) return null
+
+  const user = await User.findById(session.userId).lean<IUser>().exec()
+  if (!user) return null
+
+  return { id: String(session._id), user: serializeUser(user) }
+}
+
+/**
+ * The signed-in user while rendering a page, `null` when signed out
+ *
+ * @example
+ * ```tsx
+ * const user = await getCurrentUser()
+ * ```
+ */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const session = await getSession(await cookies())
+  return session?.user ?? null
+}
+
+/**
+ * Ends the session of a request, its cookie is no longer accepted even before it expires
+ */
+export async function deleteSession(requestCookies: RequestCookies) {
+  const token = await verifySessionToken(requestCookies.get(SESSION_COOKIE)?.value)
+  if (!token) return
+
+  await dbConnect()
+  await Session.deleteOne({ _id: token.sessionId }).exec()
+}
+
+/**
+ * Sets the session cookie on a response. It is `HttpOnly` so scripts can't read it, and
+ * `SameSite=Lax` so other sites can't make requests with it.
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+/**
+ * Removes the session cookie from the browser
+ */
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE)
+}
@@ -0,0 +1,58 @@
+import { signSessionToken, verifySessionToken } from './token'
+
+const sessionId = '65f1c0ffee0000000000abcd'
+const now = new Date('2025-03-01T10:30:00.000Z')
+const expiresAt = new Date('2025-03-08T10:30:00.000Z')
+
+describe('session tokens', () => {
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = { ...env, SESSION_SECRET: 'test-session-secret' }
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  it('verifies a token it signed', async () => {
+    const token = await signSessionToken(sessionId, expiresAt)
+    expect(token).toMatch(new RegExp(`^${sessionId}\\.1741429800\\.[A-Za-z0-9_-]+$`))
+    await expect(verifySessionToken(token, now)).resolves.toEqual({ sessionId, expiresAt })
+  })
+
+  it('rejects an expired token', async () => {
+    const token = await signSessionToken(sessionId, expiresAt)
+    await expect(verifySessionToken(token, expiresAt)).resolves.toBeNull()
+  })
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signSessionToken(sessionId, expiresAt)
+    process.env.SESSION_SECRET = 'another-secret'
+    await expect(verifySessionToken(token, now)).resolves.toBeNull()
+  })
+
+  it('rejects a token whose session or expiry was changed', async () => {
+    const token = await signSessionToken(sessionId, expiresAt)
+    const [, expiry, signature] = token.split('.')
+    const otherSession = `65f1c0ffee0000000000abce.${expiry}.${signature}`
+    const extended = `${sessionId}.${Number(expiry) + 60}.${signature}`
+    await expect(verifySessionToken(otherSession, now)).resolves.toBeNull()
+    await expect(verifySessionToken(extended, now)).resolves.toBeNull()
+  })
+
+  it.each([
+    ['a missing token', undefined],
+    ['an empty token', ''],
+    ['a token without a signature', `${sessionId}.1741429800`],
+    ['a token with extra parts', `${sessionId}.1741429800.abc.def`],
+    ['a signature that is not base64url', `${sessionId}.1741429800.%%%`],
+  ])('rejects %s', async (_, token) => {
+    await expect(verifySessionToken(token, now)).resolves.toBeNull()
+  })
+
+  it('fails loudly without a SESSION_SECRET', async () => {
+    delete process.env.SESSION_SECRET
+    await expect(signSessionToken(sessionId, expiresAt)).rejects.toThrow('SESSION_SECRET')
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Session cookie values, signed with the `SESSION_SECRET` environment variable.
+ *
+ * Only uses Web Crypto, so the middleware can check a cookie without reaching the
+ * database. Whether the session still exists is checked by `getSession`.
+ */
+
+/**
+ * Name of the cookie holding the session token
+ */
+export const SESSION_COOKIE = 'session'
+
+/**
+ * Seconds a session lasts after signing in
+ */
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+const encoder = new TextEncoder()
+
+const getSessionSecret = () => {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error('Please define the SESSION_SECRET environment variable inside .env.local')
+  }
+  return secret
+}
+
+const importKey = () =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Signs a session ID along with its expiry
+ *
+ * @returns `<sessionId>.<expiry in Unix seconds>.<signature>`, the session cookie value
+ *
+ * @example
+ * ```ts
+ * const token = await signSessionToken(String(session._id), session.expiresAt)
+ * ```
+ */
+export async function signSessionToken(sessionId: string, expiresAt: Date): Promise<string> {
+  const payload = `${sessionId}.${Math.floor(expiresAt.getTime() / 1000)}`
+  const signature = await crypto.subtle.sign('HMAC', await importKey(), encoder.encode(payload))
+  return `${payload}.${toBase64Url(signature)}`
+}
+
+/**
+ * Checks the signature of a token made with `signSessionToken`, in constant time, and
+ * that it hasn't expired at `now`
+ *
+ * @returns The session ID and expiry, or `null` if the token is missing, forged or expired
+ *
+ * @example
+ * ```ts
+ * const session = await verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value)
+ * ```
+ */
+export async function verifySessionToken(
+  token: string | undefined,
+  now = new Date()
+): Promise<{ sessionId: string; expiresAt: Date } | null> {
+  const [sessionId, expiry, signature, ...rest] = token?.split('.') ?? []
+  if (!sessionId || !expiry || !signature || rest.length) return null
+
+  const expiresAt = new Date(Number(expiry) * 1000)
+  if (!(expiresAt > now)) return null
+
+  const key = await importKey()
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(signature),
+      encoder.encode(`${sessionId}.${expiry}`)
+    )
+    return valid ? { sessionId, expiresAt } : null
+  } catch {
+    // The signature isn't valid base64url
+    return null
+  }
+}
@@ -0,0 +1,58 @@
+import { escapeCsvField, parseCsv, toCsvRow } from './csv'
+
+describe('escapeCsvField', () => {
+  it('leaves plain values as they are', () => {
+    expect(escapeCsvField('Dubai')).toBe('Dubai')
+    expect(escapeCsvField(42)).toBe('42')
+    expect(escapeCsvField(-5)).toBe('-5')
+  })
+
+  it('writes null and undefined as empty fields', () => {
+    expect(escapeCsvField(null)).toBe('')
+    expect(escapeCsvField(undefined)).toBe('')
+  })
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(escapeCsvField('Dubai, UAE')).toBe('"Dubai, UAE"')
+    expect(escapeCsvField('5" screen')).toBe('"5"" screen"')
+    expect(escapeCsvField('line\nbreak')).toBe('"line\nbreak"')
+  })
+
+  it.each(['=1+1', '+971 4 000 0000', '-2+3', '@SUM(A1:A2)', '\tcmd', '\rcmd'])(
+    'prefixes %j so spreadsheets do not evaluate it',
+    (value) => {
+      expect(escapeCsvField(value).replace(/^"/, '')).toMatch(/^'/)
+    }
+  )
+
+  it('prefixes before quoting', () => {
+    expect(escapeCsvField('=HYPERLINK("http://evil.example")')).toBe(
+      `"'=HYPERLINK(""http://evil.example"")"`
+    )
+  })
+})
+
+describe('toCsvRow', () => {
+  it('joins the escaped fields and ends the line with CRLF', () => {
+    expect(toCsvRow(['Photo', null, 'Dubai, UAE'])).toBe('Photo,,"Dubai, UAE"\r\n')
+  })
+})
+
+describe('parseCsv', () => {
+  it('parses quoted fields, escaped quotes, line breaks and a byte order mark', () => {
+    expect(parseCsv('\uFEFFtype,city\r\nPhoto,"Dubai, UAE"\n"5"" screen","a\r\nb"')).toEqual([
+      ['type', 'city'],
+      ['Photo', 'Dubai, UAE'],
+      ['5" screen', 'a\r\nb'],
+    ])
+  })
+
+  it('drops blank lines', () => {
+    expect(parseCsv('type\r\n\r\nPhoto\r\n,\r\n')).toEqual([['type'], ['Photo']])
+  })
+
+  it('reads back what toCsvRow writes', () => {
+    const values = ['Photo', 'Dubai, UAE', 'say "hi"', 'two\nlines']
+    expect(parseCsv(toCsvRow(values))).toEqual([values])
+  })
+})
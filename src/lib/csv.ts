@@ -0,0 +1,89 @@
+/**
+ * Characters that make spreadsheet apps evaluate a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Escapes a value for a CSV field (RFC 4180): fields containing a comma, quote or
+ * line break are quoted, with quotes doubled. `null`/`undefined` become empty fields.
+ *
+ * Text starting like a formula is prefixed with `'` first, so opening an export in a
+ * spreadsheet shows it instead of running it (CSV injection).
+ *
+ * @example
+ * ```ts
+ * escapeCsvField('=HYPERLINK("http://evil.example")') // `"'=HYPERLINK(""http://evil.example"")"`
+ * ```
+ */
+export function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Formats one CSV line, terminated with CRLF
+ *
+ * @example
+ * ```ts
+ * toCsvRow(['Photo', '230 X 500 PX', 'Dubai, UAE']) // 'Photo,230 X 500 PX,"Dubai, UAE"\r\n'
+ * ```
+ */
+export function toCsvRow(values: unknown[]): string {
+  return `${values.map(escapeCsvField).join(',')}\r\n`
+}
+
+/**
+ * Parses CSV text (RFC 4180) into rows of fields. Handles quoted fields containing
+ * commas, quotes and line breaks, CRLF or LF line endings and a leading byte order mark.
+ * Blank lines are dropped.
+ *
+ * @example
+ * ```ts
+ * parseCsv('type,city\r\nPhoto,"Dubai, UAE"\r\n') // [['type', 'city'], ['Photo', 'Dubai, UAE']]
+ * ```
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  // Last line without a trailing line break
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''))
+}
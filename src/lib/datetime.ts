@@ -0,0 +1,229 @@
+/**
+ * Time zone aware date formatting and parsing.
+ *
+ * Notifications are stored and transported as ISO-8601 UTC timestamps. For display they
+ * can be shown in the viewer's time zone, in UTC, or in the local time zone of the
+ * notification's `country`/`city`, see `TimeZoneMode`.
+ */
+
+/**
+ * Where dates are displayed and entered:
+ * - `viewer`: the time zone of the browser
+ * - `utc`: Coordinated Universal Time
+ * - `location`: the time zone of the notification's city or country
+ */
+export type TimeZoneMode = 'viewer' | 'utc' | 'location'
+
+export const TIME_ZONE_MODES: { value: TimeZoneMode; label: string }[] = [
+  { value: 'viewer', label: 'My time zone' },
+  { value: 'utc', label: 'UTC' },
+  { value: 'location', label: 'Location time' },
+]
+
+/**
+ * Where a notification is displayed, used to resolve its local time zone
+ */
+export interface NotificationLocation {
+  country?: string
+  city?: string
+}
+
+/**
+ * Time zones of the cities we place notifications in, keyed by lowercase name.
+ * Cities are checked first so countries spanning several zones can still resolve.
+ */
+const CITY_TIME_ZONES: Record<string, string> = {
+  dubai: 'Asia/Dubai',
+  'abu dhabi': 'Asia/Dubai',
+  sharjah: 'Asia/Dubai',
+  ajman: 'Asia/Dubai',
+  'al ain': 'Asia/Dubai',
+  riyadh: 'Asia/Riyadh',
+  jeddah: 'Asia/Riyadh',
+  dammam: 'Asia/Riyadh',
+  doha: 'Asia/Qatar',
+  'kuwait city': 'Asia/Kuwait',
+  manama: 'Asia/Bahrain',
+  muscat: 'Asia/Muscat',
+  cairo: 'Africa/Cairo',
+  alexandria: 'Africa/Cairo',
+  amman: 'Asia/Amman',
+  beirut: 'Asia/Beirut',
+  istanbul: 'Europe/Istanbul',
+  london: 'Europe/London',
+  paris: 'Europe/Paris',
+  berlin: 'Europe/Berlin',
+  mumbai: 'Asia/Kolkata',
+  'new delhi': 'Asia/Kolkata',
+  karachi: 'Asia/Karachi',
+  'new york': 'America/New_York',
+  'los angeles': 'America/Los_Angeles',
+  chicago: 'America/Chicago',
+}
+
+/**
+ * Time zones of single time zone countries, keyed by lowercase name and common aliases
+ */
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  uae: 'Asia/Dubai',
+  'united arab emirates': 'Asia/Dubai',
+  ksa: 'Asia/Riyadh',
+  'saudi arabia': 'Asia/Riyadh',
+  qatar: 'Asia/Qatar',
+  kuwait: 'Asia/Kuwait',
+  bahrain: 'Asia/Bahrain',
+  oman: 'Asia/Muscat',
+  egypt: 'Africa/Cairo',
+  jordan: 'Asia/Amman',
+  lebanon: 'Asia/Beirut',
+  turkey: 'Europe/Istanbul',
+  uk: 'Europe/London',
+  'united kingdom': 'Europe/London',
+  france: 'Europe/Paris',
+  germany: 'Europe/Berlin',
+  india: 'Asia/Kolkata',
+  pakistan: 'Asia/Karachi',
+}
+
+const normalize = (value?: string) => value?.trim().toLowerCase() ?? ''
+
+/**
+ * The time zone of the runtime, i.e. the viewer's when called in the browser
+ */
+export const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+/**
+ * Looks up the IANA time zone of a notification's location
+ *
+ * @returns The time zone, or `undefined` if neither the city nor the country is known
+ *
+ * @example
+ * ```ts
+ * getLocationTimeZone({ country: 'UAE', city: 'Dubai' }) // 'Asia/Dubai'
+ * ```
+ */
+export function getLocationTimeZone({ country, city }: NotificationLocation) {
+  return CITY_TIME_ZONES[normalize(city)] ?? COUNTRY_TIME_ZONES[normalize(country)]
+}
+
+/**
+ * Resolves the IANA time zone to display a date in.
+ * Unknown locations fall back to the viewer's time zone.
+ */
+export function resolveTimeZone(mode: TimeZoneMode, location?: NotificationLocation): string {
+  if (mode === 'utc') return 'UTC'
+  if (mode === 'location' && location) {
+    return getLocationTimeZone(location) ?? getViewerTimeZone()
+  }
+  return getViewerTimeZone()
+}
+
+/**
+ * Formats an ISO-8601 timestamp for display
+ *
+ * @param value - The timestamp
+ * @param timeZone - IANA time zone to display the time in, the viewer's by default
+ * @param options - Extra `Intl.DateTimeFormat` options
+ *
+ * @example
+ * ```ts
+ * formatDateTime('2025-02-20T08:30:00.000Z', 'Asia/Dubai') // "Feb 20, 2025, 12:30 PM"
+ * ```
+ */
+export function formatDateTime(
+  value: string | Date,
+  timeZone?: string,
+  options?: Intl.DateTimeFormatOptions
+) {
+  return new Intl.DateTimeFormat(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone,
+    ...options,
+  }).format(new Date(value))
+}
+
+/**
+ * Short name of a time zone at a given date, e.g. "GMT+4" or "UTC"
+ */
+export function getTimeZoneName(timeZone: string, value: string | Date = new Date()) {
+  return (
+    new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(new Date(value))
+      .find((part) => part.type === 'timeZoneName')?.value ?? timeZone
+  )
+}
+
+/**
+ * Wall clock parts of a date in a time zone
+ */
+function getWallTime(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '00'
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const { year, month, day, hour, minute, second } = getWallTime(date, timeZone)
+  const wallAsUTC = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+  return wallAsUTC - (date.getTime() - date.getMilliseconds())
+}
+
+/**
+ * Converts an ISO-8601 timestamp to the value of an `<input type="datetime-local">`
+ * showing the wall clock time in the given time zone
+ *
+ * @example
+ * ```ts
+ * toDateTimeLocalValue('2025-02-20T08:30:00.000Z', 'Asia/Dubai') // '2025-02-20T12:30'
+ * ```
+ */
+export function toDateTimeLocalValue(value: string | Date, timeZone: string) {
+  const { year, month, day, hour, minute } = getWallTime(new Date(value), timeZone)
+  return `${year}-${month}-${day}T${hour}:${minute}`
+}
+
+/**
+ * Converts the value of an `<input type="datetime-local">`, read as wall clock time
+ * in the given time zone, to an ISO-8601 UTC timestamp
+ *
+ * @returns The timestamp, or `undefined` if the value is empty or invalid
+ *
+ * @example
+ * ```ts
+ * fromDateTimeLocalValue('2025-02-20T12:30', 'Asia/Dubai') // '2025-02-20T08:30:00.000Z'
+ * ```
+ */
+export function fromDateTimeLocalValue(value: string, timeZone: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value)
+  if (!match) return undefined
+
+  const [, year, month, day, hour, minute] = match.map(Number)
+  const wallAsUTC = Date.UTC(year, month - 1, day, hour, minute)
+  // Apply the offset twice so times next to a DST change resolve to the right side
+  let timestamp = wallAsUTC - getTimeZoneOffset(new Date(wallAsUTC), timeZone)
+  timestamp = wallAsUTC - getTimeZoneOffset(new Date(timestamp), timeZone)
+
+  return new Date(timestamp).toISOString()
+}
@@ -0,0 +1,145 @@
+import AuditLog, { type IAuditLog } from '@/models/audit-log.model'
+import { type INotification } from '@/models/notification.model'
+import {
+  AUDITED_FIELDS,
+  type AuditAction,
+  type AuditedField,
+  type AuditLogQuery,
+} from '@/schemas/notification.schema'
+import {
+  type AuditChange,
+  type AuditLogEntry,
+  type AuditLogResponse,
+} from '@/types/notifications.types'
+import { type FilterQuery } from 'mongoose'
+
+/**
+ * Fields to select when loading notifications whose changes will be audited
+ */
+export const AUDIT_FIELDS = ['teamId', ...AUDITED_FIELDS].join(' ')
+
+/**
+ * The parts of a notification the audit log looks at, hydrated or `lean()`
+ */
+export type AuditSnapshot = Pick<INotification, '_id' | 'teamId' | AuditedField>
+
+/**
+ * A change to record, `before` is absent for creates and `after` for purges. Moving to
+ * and restoring from the Trash only changes `deletedAt`.
+ */
+export interface AuditEvent {
+  action: AuditAction
+  before?: AuditSnapshot | null
+  after?: AuditSnapshot | null
+}
+
+const toAuditValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/**
+ * Lists the audited fields that differ between two versions of a notification
+ *
+ * @example
+ * ```ts
+ * diffNotifications(before, { ...before, status: 'Cancelled' })
+ * // [{ field: 'status', before: 'In Progress', after: 'Cancelled' }]
+ * ```
+ */
+export function diffNotifications(
+  before: AuditSnapshot | null | undefined,
+  after: AuditSnapshot | null | undefined
+): AuditChange[] {
+  return AUDITED_FIELDS.map((field) => ({
+    field,
+    before: toAuditValue(before?.[field]),
+    after: toAuditValue(after?.[field]),
+  })).filter((change) => change.before !== change.after)
+}
+
+/**
+ * Records changes made by `actor` in the audit log, updates that changed nothing are left out.
+ *
+ * Called once the changes are saved. A failure is logged rather than thrown, so the
+ * caller still reports the change that did happen.
+ *
+ * @example
+ * ```ts
+ * const before = await Notification.findByIdAndDelete(id).lean<INotification>().exec()
+ * await recordAuditLog(session.user.email, [{ action: 'purge', before }])
+ * ```
+ */
+export async function recordAuditLog(actor: string, events: AuditEvent[]) {
+  const entries = events
+    .map(({ action, before, after }) => ({
+      notificationId: (after ?? before)?._id,
+      teamId: (after ?? before)?.teamId,
+      action,
+      actor,
+      changes: diffNotifications(before, after),
+    }))
+    .filter((entry) => entry.notificationId && (entry.action !== 'update' || entry.changes.length))
+  if (!entries.length) return
+
+  try {
+    await AuditLog.insertMany(entries)
+  } catch (error) {
+    console.error('Failed to record audit log', error)
+  }
+}
+
+/**
+ * Maps an audit log document to the `AuditLogEntry` returned by the audit endpoints
+ */
+export function serializeAuditLog(
+  doc: Pick<IAuditLog, '_id' | 'notificationId' | 'action' | 'actor' | 'changes' | 'createdAt'>
+): AuditLogEntry {
+  return {
+    id: String(doc._id),
+    notificationId: String(doc.notificationId),
+    action: doc.action,
+    actor: doc.actor,
+    changes: doc.changes.map(({ field, before, after }) => ({ field, before, after })),
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Finds a page of audit log entries matching `filter` and the `action`/`actor` params,
+ * newest first
+ *
+ * @param filter - Scope of the log, e.g. `{ teamId, notificationId }` for the history of one
+ * notification
+ * @param query - Search params parsed with `auditLogQuerySchema`
+ */
+export async function findAuditLogPage(
+  filter: FilterQuery<IAuditLog>,
+  query: AuditLogQuery
+): Promise<AuditLogResponse> {
+  const { page, limit, action, actor } = query
+  const scoped: FilterQuery<IAuditLog> = { ...filter }
+  if (action.length) scoped.action = { $in: action }
+  if (actor) scoped.actor = actor
+
+  const [entries, totalCount] = await Promise.all([
+    AuditLog.find(scoped)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean<IAuditLog[]>()
+      .exec(),
+    AuditLog.countDocuments(scoped).exec(),
+  ])
+
+  return {
+    data: entries.map(serializeAuditLog),
+    metadata: {
+      mode: 'offset',
+      currentPage: page,
+      totalPages: Math.ceil(totalCount / limit),
+      pageSize: limit,
+      totalCount,
+    },
+  }
+}
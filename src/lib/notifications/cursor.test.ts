@@ -0,0 +1,55 @@
+import mongoose from 'mongoose'
+import { buildCursorFilter, decodeCursor, encodeCursor } from './cursor'
+import { InvalidQueryError } from './query'
+
+const position = {
+  dateTime: new Date('2025-03-01T10:30:00.000Z'),
+  id: '65f1c0ffee0000000000abcd',
+}
+
+describe('encodeCursor', () => {
+  it('round-trips through decodeCursor', () => {
+    expect(decodeCursor(encodeCursor(position))).toEqual(position)
+  })
+
+  it('is URL safe', () => {
+    expect(encodeCursor(position)).toMatch(/^[A-Za-z0-9_-]+$/)
+  })
+})
+
+describe('decodeCursor', () => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+  it.each([
+    ['not base64 JSON', 'not-a-cursor'],
+    ['an empty string', ''],
+    ['an invalid date', encode(['yesterday', position.id])],
+    ['a date that is not a string', encode([1740825000000, position.id])],
+    ['an invalid ObjectId', encode([position.dateTime.toISOString(), 'abc'])],
+    ['a missing id', encode([position.dateTime.toISOString()])],
+  ])('rejects %s', (_, cursor) => {
+    expect(() => decodeCursor(cursor)).toThrow(InvalidQueryError)
+  })
+})
+
+describe('buildCursorFilter', () => {
+  const _id = new mongoose.Types.ObjectId(position.id)
+
+  it('selects older notifications after the cursor, breaking ties on _id', () => {
+    expect(buildCursorFilter(position, 'after')).toEqual({
+      $or: [
+        { dateTime: { $lt: position.dateTime } },
+        { dateTime: position.dateTime, _id: { $lt: _id } },
+      ],
+    })
+  })
+
+  it('selects newer notifications before the cursor, breaking ties on _id', () => {
+    expect(buildCursorFilter(position, 'before')).toEqual({
+      $or: [
+        { dateTime: { $gt: position.dateTime } },
+        { dateTime: position.dateTime, _id: { $gt: _id } },
+      ],
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { type INotification } from '@/models/notification.model'
+import mongoose, { type FilterQuery, type SortOrder } from 'mongoose'
+import { InvalidQueryError } from './query'
+
+/**
+ * Position of a notification in the `{ dateTime: -1, _id: -1 }` keyset
+ */
+export interface CursorPosition {
+  dateTime: Date
+  id: string
+}
+
+/**
+ * Keyset order used by cursor pagination, newest first with `_id` as a tie-breaker
+ */
+export const CURSOR_SORT: Record<string, SortOrder> = { dateTime: -1, _id: -1 }
+
+/**
+ * Same keyset walked backwards, used when paging with `before`
+ */
+export const REVERSE_CURSOR_SORT: Record<string, SortOrder> = { dateTime: 1, _id: 1 }
+
+/**
+ * Encodes a keyset position into an opaque, URL safe cursor
+ */
+export function encodeCursor({ dateTime, id }: CursorPosition): string {
+  return Buffer.from(JSON.stringify([new Date(dateTime).toISOString(), id])).toString('base64url')
+}
+
+/**
+ * Decodes a cursor created by `encodeCursor`
+ *
+ * @throws {InvalidQueryError} If the cursor is malformed
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [dateTime, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    const date = new Date(dateTime)
+    if (typeof dateTime === 'string' && !isNaN(date.getTime()) && mongoose.isValidObjectId(id)) {
+      return { dateTime: date, id }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidQueryError('Invalid pagination cursor')
+}
+
+/**
+ * Builds the filter selecting the notifications after (older than) or before (newer than)
+ * a cursor position in the `{ dateTime: -1, _id: -1 }` keyset.
+ *
+ * @param position - The decoded cursor position
+ * @param direction - `after` for the next page, `before` for the previous page
+ */
+export function buildCursorFilter(
+  { dateTime, id }: CursorPosition,
+  direction: 'after' | 'before'
+): FilterQuery<INotification> {
+  const operator = direction === 'after' ? '$lt' : '$gt'
+  const _id = new mongoose.Types.ObjectId(id)
+
+  return {
+    $or: [{ dateTime: { [operator]: dateTime } }, { dateTime, _id: { [operator]: _id } }],
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Entity tags for optimistic concurrency control.
+ *
+ * Every update increments the notification's version (`__v`). Its ETag is sent with
+ * the notification and must be sent back in `If-Match` so updates made against
+ * a stale copy are rejected with 409 instead of silently overwriting newer changes.
+ */
+
+/**
+ * Formats a notification version as a strong ETag
+ *
+ * @example
+ * ```ts
+ * toETag(3) // '"3"'
+ * ```
+ */
+export const toETag = (version: number) => `"${version}"`
+
+/**
+ * Parses an `If-Match` header holding a single ETag created by `toETag`
+ *
+ * @returns The expected version, `undefined` if the header is absent or `*`,
+ * or `null` if it is malformed
+ *
+ * @example
+ * ```ts
+ * parseIfMatch('"3"') // 3
+ * parseIfMatch(null) // undefined
+ * parseIfMatch('nope') // null
+ * ```
+ */
+export function parseIfMatch(header: string | null): number | undefined | null {
+  const value = header?.trim()
+  if (!value || value === '*') return undefined
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(value)
+  return match ? Number(match[1]) : null
+}
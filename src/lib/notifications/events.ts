@@ -0,0 +1,86 @@
+import { type NotificationEvent } from '@/types/notifications.types'
+import { EventEmitter } from 'events'
+
+/**
+ * Name of the emitter event every notification event is sent as
+ */
+const CHANNEL = 'notification'
+
+/**
+ * Fans the changes made to the notifications out to the open streams
+ */
+export interface NotificationEventBus {
+  publish: (event: NotificationEvent) => void
+  /** @returns A function that stops sending events to `listener` */
+  subscribe: (listener: (event: NotificationEvent) => void) => () => void
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var notificationEventBus: NotificationEventBus | undefined
+}
+
+/**
+ * Bus delivering events to the listeners of this server instance only. Another instance
+ * doesn't see them, spreading them across instances takes a bus backed by Mongo change
+ * streams or a message broker behind the same interface.
+ */
+function createInProcessEventBus(): NotificationEventBus {
+  const emitter = new EventEmitter()
+  // Every open stream is a listener
+  emitter.setMaxListeners(0)
+
+  return {
+    publish: (event) => {
+      emitter.emit(CHANNEL, event)
+    },
+    subscribe: (listener) => {
+      // A failing stream must not fail the request that made the change
+      const safeListener = (event: NotificationEvent) => {
+        try {
+          listener(event)
+        } catch (error) {
+          console.error('Notification event listener failed', error)
+        }
+      }
+      emitter.on(CHANNEL, safeListener)
+      return () => {
+        emitter.off(CHANNEL, safeListener)
+      }
+    },
+  }
+}
+
+/**
+ * The event bus of this server instance. Kept on `globalThis` so route handlers, the
+ * scheduler and modules evaluated again by hot reloads share a single one.
+ */
+export function getNotificationEventBus(): NotificationEventBus {
+  globalThis.notificationEventBus ??= createInProcessEventBus()
+  return globalThis.notificationEventBus
+}
+
+/**
+ * Team of the notification an event is about, streams and webhooks only get the events
+ * of their own team
+ */
+export const getEventTeamId = (event: NotificationEvent) =>
+  event.type === 'deleted' ? event.teamId : event.notification.teamId
+
+/**
+ * Publishes changes to the notifications, called once they are saved
+ *
+ * @example
+ * ```ts
+ * const notification = await Notification.create(fields)
+ * publishNotificationEvents([
+ *   { type: 'created', notification: serializeNotification(notification) },
+ * ])
+ * ```
+ */
+export function publishNotificationEvents(events: NotificationEvent[]) {
+  const bus = getNotificationEventBus()
+  for (const event of events) {
+    bus.publish(event)
+  }
+}
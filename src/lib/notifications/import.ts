@@ -0,0 +1,82 @@
+import { type ImportField, IMPORT_FIELDS } from '@/schemas/notification.schema'
+
+/**
+ * Index of the CSV column mapped to each notification field, unmapped fields are absent
+ */
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+/**
+ * Header names recognized for each field besides the field name itself
+ */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  type: ['kind', 'media type'],
+  space: ['size', 'dimensions', 'placement'],
+  country: [],
+  city: ['location'],
+  status: ['state'],
+  dateTime: ['date', 'datetime', 'date time', 'time'],
+  scheduledAt: ['scheduled', 'scheduled at', 'start', 'starts', 'starts at'],
+  endsAt: ['ends', 'ends at', 'end', 'expires'],
+  cancellationReason: ['cancellation reason', 'reason'],
+}
+
+/**
+ * Fields holding a date and time
+ */
+export const DATE_FIELDS: ImportField[] = ['dateTime', 'scheduledAt', 'endsAt']
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ')
+
+/**
+ * Maps the CSV columns whose header matches a field name or alias, so files using
+ * the export's own columns need no manual mapping
+ *
+ * @example
+ * ```ts
+ * guessColumnMapping(['City', 'Type', 'Date']) // { city: 0, type: 1, dateTime: 2 }
+ * ```
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const mapping: ColumnMapping = {}
+
+  for (const field of IMPORT_FIELDS) {
+    const names = [field.toLowerCase(), ...HEADER_ALIASES[field]]
+    const index = normalized.findIndex((header) => names.includes(header))
+    if (index !== -1) mapping[field] = index
+  }
+
+  return mapping
+}
+
+/**
+ * Builds the notification fields of one CSV row from the column mapping.
+ *
+ * Values are trimmed and empty ones left out, so optional fields fall back to their
+ * defaults. Dates the browser can parse are converted to ISO-8601, others are kept
+ * as is for validation to report.
+ *
+ * @example
+ * ```ts
+ * toImportRow(['Dubai', 'Photo', '2025-02-20 12:30'], { city: 0, type: 1, dateTime: 2 })
+ * // { city: 'Dubai', type: 'Photo', dateTime: '2025-02-20T08:30:00.000Z' } in Dubai
+ * ```
+ */
+export function toImportRow(fields: string[], mapping: ColumnMapping): Record<string, string> {
+  const row: Record<string, string> = {}
+
+  for (const field of IMPORT_FIELDS) {
+    const index = mapping[field]
+    const value = index === undefined ? '' : (fields[index] ?? '').trim()
+    if (!value) continue
+
+    if (DATE_FIELDS.includes(field)) {
+      const date = new Date(value)
+      row[field] = isNaN(date.getTime()) ? value : date.toISOString()
+    } else {
+      row[field] = value
+    }
+  }
+
+  return row
+}
@@ -0,0 +1,119 @@
+import { type INotification } from '@/models/notification.model'
+import { type NotificationQuery } from '@/schemas/notification.schema'
+import mongoose, { type FilterQuery, type SortOrder } from 'mongoose'
+
+/**
+ * Fields matched by the free-text `query` param
+ */
+const SEARCHABLE_FIELDS = ['type', 'space', 'country', 'city', 'status'] as const
+
+/**
+ * Sort applied when the request does not specify one, matches the `{ dateTime: -1 }` index
+ */
+const DEFAULT_SORT: Record<string, SortOrder> = { dateTime: -1, _id: -1 }
+
+/**
+ * Thrown when valid looking params still cannot be turned into a query, e.g. a bad cursor
+ */
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidQueryError'
+  }
+}
+
+/**
+ * Matches the notifications that are not in the Trash, including documents created
+ * before soft deletes that have no `deletedAt` at all
+ */
+export const NOT_DELETED: FilterQuery<INotification> = { deletedAt: null }
+
+/**
+ * Matches the notifications in the Trash
+ */
+export const IN_TRASH: FilterQuery<INotification> = { deletedAt: { $ne: null } }
+
+/**
+ * Escapes RegExp special characters so user input is matched literally
+ */
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Builds the Mongo filter for the notifications list from the parsed query.
+ * The same filter must be used for both `find` and `countDocuments` so the
+ * pagination metadata reflects the filtered set.
+ *
+ * Only the notifications of `teamId` match. Notifications in the Trash are excluded,
+ * unless `trash` is set to list only those.
+ *
+ * @param query - Search params parsed with `notificationQuerySchema`
+ * @param options.teamId - Active team of the signed-in user
+ * @param options.trash - List the notifications in the Trash instead
+ * @returns Mongo filter for the `Notification` model, usable in aggregations as well
+ *
+ * @example
+ * ```ts
+ * // /api/notifications?query=dubai&status=Delivered,Cancelled&type=Photo
+ * buildNotificationFilter(query, { teamId })
+ * // {
+ * //   teamId: ObjectId('65f1c0ffee0000000000f00d'),
+ * //   deletedAt: null,
+ * //   status: { $in: ['Delivered', 'Cancelled'] },
+ * //   type: { $in: ['Photo'] },
+ * //   $or: [{ type: /dubai/i }, { space: /dubai/i }, ...]
+ * // }
+ * ```
+ */
+export function buildNotificationFilter(
+  query: Pick<NotificationQuery, 'status' | 'type' | 'query'>,
+  { teamId, trash = false }: { teamId: string; trash?: boolean }
+): FilterQuery<INotification> {
+  const filter: FilterQuery<INotification> = {
+    // Aggregations don't cast strings to ObjectIds
+    teamId: new mongoose.Types.ObjectId(teamId),
+    ...(trash ? IN_TRASH : NOT_DELETED),
+  }
+
+  if (query.status.length) filter.status = { $in: query.status }
+  if (query.type.length) filter.type = { $in: query.type }
+
+  if (query.query) {
+    const pattern = new RegExp(escapeRegExp(query.query), 'i')
+    filter.$or = SEARCHABLE_FIELDS.map((field) => ({ [field]: pattern }))
+  }
+
+  return filter
+}
+
+/**
+ * Builds the Mongo sort for the notifications list from the parsed query.
+ *
+ * `sort` lists the fields and `order` the matching directions. Missing directions
+ * repeat the last one given (`asc` if none), and `_id` is always appended as a
+ * tie-breaker so pages are stable.
+ *
+ * @param query - Search params parsed with `notificationQuerySchema`
+ * @returns Mongo sort for the `Notification` model
+ *
+ * @example
+ * ```ts
+ * // /api/notifications?sort=country,city&order=asc,desc
+ * buildNotificationSort(query)
+ * // { country: 1, city: -1, _id: -1 }
+ * ```
+ */
+export function buildNotificationSort(
+  query: Pick<NotificationQuery, 'sort' | 'order'>
+): Record<string, SortOrder> {
+  const { sort: fields, order: orders } = query
+  if (!fields.length) return DEFAULT_SORT
+
+  const sort: Record<string, SortOrder> = {}
+  fields.forEach((field, index) => {
+    const order = orders[index] ?? orders[orders.length - 1] ?? 'asc'
+    sort[field] = order === 'asc' ? 1 : -1
+  })
+  sort._id = sort[fields[fields.length - 1]]
+
+  return sort
+}
@@ -0,0 +1,200 @@
+import { recordAuditLog } from '@/lib/notifications/audit'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import { NOT_DELETED } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import { applyStatusTransition } from '@/lib/notifications/status'
+import Notification, { type INotification } from '@/models/notification.model'
+import NotificationReceipt, { type INotificationReceipt } from '@/models/notification-receipt.model'
+import {
+  RECEIPT_FAILURE_REASON,
+  RECEIPT_NOTIFICATION_STATUSES,
+  type ReceiptInput,
+} from '@/schemas/receipt.schema'
+import { type NotificationReceiptResult } from '@/types/notifications.types'
+import mongoose from 'mongoose'
+
+/**
+ * Times a receipt is applied again when the notification changes between reading and
+ * updating it
+ */
+const MAX_RECEIPT_ATTEMPTS = 3
+
+/**
+ * Actor the audit log names for changes made by receipts, followed by their `source`
+ */
+const RECEIPT_ACTOR = 'receipt'
+
+/**
+ * Environment variable holding the secret receipts are signed with
+ */
+export const RECEIPTS_SECRET_ENV = 'RECEIPTS_SECRET'
+
+/**
+ * Secret receipts must be signed with, `undefined` when receipts are not accepted
+ */
+export const getReceiptsSecret = (): string | undefined =>
+  process.env[RECEIPTS_SECRET_ENV]?.trim() || undefined
+
+/**
+ * Outcome of `processReceipt`
+ * - `applied` the receipt was recorded, now or by an earlier request when `duplicate`
+ * - `reused` the receipt ID was already used for another notification or status
+ * - `not_found` the notification doesn't exist or is in the Trash
+ * - `rejected` the status can't move to the reported one, see `STATUS_TRANSITIONS`
+ */
+export type ReceiptOutcome =
+  | { result: 'applied'; receipt: NotificationReceiptResult }
+  | { result: 'reused' }
+  | { result: 'not_found' }
+  | { result: 'rejected'; errors: Record<string, string[]>; current: INotification }
+
+const isDuplicateKeyError = (error: unknown) =>
+  error instanceof mongoose.mongo.MongoServerError && error.code === 11000
+
+function serializeReceipt(
+  doc: Pick<
+    INotificationReceipt,
+    | 'receiptId'
+    | 'notificationId'
+    | 'status'
+    | 'previousStatus'
+    | 'notificationStatus'
+    | 'createdAt'
+  >,
+  duplicate: boolean
+): NotificationReceiptResult {
+  return {
+    receiptId: doc.receiptId,
+    notificationId: String(doc.notificationId),
+    status: doc.status,
+    previousStatus: doc.previousStatus,
+    notificationStatus: doc.notificationStatus,
+    duplicate,
+    receivedAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * The receipt recorded under `input.receiptId` as a duplicate, or `reused` when that ID
+ * was recorded for another notification or status
+ */
+function toDuplicate(doc: INotificationReceipt, input: ReceiptInput): ReceiptOutcome {
+  if (String(doc.notificationId) !== input.notificationId || doc.status !== input.status) {
+    return { result: 'reused' }
+  }
+  return { result: 'applied', receipt: serializeReceipt(doc, true) }
+}
+
+/**
+ * Moves the notification to the status a receipt reports, the same way an edit does:
+ * the change is checked with `applyStatusTransition`, written conditionally on the
+ * version it was checked against, recorded in the audit log and published on the event
+ * stream. A notification that already has the status is left as it is.
+ *
+ * @returns The notification before and after, equal if it was left as it is
+ */
+async function applyReceipt(
+  { notificationId, status, reason, source }: ReceiptInput,
+  now: Date
+): Promise<
+  | { before: INotification; after: INotification }
+  | Extract<ReceiptOutcome, { result: 'not_found' | 'rejected' }>
+> {
+  const to = RECEIPT_NOTIFICATION_STATUSES[status]
+  const cancellationReason =
+    to === 'Cancelled'
+      ? reason
+        ? `${RECEIPT_FAILURE_REASON}: ${reason}`
+        : RECEIPT_FAILURE_REASON
+      : undefined
+
+  for (let attempt = 1; ; attempt++) {
+    const before = await Notification.findOne({ _id: notificationId, ...NOT_DELETED })
+      .lean<INotification>()
+      .exec()
+    if (!before) return { result: 'not_found' }
+    if (before.status === to) return { before, after: before }
+
+    const transition = applyStatusTransition(before.status, { status: to, cancellationReason }, now)
+    if ('errors' in transition) {
+      return { result: 'rejected', errors: transition.errors, current: before }
+    }
+
+    // Only applies if nobody changed the notification since it was read above
+    const after = await Notification.findOneAndUpdate(
+      { _id: notificationId, ...NOT_DELETED, __v: before.__v },
+      { ...transition.changes, $inc: { __v: 1 } },
+      { new: true, runValidators: true }
+    )
+      .lean<INotification>()
+      .exec()
+
+    if (after) {
+      const actor = source ? `${RECEIPT_ACTOR}:${source}` : RECEIPT_ACTOR
+      await recordAuditLog(actor, [{ action: 'update', before, after }])
+      publishNotificationEvents([
+        {
+          type: 'updated',
+          notification: serializeNotification(after),
+          previousStatus: before.status,
+        },
+      ])
+      return { before, after }
+    }
+    if (attempt >= MAX_RECEIPT_ATTEMPTS) {
+      throw new Error(`Notification ${notificationId} kept changing while applying a receipt`)
+    }
+  }
+}
+
+/**
+ * Applies a delivery receipt once. A receipt whose `receiptId` was already recorded is
+ * answered with the recorded outcome and changes nothing, including when the same
+ * receipt is sent twice at once: the unique `receiptId` index lets a single request
+ * record it, and the other one finds the notification already has the status.
+ *
+ * Only applied receipts are recorded, a rejected one can be sent again once it can apply.
+ *
+ * @example
+ * ```ts
+ * const outcome = await processReceipt({
+ *   receiptId: 'player-17:42',
+ *   notificationId: '65f1c0ffee0000000000abcd',
+ *   status: 'delivered',
+ * })
+ * // { result: 'applied', receipt: { previousStatus: 'In Progress', notificationStatus: 'Delivered', duplicate: false, ... } }
+ * ```
+ */
+export async function processReceipt(
+  input: ReceiptInput,
+  now = new Date()
+): Promise<ReceiptOutcome> {
+  const recorded = await NotificationReceipt.findOne({ receiptId: input.receiptId })
+    .lean<INotificationReceipt>()
+    .exec()
+  if (recorded) return toDuplicate(recorded, input)
+
+  const applied = await applyReceipt(input, now)
+  if ('result' in applied) return applied
+
+  try {
+    const receipt = await NotificationReceipt.create({
+      receiptId: input.receiptId,
+      notificationId: input.notificationId,
+      status: input.status,
+      reason: input.reason ?? null,
+      source: input.source ?? null,
+      previousStatus: applied.before.status,
+      notificationStatus: applied.after.status,
+    })
+    return { result: 'applied', receipt: serializeReceipt(receipt, false) }
+  } catch (error) {
+    // Another request recorded the same receipt in the meantime
+    if (!isDuplicateKeyError(error)) throw error
+    const existing = await NotificationReceipt.findOne({ receiptId: input.receiptId })
+      .lean<INotificationReceipt>()
+      .exec()
+    if (!existing) throw error
+    return toDuplicate(existing, input)
+  }
+}
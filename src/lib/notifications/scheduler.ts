@@ -0,0 +1,158 @@
+import dbConnect from '@/lib/dbConnect'
+import { recordAuditLog } from '@/lib/notifications/audit'
+import { publishNotificationEvents } from '@/lib/notifications/events'
+import { NOT_DELETED } from '@/lib/notifications/query'
+import { serializeNotification } from '@/lib/notifications/serialize'
+import { applyStatusTransition } from '@/lib/notifications/status'
+import Notification, { type INotification } from '@/models/notification.model'
+import { type NotificationStatus } from '@/schemas/notification.schema'
+import { type FilterQuery } from 'mongoose'
+
+/**
+ * Seconds between two runs when `SCHEDULER_INTERVAL_SECONDS` is not set
+ */
+const DEFAULT_SCHEDULER_INTERVAL_SECONDS = 60
+
+/**
+ * Most notifications a run moves per step, the rest wait for the next run
+ */
+const SCHEDULER_BATCH_SIZE = 100
+
+/**
+ * Actor the audit log names for changes made by the scheduler
+ */
+const SCHEDULER_ACTOR = 'scheduler'
+
+declare global {
+  // eslint-disable-next-line no-var
+  var notificationScheduler: NodeJS.Timeout | undefined
+}
+
+interface SchedulerStep {
+  from: NotificationStatus
+  to: NotificationStatus
+  /** Notifications of status `from` that are due at `now` */
+  due: (now: Date) => FilterQuery<INotification>
+}
+
+/**
+ * Starts the scheduled notifications once `scheduledAt` has passed, and the ones whose
+ * `scheduledAt` was cleared
+ */
+const START_STEP: SchedulerStep = {
+  from: 'Scheduled',
+  to: 'In Progress',
+  due: (now) => ({ $or: [{ scheduledAt: { $lte: now } }, { scheduledAt: null }] }),
+}
+
+/**
+ * Delivers the running notifications once `endsAt` has passed
+ */
+const END_STEP: SchedulerStep = {
+  from: 'In Progress',
+  to: 'Delivered',
+  due: (now) => ({ endsAt: { $lte: now } }),
+}
+
+/**
+ * Seconds between two scheduler runs, configured with the `SCHEDULER_INTERVAL_SECONDS`
+ * environment variable. `0` disables the scheduler on this instance.
+ *
+ * @example
+ * ```ts
+ * // SCHEDULER_INTERVAL_SECONDS=15
+ * getSchedulerInterval() // 15
+ * ```
+ */
+export function getSchedulerInterval(): number {
+  const seconds = Number(
+    process.env.SCHEDULER_INTERVAL_SECONDS ?? DEFAULT_SCHEDULER_INTERVAL_SECONDS
+  )
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_SCHEDULER_INTERVAL_SECONDS
+}
+
+/**
+ * Moves the due notifications of one step, one at a time.
+ *
+ * Each move is a single conditional `findOneAndUpdate` on the `from` status, so when
+ * several instances run the scheduler at once a notification is claimed by exactly one
+ * of them, the others no longer match it. Only the instance that moved it records the
+ * change in the audit log and publishes it.
+ */
+async function runSchedulerStep({ from, to, due }: SchedulerStep, now: Date) {
+  const transition = applyStatusTransition(from, { status: to }, now)
+  if ('errors' in transition) {
+    throw new Error(`The scheduler can't move notifications from ${from} to ${to}`)
+  }
+
+  let moved = 0
+  while (moved < SCHEDULER_BATCH_SIZE) {
+    const before = await Notification.findOneAndUpdate(
+      { ...NOT_DELETED, status: from, ...due(now) },
+      { ...transition.changes, $inc: { __v: 1 } },
+      { new: false }
+    )
+      .lean<INotification>()
+      .exec()
+    if (!before) break
+
+    const after = { ...before, ...transition.changes, __v: before.__v + 1, updatedAt: now }
+    await recordAuditLog(SCHEDULER_ACTOR, [{ action: 'update', before, after }])
+    publishNotificationEvents([
+      { type: 'updated', notification: serializeNotification(after), previousStatus: from },
+    ])
+    moved++
+  }
+  return moved
+}
+
+/**
+ * Starts the scheduled notifications that are due and delivers the ones that ended
+ *
+ * @returns How many notifications were started and delivered
+ *
+ * @example
+ * ```ts
+ * await runScheduler() // { started: 2, delivered: 0 }
+ * ```
+ */
+export async function runScheduler(now = new Date()) {
+  await dbConnect()
+
+  // Starting first delivers a notification that started and ended since the last run
+  const started = await runSchedulerStep(START_STEP, now)
+  const delivered = await runSchedulerStep(END_STEP, now)
+  return { started, delivered }
+}
+
+/**
+ * Runs the scheduler every `getSchedulerInterval()` seconds in the background, called
+ * once per server instance from `instrumentation.ts`. A run that fails is logged and
+ * retried on the next one, a run still going when the next is due is not overlapped.
+ */
+export function startScheduler() {
+  const seconds = getSchedulerInterval()
+  // Hot reloads in development evaluate this module again, keep a single loop
+  if (!seconds || globalThis.notificationScheduler) return
+
+  let running = false
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      const { started, delivered } = await runScheduler()
+      if (started || delivered) {
+        console.log(`Scheduler started ${started} and delivered ${delivered} notifications`)
+      }
+    } catch (error) {
+      console.error('Scheduler run failed', error)
+    } finally {
+      running = false
+    }
+  }
+
+  globalThis.notificationScheduler = setInterval(tick, seconds * 1000)
+  // Don't keep the process alive just for the scheduler
+  globalThis.notificationScheduler.unref()
+  void tick()
+}
@@ -0,0 +1,67 @@
+import { type INotification } from '@/models/notification.model'
+import { type Notification } from '@/types/notifications.types'
+
+/**
+ * Any shape a notification comes out of Mongoose in, hydrated or `lean()`
+ */
+type NotificationSource = Pick<
+  INotification,
+  | '_id'
+  | 'teamId'
+  | 'type'
+  | 'space'
+  | 'country'
+  | 'city'
+  | 'dateTime'
+  | 'status'
+  | 'createdAt'
+  | 'updatedAt'
+  | '__v'
+> &
+  Partial<
+    Pick<
+      INotification,
+      'scheduledAt' | 'endsAt' | 'deliveredAt' | 'cancelledAt' | 'cancellationReason' | 'deletedAt'
+    >
+  >
+
+const toISOString = (value: Date | string | number) => new Date(value).toISOString()
+
+const toOptionalISOString = (value: Date | null | undefined) => (value ? toISOString(value) : null)
+
+/**
+ * Maps a notification document to the `Notification` DTO returned by every API handler.
+ *
+ * Only the public fields are exposed, `_id` as `id` and `__v` as `version`, and all
+ * timestamps are ISO-8601 strings, formatting them for display is left to the client.
+ *
+ * @param doc - Hydrated or lean notification document
+ * @returns The notification DTO
+ *
+ * @example
+ * ```ts
+ * const doc = await Notification.findById(id).lean<INotification>().exec()
+ * return NextResponse.json(serializeNotification(doc))
+ * ```
+ */
+export function serializeNotification(doc: NotificationSource): Notification {
+  return {
+    id: String(doc._id),
+    teamId: String(doc.teamId),
+    type: doc.type,
+    space: doc.space,
+    country: doc.country,
+    city: doc.city,
+    dateTime: toISOString(doc.dateTime),
+    status: doc.status,
+    scheduledAt: toOptionalISOString(doc.scheduledAt),
+    endsAt: toOptionalISOString(doc.endsAt),
+    deliveredAt: toOptionalISOString(doc.deliveredAt),
+    cancelledAt: toOptionalISOString(doc.cancelledAt),
+    cancellationReason: doc.cancellationReason ?? null,
+    createdAt: toISOString(doc.createdAt),
+    updatedAt: toISOString(doc.updatedAt),
+    version: doc.__v ?? 0,
+    deletedAt: toOptionalISOString(doc.deletedAt),
+  }
+}
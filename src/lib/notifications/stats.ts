@@ -0,0 +1,201 @@
+import Notification, { type INotification } from '@/models/notification.model'
+import {
+  NOTIFICATION_STATUSES,
+  NOTIFICATION_TYPES,
+  type NotificationStatus,
+  STATS_INTERVAL_MS,
+  type StatsInterval,
+  type StatsQuery,
+} from '@/schemas/notification.schema'
+import { type NotificationStats, type StatsBucket } from '@/types/notifications.types'
+import { type FilterQuery, type PipelineStage } from 'mongoose'
+
+/**
+ * Buckets the time series covers when `from` is not given
+ */
+const DEFAULT_BUCKETS: Record<StatsInterval, number> = {
+  hour: 48,
+  day: 30,
+  week: 26,
+}
+
+/**
+ * Most buckets a time series may have
+ */
+export const MAX_STATS_BUCKETS = 1000
+
+type CountRow<T = string> = { _id: T; count: number }
+
+type BucketRow = { _id: Date; total: number } & Record<NotificationStatus, number>
+
+interface StatsFacets {
+  total: { count: number }[]
+  today: { delivered: number; cancelled: number }[]
+  byStatus: CountRow<NotificationStatus>[]
+  byType: CountRow[]
+  byCountry: CountRow[]
+  byCity: CountRow<{ country: string; city: string }>[]
+  series: BucketRow[]
+}
+
+/**
+ * Range the time series covers, `to` defaults to now and `from` to a number of buckets
+ * before it that suits the interval
+ *
+ * @example
+ * ```ts
+ * getStatsRange({ interval: 'day' })
+ * // { from: 30 days ago, to: now }
+ * ```
+ */
+export function getStatsRange({
+  interval,
+  from,
+  to,
+}: Pick<StatsQuery, 'interval' | 'from' | 'to'>) {
+  const end = to ? new Date(to) : new Date()
+  const start = from
+    ? new Date(from)
+    : new Date(end.getTime() - DEFAULT_BUCKETS[interval] * STATS_INTERVAL_MS[interval])
+
+  return {
+    from: start,
+    to: end,
+    buckets: Math.ceil((end.getTime() - start.getTime()) / STATS_INTERVAL_MS[interval]),
+  }
+}
+
+/**
+ * Percentage of `count` in `total` with one decimal, 0 when there is nothing to count
+ */
+const toRate = (count: number, total: number) =>
+  total ? Math.round((count / total) * 1000) / 10 : 0
+
+/**
+ * Turns `{ _id, count }` rows into a record listing every one of `keys`
+ */
+const toCounts = <K extends string>(keys: readonly K[], rows: CountRow[]) =>
+  Object.fromEntries(
+    keys.map((key) => [key, rows.find((row) => row._id === key)?.count ?? 0])
+  ) as Record<K, number>
+
+/**
+ * Aggregates the notifications matching `filter` in a single `$facet`: counts per
+ * status, type, country and city, of the ones delivered or cancelled today, and per
+ * bucket of `dateTime` between `from` and `to`.
+ *
+ * Buckets start at the beginning of the hour, day or week (on Monday) in `timeZone`.
+ *
+ * @param filter - Filter built with `buildNotificationFilter`
+ * @param query - Search params parsed with `statsQuerySchema`
+ *
+ * @example
+ * ```ts
+ * const stats = await getNotificationStats(buildNotificationFilter(query, { teamId }), {
+ *   interval: 'week',
+ *   timeZone: 'Asia/Dubai',
+ *   top: 5,
+ * })
+ * stats.series.buckets // [{ start: '2025-02-16T20:00:00.000Z', total: 12, byStatus: {...} }]
+ * ```
+ */
+export async function getNotificationStats(
+  filter: FilterQuery<INotification>,
+  query: StatsQuery
+): Promise<NotificationStats> {
+  const { interval, timeZone, top } = query
+  const { from, to } = getStatsRange(query)
+
+  // Midnight in `timeZone`
+  const startOfToday = { $dateTrunc: { date: '$$NOW', unit: 'day', timezone: timeZone } }
+  const sinceToday = (field: string) => ({
+    $sum: { $cond: [{ $gte: [`$${field}`, startOfToday] }, 1, 0] },
+  })
+
+  const countBy = (key: string | Record<string, string>): PipelineStage.FacetPipelineStage[] => [
+    { $group: { _id: key, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+  ]
+
+  const [facets] = await Notification.aggregate<StatsFacets>([
+    { $match: filter },
+    {
+      $facet: {
+        total: [{ $count: 'count' }],
+        // `null` sorts before any date, so notifications not delivered or cancelled don't count
+        today: [
+          {
+            $group: {
+              _id: null,
+              delivered: sinceToday('deliveredAt'),
+              cancelled: sinceToday('cancelledAt'),
+            },
+          },
+        ],
+        byStatus: countBy('$status'),
+        byType: countBy('$type'),
+        byCountry: [...countBy('$country'), { $limit: top }],
+        // The same city name can exist in several countries
+        byCity: [...countBy({ country: '$country', city: '$city' }), { $limit: top }],
+        series: [
+          { $match: { dateTime: { $gte: from, $lt: to } } },
+          {
+            $group: {
+              _id: {
+                $dateTrunc: {
+                  date: '$dateTime',
+                  unit: interval,
+                  timezone: timeZone,
+                  ...(interval === 'week' && { startOfWeek: 'monday' }),
+                },
+              },
+              total: { $sum: 1 },
+              ...Object.fromEntries(
+                NOTIFICATION_STATUSES.map((status) => [
+                  status,
+                  { $sum: { $cond: [{ $eq: ['$status', status] }, 1, 0] } },
+                ])
+              ),
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+      },
+    },
+  ])
+
+  const total = facets.total[0]?.count ?? 0
+  const byStatus = toCounts(NOTIFICATION_STATUSES, facets.byStatus)
+  const buckets: StatsBucket[] = facets.series.map((row) => ({
+    start: row._id.toISOString(),
+    total: row.total,
+    byStatus: Object.fromEntries(
+      NOTIFICATION_STATUSES.map((status) => [status, row[status]])
+    ) as Record<NotificationStatus, number>,
+  }))
+
+  return {
+    total,
+    today: {
+      delivered: facets.today[0]?.delivered ?? 0,
+      cancelled: facets.today[0]?.cancelled ?? 0,
+    },
+    deliveryRate: toRate(byStatus.Delivered, total),
+    cancellationRate: toRate(byStatus.Cancelled, total),
+    byStatus,
+    byType: toCounts(NOTIFICATION_TYPES, facets.byType),
+    byCountry: facets.byCountry.map(({ _id, count }) => ({ country: _id, count })),
+    byCity: facets.byCity.map(({ _id, count }) => ({
+      country: _id.country,
+      city: _id.city,
+      count,
+    })),
+    series: {
+      interval,
+      timeZone,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      buckets,
+    },
+  }
+}
@@ -0,0 +1,71 @@
+import { applyStatusTransition } from './status'
+
+const now = new Date('2025-03-01T10:30:00.000Z')
+
+describe('applyStatusTransition', () => {
+  it('stamps deliveredAt when a notification is delivered', () => {
+    expect(applyStatusTransition('In Progress', { status: 'Delivered' }, now)).toEqual({
+      changes: { status: 'Delivered', deliveredAt: now },
+    })
+  })
+
+  it('stamps cancelledAt and keeps the reason when a notification is cancelled', () => {
+    const transition = applyStatusTransition(
+      'Scheduled',
+      { status: 'Cancelled', cancellationReason: 'Client withdrew' },
+      now
+    )
+    expect(transition).toEqual({
+      changes: { status: 'Cancelled', cancelledAt: now, cancellationReason: 'Client withdrew' },
+    })
+  })
+
+  it('starts a scheduled notification without stamping anything', () => {
+    expect(applyStatusTransition('Scheduled', { status: 'In Progress' }, now)).toEqual({
+      changes: { status: 'In Progress' },
+    })
+  })
+
+  it('leaves the timestamps alone when the status stays the same', () => {
+    expect(applyStatusTransition('Delivered', { status: 'Delivered' }, now)).toEqual({
+      changes: { status: 'Delivered' },
+    })
+    expect(applyStatusTransition('In Progress', {}, now)).toEqual({ changes: {} })
+  })
+
+  it('lets a cancelled notification change its reason', () => {
+    expect(applyStatusTransition('Cancelled', { cancellationReason: 'Duplicate' }, now)).toEqual({
+      changes: { cancellationReason: 'Duplicate' },
+    })
+  })
+
+  it.each([
+    ['Delivered', 'In Progress'],
+    ['Delivered', 'Cancelled'],
+    ['Cancelled', 'Delivered'],
+    ['Scheduled', 'Delivered'],
+    ['In Progress', 'Scheduled'],
+  ] as const)('rejects moving from %s to %s', (from, status) => {
+    const transition = applyStatusTransition(from, { status, cancellationReason: 'Late' }, now)
+    expect(transition).toEqual({
+      errors: { status: [expect.stringContaining(`from ${from} to ${status}`)] },
+    })
+  })
+
+  it('requires a reason to cancel', () => {
+    expect(applyStatusTransition('In Progress', { status: 'Cancelled' }, now)).toEqual({
+      errors: { cancellationReason: ['A reason is required to cancel a notification'] },
+    })
+  })
+
+  it('rejects a reason on a notification that is not cancelled', () => {
+    const transition = applyStatusTransition(
+      'In Progress',
+      { status: 'Delivered', cancellationReason: 'Late' },
+      now
+    )
+    expect(transition).toEqual({
+      errors: { cancellationReason: ['Only cancelled notifications have a cancellation reason'] },
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import { type INotification } from '@/models/notification.model'
+import { getStatusTransitionErrors, type NotificationStatus } from '@/schemas/notification.schema'
+
+/**
+ * Status fields a create or update writes
+ */
+export type StatusChanges = Partial<
+  Pick<INotification, 'status' | 'deliveredAt' | 'cancelledAt' | 'cancellationReason'>
+>
+
+/**
+ * Turns the `status` and `cancellationReason` of a create or update into the fields to
+ * write, after checking the change with `getStatusTransitionErrors`.
+ *
+ * Entering `Delivered` or `Cancelled` stamps `deliveredAt` or `cancelledAt` with `now`,
+ * keeping the same status leaves them as they are.
+ *
+ * @param from - Current status, `INITIAL_STATUS` for a new notification
+ * @returns The fields to write, or the messages per field if the change is not allowed
+ *
+ * @example
+ * ```ts
+ * const { status, cancellationReason, ...fields } = parsed.data
+ * const transition = applyStatusTransition(current.status, { status, cancellationReason })
+ * if ('errors' in transition) return statusTransitionProblem(transition.errors)
+ * await Notification.updateOne({ _id: id }, { ...fields, ...transition.changes })
+ * ```
+ */
+export function applyStatusTransition(
+  from: NotificationStatus,
+  input: { status?: NotificationStatus; cancellationReason?: string },
+  now = new Date()
+): { errors: Record<string, string[]> } | { changes: StatusChanges } {
+  const errors = getStatusTransitionErrors(from, input)
+  if (errors) return { errors }
+
+  const to = input.status ?? from
+  const changes: StatusChanges = {}
+  if (input.status) changes.status = to
+  if (to !== from && to === 'Delivered') changes.deliveredAt = now
+  if (to !== from && to === 'Cancelled') changes.cancelledAt = now
+  if (input.cancellationReason) changes.cancellationReason = input.cancellationReason
+
+  return { changes }
+}
@@ -0,0 +1,20 @@
+/**
+ * Days a deleted notification is kept in the Trash when `TRASH_RETENTION_DAYS` is not set
+ */
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * Days a deleted notification can be restored from the Trash before it is purged,
+ * configured with the `TRASH_RETENTION_DAYS` environment variable. The TTL index on
+ * `deletedAt` purges it, without an audit log entry.
+ *
+ * @example
+ * ```ts
+ * // TRASH_RETENTION_DAYS=7
+ * getTrashRetentionDays() // 7
+ * ```
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
@@ -0,0 +1,163 @@
+import { type Permission } from '@/schemas/auth.schema'
+import { toFieldErrors } from '@/schemas/notification.schema'
+import { type Notification } from '@/types/notifications.types'
+import { type ProblemCode, type ProblemDetails } from '@/types/problem.types'
+import mongoose from 'mongoose'
+import { NextResponse } from 'next/server'
+import { type ZodError } from 'zod'
+
+const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  500: 'Internal Server Error',
+}
+
+type ProblemOptions = Omit<ProblemDetails, 'type' | 'title'>
+
+/**
+ * Builds an RFC 7807 `application/problem+json` error response.
+ * Errors are never cached.
+ *
+ * @example
+ * ```ts
+ * return problem({ status: 404, code: 'not_found', detail: 'Notification not found' })
+ * ```
+ */
+export function problem({ status, ...options }: ProblemOptions, init?: ResponseInit) {
+  const body: ProblemDetails = {
+    type: 'about:blank',
+    title: STATUS_TITLES[status] ?? 'Error',
+    status,
+    ...options,
+  }
+
+  return NextResponse.json(body, {
+    ...init,
+    status,
+    headers: {
+      'Content-Type': 'application/problem+json',
+      'Cache-Control': 'no-store',
+      ...init?.headers,
+    },
+  })
+}
+
+/**
+ * 400 `validation_failed` problem listing the Zod issues per field
+ *
+ * @example
+ * ```ts
+ * const parsed = createNotificationSchema.safeParse(body)
+ * if (!parsed.success) return validationProblem(parsed.error, 'Invalid notification data')
+ * ```
+ */
+export function validationProblem(
+  error: ZodError,
+  detail: string,
+  code: ProblemCode = 'validation_failed'
+) {
+  return problem({ status: 400, code, detail, errors: toFieldErrors(error) })
+}
+
+/**
+ * 404 `not_found` problem
+ */
+export const notFoundProblem = (detail: string) =>
+  problem({ status: 404, code: 'not_found', detail })
+
+/**
+ * 401 `unauthorized` problem for requests without a session, see `getSession`
+ */
+export const unauthorizedProblem = () =>
+  problem({ status: 401, code: 'unauthorized', detail: 'Sign in to use the API' })
+
+/**
+ * 403 `forbidden` problem for signed-in users whose role lacks a permission, see
+ * `ROLE_PERMISSIONS`
+ */
+export const forbiddenProblem = (permission: Permission) =>
+  problem({
+    status: 403,
+    code: 'forbidden',
+    detail: `Your role doesn't have the ${permission} permission`,
+  })
+
+/**
+ * 403 `no_team` problem for signed-in users who are not a member of any team, all the
+ * data belongs to a team
+ */
+export const noTeamProblem = () =>
+  problem({ status: 403, code: 'no_team', detail: 'Join a team to use the API' })
+
+/**
+ * 400 `invalid_id` problem for route segments that are not valid ObjectIds
+ */
+export const invalidIdProblem = (detail: string) =>
+  problem({ status: 400, code: 'invalid_id', detail })
+
+/**
+ * 409 `conflict` problem carrying the latest server copy, returned when `If-Match`
+ * names a version that has since been updated
+ */
+export const conflictProblem = (current: Notification) =>
+  problem({
+    status: 409,
+    code: 'conflict',
+    detail: 'The notification was changed by someone else, reload it and try again',
+    current,
+  })
+
+/**
+ * Problem for a status change the transition table doesn't allow, or that lacks its
+ * cancellation reason, with the messages from `getStatusTransitionErrors`:
+ * - 409 `invalid_transition` carrying the current copy when the status can't move there
+ * - 400 `validation_failed` otherwise
+ */
+export function statusTransitionProblem(errors: Record<string, string[]>, current?: Notification) {
+  if (errors.status) {
+    return problem({
+      status: 409,
+      code: 'invalid_transition',
+      detail: errors.status[0],
+      errors,
+      current,
+    })
+  }
+  return problem({
+    status: 400,
+    code: 'validation_failed',
+    detail: 'Invalid status change',
+    errors,
+  })
+}
+
+/**
+ * Maps an error thrown by a route handler to a problem response:
+ * - `SyntaxError` from `req.json()` becomes 400 `invalid_json`
+ * - Mongoose `ValidationError` becomes 400 `validation_failed` with per-field `errors`
+ * - anything else is logged and becomes 500 `internal_error` with the given `detail`
+ *
+ * @example
+ * ```ts
+ * } catch (error) {
+ *   return handleRouteError(error, 'Failed to add notification')
+ * }
+ * ```
+ */
+export function handleRouteError(error: unknown, detail: string) {
+  if (error instanceof SyntaxError) {
+    return problem({ status: 400, code: 'invalid_json', detail: 'Invalid JSON body' })
+  }
+  if (error instanceof mongoose.Error.ValidationError) {
+    const errors = Object.fromEntries(
+      Object.entries(error.errors).map(([field, fieldError]) => [field, [fieldError.message]])
+    )
+    return problem({ status: 400, code: 'validation_failed', detail: error.message, errors })
+  }
+
+  console.error(`${detail}:`, error)
+  return problem({ status: 500, code: 'internal_error', detail })
+}
@@ -0,0 +1,12 @@
+import { type ITeam } from '@/models/team.model'
+import { type Team } from '@/types/teams.types'
+
+/**
+ * Maps a team document to the `Team` DTO
+ */
+export function serializeTeam(doc: Pick<ITeam, '_id' | 'name'>): Team {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+  }
+}
@@ -0,0 +1,323 @@
+import dbConnect from '@/lib/dbConnect'
+import { getEventTeamId, getNotificationEventBus } from '@/lib/notifications/events'
+import { SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER } from '@/lib/webhooks/signature'
+import Webhook, { type IWebhook } from '@/models/webhook.model'
+import WebhookDelivery, {
+  type IWebhookDelivery,
+  type IWebhookDeliveryAttempt,
+} from '@/models/webhook-delivery.model'
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEvent,
+} from '@/schemas/webhook.schema'
+import { type NotificationEvent } from '@/types/notifications.types'
+import { type WebhookPayload } from '@/types/webhooks.types'
+import { randomUUID } from 'crypto'
+import mongoose from 'mongoose'
+
+/**
+ * Seconds before the first retry, each following retry waits twice as long
+ */
+const RETRY_BASE_SECONDS = 30
+
+/**
+ * Milliseconds a webhook has to respond
+ */
+const REQUEST_TIMEOUT = 10 * 1000
+
+/**
+ * Milliseconds a claimed attempt holds a delivery, another run may take it over after
+ * that, e.g. when the instance making the attempt stopped
+ */
+const CLAIM_DURATION = 60 * 1000
+
+/**
+ * Seconds between two runs retrying the deliveries that are due
+ */
+const RETRY_INTERVAL_SECONDS = 15
+
+/**
+ * Most deliveries a run attempts, the rest wait for the next run
+ */
+const RETRY_BATCH_SIZE = 50
+
+declare global {
+  // eslint-disable-next-line no-var
+  var webhookDispatcher: NodeJS.Timeout | undefined
+}
+
+type WebhookEventData = WebhookPayload['data']
+
+/**
+ * Seconds to wait before retrying a delivery that failed `attempts` times
+ *
+ * @example
+ * ```ts
+ * getRetryDelay(1) // 30
+ * getRetryDelay(3) // 120
+ * ```
+ */
+export const getRetryDelay = (attempts: number) => RETRY_BASE_SECONDS * 2 ** (attempts - 1)
+
+/**
+ * Webhook events a change to the notifications raises
+ */
+function toWebhookEvents(event: NotificationEvent): [WebhookEvent, WebhookEventData][] {
+  switch (event.type) {
+    case 'created':
+      return [['notification.created', { notification: event.notification }]]
+    case 'deleted':
+      return [['notification.deleted', { id: event.id }]]
+    case 'updated': {
+      const { notification, previousStatus } = event
+      const events: [WebhookEvent, WebhookEventData][] = [
+        ['notification.updated', { notification }],
+      ]
+      if (notification.status !== previousStatus && notification.status === 'Delivered') {
+        events.push(['notification.delivered', { notification }])
+      }
+      if (notification.status !== previousStatus && notification.status === 'Cancelled') {
+        events.push(['notification.cancelled', { notification }])
+      }
+      return events
+    }
+  }
+}
+
+/**
+ * Why a request got no response, `fetch` hides network errors such as `ECONNREFUSED`
+ * in the `cause`
+ */
+const describeRequestError = (error: unknown) => {
+  if (!(error instanceof Error)) return String(error)
+  if (error.name === 'TimeoutError') return `No response within ${REQUEST_TIMEOUT / 1000} seconds`
+  return error.cause instanceof Error ? error.cause.message : error.message
+}
+
+/**
+ * Sends a delivery's payload to its webhook once, signed with the webhook's secret
+ */
+async function sendWebhookRequest(
+  webhook: Pick<IWebhook, 'url' | 'secret'>,
+  delivery: Pick<IWebhookDelivery, '_id' | 'event' | 'payload'>
+): Promise<IWebhookDeliveryAttempt> {
+  const body = JSON.stringify(delivery.payload)
+  const attemptedAt = new Date()
+  const timestamp = Math.floor(attemptedAt.getTime() / 1000)
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Dnndon-Webhooks/1.0',
+        'X-Webhook-Id': String(delivery._id),
+        'X-Webhook-Event': delivery.event,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      cache: 'no-store',
+      // A redirect could send the payload somewhere the webhook doesn't point to
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    })
+    // The response body is not used
+    await response.body?.cancel()
+
+    return {
+      attemptedAt,
+      statusCode: response.status,
+      error: response.ok ? null : `Responded with ${response.status}`,
+      durationMs: Date.now() - attemptedAt.getTime(),
+    }
+  } catch (error) {
+    return {
+      attemptedAt,
+      statusCode: null,
+      error: describeRequestError(error),
+      durationMs: Date.now() - attemptedAt.getTime(),
+    }
+  }
+}
+
+/**
+ * Makes the next attempt of a pending delivery that is due, and schedules the retry or
+ * settles the delivery depending on its outcome. Test deliveries are not retried.
+ *
+ * The delivery is claimed with a conditional update first, so when several instances
+ * run the dispatcher each attempt is made by exactly one of them.
+ *
+ * @returns The delivery after the attempt, `null` when it is not due or was claimed by
+ * another run
+ *
+ * @example
+ * ```ts
+ * const delivery = await attemptWebhookDelivery(id)
+ * delivery?.status // 'succeeded'
+ * ```
+ */
+export async function attemptWebhookDelivery(
+  id: mongoose.Types.ObjectId | string,
+  now = new Date()
+): Promise<IWebhookDelivery | null> {
+  const delivery = await WebhookDelivery.findOneAndUpdate(
+    { _id: id, status: 'pending', nextAttemptAt: { $lte: now } },
+    { nextAttemptAt: new Date(now.getTime() + CLAIM_DURATION) },
+    { new: true }
+  )
+    .lean<IWebhookDelivery>()
+    .exec()
+  if (!delivery) return null
+
+  const isTest = delivery.event === WEBHOOK_TEST_EVENT
+  const webhook = await Webhook.findById(delivery.webhookId).lean<IWebhook>().exec()
+  let attempt: IWebhookDeliveryAttempt
+  if (!webhook || (!webhook.active && !isTest)) {
+    attempt = {
+      attemptedAt: now,
+      statusCode: null,
+      error: webhook ? 'The webhook is disabled' : 'The webhook was deleted',
+      durationMs: 0,
+    }
+  } else {
+    attempt = await sendWebhookRequest(webhook, delivery)
+  }
+
+  const attempts = delivery.attempts.length + 1
+  const retry = attempt.error !== null && webhook?.active && !isTest
+  const status = !attempt.error
+    ? 'succeeded'
+    : retry && attempts < WEBHOOK_MAX_ATTEMPTS
+      ? 'pending'
+      : 'failed'
+
+  return WebhookDelivery.findByIdAndUpdate(
+    delivery._id,
+    {
+      $push: { attempts: attempt },
+      status,
+      nextAttemptAt:
+        status === 'pending' ? new Date(Date.now() + getRetryDelay(attempts) * 1000) : null,
+    },
+    { new: true }
+  )
+    .lean<IWebhookDelivery>()
+    .exec()
+}
+
+/**
+ * Stores a delivery of `payload` to a webhook and makes its first attempt right away
+ *
+ * @param replayOf - The delivery being replayed, if any
+ * @returns The delivery after its first attempt
+ */
+export async function createWebhookDelivery(
+  webhook: Pick<IWebhook, '_id' | 'teamId'>,
+  payload: WebhookPayload,
+  replayOf: mongoose.Types.ObjectId | string | null = null
+): Promise<IWebhookDelivery> {
+  const now = new Date()
+  const delivery = await WebhookDelivery.create({
+    webhookId: webhook._id,
+    teamId: webhook.teamId,
+    event: payload.type,
+    payload,
+    nextAttemptAt: now,
+    replayOf,
+  })
+  return (await attemptWebhookDelivery(delivery._id, now)) ?? delivery.toObject()
+}
+
+/**
+ * Delivers an event to every active webhook of the team subscribed to it. Each webhook
+ * gets its own delivery with the same payload, attempted right away and retried from there.
+ *
+ * @example
+ * ```ts
+ * await deliverWebhookEvent(notification.teamId, 'notification.cancelled', { notification })
+ * ```
+ */
+export async function deliverWebhookEvent(
+  teamId: string,
+  type: WebhookEvent,
+  data: WebhookEventData
+) {
+  await dbConnect()
+
+  const webhooks = await Webhook.find({ teamId, events: type, active: true })
+    .select('_id teamId')
+    .lean<Pick<IWebhook, '_id' | 'teamId'>[]>()
+    .exec()
+  if (!webhooks.length) return
+
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  }
+  await Promise.all(webhooks.map((webhook) => createWebhookDelivery(webhook, payload)))
+}
+
+/**
+ * Retries the pending deliveries that are due
+ *
+ * @returns How many deliveries were attempted
+ */
+export async function runWebhookDeliveries(now = new Date()) {
+  await dbConnect()
+
+  const due = await WebhookDelivery.find({ status: 'pending', nextAttemptAt: { $lte: now } })
+    .sort({ nextAttemptAt: 1 })
+    .limit(RETRY_BATCH_SIZE)
+    .select('_id')
+    .lean<Pick<IWebhookDelivery, '_id'>[]>()
+    .exec()
+
+  let attempted = 0
+  for (const { _id } of due) {
+    if (await attemptWebhookDelivery(String(_id), now)) attempted++
+  }
+  return attempted
+}
+
+/**
+ * Sends the webhooks for the changes made on this server instance and retries the failed
+ * deliveries in the background, called once per server instance from `instrumentation.ts`.
+ *
+ * Changes reach the dispatcher through the notification event bus, with the in-process
+ * bus each instance delivers the changes it made itself. A bus shared between instances
+ * would need a single instance to deliver them.
+ */
+export function startWebhookDispatcher() {
+  // Hot reloads in development evaluate this module again, keep a single dispatcher
+  if (globalThis.webhookDispatcher) return
+
+  getNotificationEventBus().subscribe((event) => {
+    const teamId = getEventTeamId(event)
+    for (const [type, data] of toWebhookEvents(event)) {
+      deliverWebhookEvent(teamId, type, data).catch((error) =>
+        console.error(`Failed to deliver ${type} webhooks`, error)
+      )
+    }
+  })
+
+  let running = false
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      await runWebhookDeliveries()
+    } catch (error) {
+      console.error('Webhook retry run failed', error)
+    } finally {
+      running = false
+    }
+  }
+
+  globalThis.webhookDispatcher = setInterval(tick, RETRY_INTERVAL_SECONDS * 1000)
+  // Don't keep the process alive just for the retries
+  globalThis.webhookDispatcher.unref()
+}
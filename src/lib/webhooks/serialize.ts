@@ -0,0 +1,69 @@
+import { type IWebhook } from '@/models/webhook.model'
+import { type IWebhookDelivery } from '@/models/webhook-delivery.model'
+import { type Webhook, type WebhookDelivery } from '@/types/webhooks.types'
+
+/**
+ * Characters of the secret shown in `secretHint`
+ */
+const SECRET_HINT_LENGTH = 4
+
+const toOptionalISOString = (value: Date | null | undefined) =>
+  value ? new Date(value).toISOString() : null
+
+/**
+ * Maps a webhook document to the `Webhook` DTO, the secret is reduced to a hint
+ */
+export function serializeWebhook(
+  doc: Pick<
+    IWebhook,
+    '_id' | 'url' | 'description' | 'events' | 'active' | 'secret' | 'createdAt' | 'updatedAt'
+  >
+): Webhook {
+  return {
+    id: String(doc._id),
+    url: doc.url,
+    description: doc.description ?? null,
+    events: [...doc.events],
+    active: doc.active,
+    secretHint: `…${doc.secret.slice(-SECRET_HINT_LENGTH)}`,
+    createdAt: new Date(doc.createdAt).toISOString(),
+    updatedAt: new Date(doc.updatedAt).toISOString(),
+  }
+}
+
+/**
+ * Maps a delivery document to the `WebhookDelivery` DTO
+ */
+export function serializeWebhookDelivery(
+  doc: Pick<
+    IWebhookDelivery,
+    | '_id'
+    | 'webhookId'
+    | 'event'
+    | 'payload'
+    | 'status'
+    | 'attempts'
+    | 'nextAttemptAt'
+    | 'replayOf'
+    | 'createdAt'
+    | 'updatedAt'
+  >
+): WebhookDelivery {
+  return {
+    id: String(doc._id),
+    webhookId: String(doc.webhookId),
+    event: doc.event,
+    payload: doc.payload,
+    status: doc.status,
+    attempts: doc.attempts.map(({ attemptedAt, statusCode, error, durationMs }) => ({
+      attemptedAt: new Date(attemptedAt).toISOString(),
+      statusCode: statusCode ?? null,
+      error: error ?? null,
+      durationMs,
+    })),
+    nextAttemptAt: toOptionalISOString(doc.nextAttemptAt),
+    replayOf: doc.replayOf ? String(doc.replayOf) : null,
+    createdAt: new Date(doc.createdAt).toISOString(),
+    updatedAt: new Date(doc.updatedAt).toISOString(),
+  }
+}
@@ -0,0 +1,67 @@
+import { createHmac } from 'crypto'
+import {
+  generateWebhookSecret,
+  SIGNATURE_TOLERANCE_SECONDS,
+  signPayload,
+  verifySignature,
+} from './signature'
+
+const secret = 'whsec_test'
+const body = JSON.stringify({ type: 'notification.created', data: { id: '1' } })
+const now = new Date('2025-03-01T10:30:00.000Z')
+const timestamp = Math.floor(now.getTime() / 1000)
+
+describe('generateWebhookSecret', () => {
+  it('generates distinct prefixed secrets', () => {
+    const generated = generateWebhookSecret()
+    expect(generated).toMatch(/^whsec_[0-9a-f]{48}$/)
+    expect(generateWebhookSecret()).not.toBe(generated)
+  })
+})
+
+describe('signPayload', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const hmac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+    expect(signPayload(secret, timestamp, body)).toBe(`sha256=${hmac}`)
+  })
+})
+
+describe('verifySignature', () => {
+  const signed = {
+    signature: signPayload(secret, timestamp, body),
+    timestamp: String(timestamp),
+    body,
+  }
+
+  it('accepts a request it signed', () => {
+    expect(verifySignature(secret, signed, now)).toBe(true)
+  })
+
+  it('accepts a request signed within the tolerance', () => {
+    const later = new Date(now.getTime() + SIGNATURE_TOLERANCE_SECONDS * 1000)
+    expect(verifySignature(secret, signed, later)).toBe(true)
+  })
+
+  it('rejects a request signed too long ago or in the future', () => {
+    const tolerance = (SIGNATURE_TOLERANCE_SECONDS + 1) * 1000
+    expect(verifySignature(secret, signed, new Date(now.getTime() + tolerance))).toBe(false)
+    expect(verifySignature(secret, signed, new Date(now.getTime() - tolerance))).toBe(false)
+  })
+
+  it('rejects another secret, body or timestamp', () => {
+    expect(verifySignature('whsec_other', signed, now)).toBe(false)
+    expect(verifySignature(secret, { ...signed, body: `${body} ` }, now)).toBe(false)
+    expect(verifySignature(secret, { ...signed, timestamp: String(timestamp - 1) }, now)).toBe(
+      false
+    )
+  })
+
+  it.each([
+    ['a missing signature', { ...signed, signature: null }],
+    ['a missing timestamp', { ...signed, timestamp: null }],
+    ['a timestamp that is not an integer', { ...signed, timestamp: 'soon' }],
+    ['a truncated signature', { ...signed, signature: signed.signature.slice(0, -1) }],
+  ])('rejects %s', (_, request) => {
+    expect(verifySignature(secret, request, now)).toBe(false)
+  })
+})
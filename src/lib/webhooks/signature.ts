@@ -0,0 +1,76 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+/**
+ * Header carrying `sha256=<hex HMAC>` of `<timestamp>.<body>`
+ */
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+/**
+ * Header carrying the Unix time in seconds the request was signed at
+ */
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp'
+
+/**
+ * Seconds a signed request is accepted after it was signed, so a captured request can't
+ * be replayed later
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+/**
+ * Generates a random webhook secret
+ *
+ * @example
+ * ```ts
+ * generateWebhookSecret() // 'whsec_3f9c...'
+ * ```
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Signs a request body, the timestamp is signed along so it can't be changed
+ *
+ * @param timestamp - Unix time in seconds, sent in `TIMESTAMP_HEADER`
+ * @returns The value of `SIGNATURE_HEADER`
+ *
+ * @example
+ * ```ts
+ * const timestamp = Math.floor(Date.now() / 1000)
+ * signPayload(webhook.secret, timestamp, body) // 'sha256=5d41...'
+ * ```
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * Checks a signature made with `signPayload`, in constant time, and that it was made
+ * within `SIGNATURE_TOLERANCE_SECONDS` of `now`
+ *
+ * @example
+ * ```ts
+ * const valid = verifySignature(secret, {
+ *   signature: req.headers.get(SIGNATURE_HEADER),
+ *   timestamp: req.headers.get(TIMESTAMP_HEADER),
+ *   body: await req.text(),
+ * })
+ * ```
+ */
+export function verifySignature(
+  secret: string,
+  {
+    signature,
+    timestamp,
+    body,
+  }: { signature: string | null; timestamp: string | null; body: string },
+  now = new Date()
+): boolean {
+  const seconds = Number(timestamp)
+  if (!signature || !timestamp || !Number.isInteger(seconds)) return false
+  if (Math.abs(now.getTime() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = Buffer.from(signPayload(secret, seconds, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
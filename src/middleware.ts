@@ -0,0 +1,53 @@
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth/token'
+import { type ProblemDetails } from '@/types/problem.types'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Pages and API routes reachable while signed out. Receipts are signed with
+ * `RECEIPTS_SECRET` instead of coming with a session.
+ */
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/notifications/receipts']
+
+/**
+ * Where signing in starts, `from` names the page to return to afterwards
+ */
+const LOGIN_PATH = '/login'
+
+/**
+ * Keeps signed-out visitors away from the dashboard, `/notifications` and `/api/*`:
+ * pages redirect to the sign-in page and API routes answer 401 `unauthorized`.
+ *
+ * Only checks that the session cookie is correctly signed and not expired, the route
+ * handlers look the session up with `getSession`.
+ */
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl
+  if (PUBLIC_PATHS.includes(pathname)) return NextResponse.next()
+
+  const session = await verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value)
+  if (session) return NextResponse.next()
+
+  if (pathname.startsWith('/api/')) {
+    // `problem()` isn't used, it pulls Mongoose into the edge runtime
+    const body: ProblemDetails = {
+      type: 'about:blank',
+      title: 'Unauthorized',
+      status: 401,
+      code: 'unauthorized',
+      detail: 'Sign in to use the API',
+    }
+    return NextResponse.json(body, {
+      status: 401,
+      headers: { 'Content-Type': 'application/problem+json', 'Cache-Control': 'no-store' },
+    })
+  }
+
+  const url = new URL(LOGIN_PATH, req.url)
+  if (pathname !== '/') url.searchParams.set('from', `${pathname}${search}`)
+  return NextResponse.redirect(url)
+}
+
+export const config = {
+  // Everything but the static files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+}
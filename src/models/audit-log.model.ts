@@ -0,0 +1,72 @@
+import { AUDIT_ACTIONS, AUDITED_FIELDS, type AuditAction } from '@/schemas/notification.schema'
+import { type AuditChange } from '@/types/notifications.types'
+import mongoose, { Document } from 'mongoose'
+
+// Interface for the AuditLog document, entries are only ever inserted
+export interface IAuditLog extends Document {
+  notificationId: mongoose.Types.ObjectId
+  // Team of the notification, the log of a team only lists its own notifications
+  teamId: mongoose.Types.ObjectId
+  action: AuditAction
+  actor: string
+  changes: AuditChange[]
+  // Maintained by `timestamps`
+  createdAt: Date
+}
+
+const auditChangeSchema = new mongoose.Schema(
+  {
+    field: {
+      type: String,
+      required: true,
+      enum: AUDITED_FIELDS,
+    },
+    before: {
+      type: String,
+      default: null,
+    },
+    after: {
+      type: String,
+      default: null,
+    },
+  },
+  { _id: false }
+)
+
+const auditLogSchema = new mongoose.Schema(
+  {
+    notificationId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    teamId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    action: {
+      type: String,
+      required: true,
+      enum: AUDIT_ACTIONS,
+    },
+    actor: {
+      type: String,
+      required: true,
+    },
+    changes: {
+      type: [auditChangeSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+)
+
+// History of one notification and the log of a team, both newest first
+auditLogSchema.index({ notificationId: 1, createdAt: -1 })
+auditLogSchema.index({ teamId: 1, createdAt: -1 })
+
+// Prevent OverwriteModelError when model is compiled multiple times in development
+const AuditLog = mongoose.models.AuditLog || mongoose.model<IAuditLog>('AuditLog', auditLogSchema)
+
+export default AuditLog
@@ -0,0 +1,67 @@
+import { NOTIFICATION_STATUSES, type NotificationStatus } from '@/schemas/notification.schema'
+import { RECEIPT_STATUSES, type ReceiptStatus } from '@/schemas/receipt.schema'
+import mongoose, { Document } from 'mongoose'
+
+// Interface for the NotificationReceipt document, a delivery receipt that was applied
+export interface INotificationReceipt extends Document {
+  // ID the sender gave the receipt, unique so a receipt is only applied once
+  receiptId: string
+  notificationId: mongoose.Types.ObjectId
+  status: ReceiptStatus
+  reason: string | null
+  source: string | null
+  // Status the notification had before and after the receipt, equal if it changed nothing
+  previousStatus: NotificationStatus
+  notificationStatus: NotificationStatus
+  // Maintained by `timestamps: true`
+  createdAt: Date
+  updatedAt: Date
+}
+
+const notificationReceiptSchema = new mongoose.Schema(
+  {
+    receiptId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    notificationId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: RECEIPT_STATUSES,
+    },
+    reason: {
+      type: String,
+      default: null,
+    },
+    source: {
+      type: String,
+      default: null,
+    },
+    previousStatus: {
+      type: String,
+      required: true,
+      enum: NOTIFICATION_STATUSES,
+    },
+    notificationStatus: {
+      type: String,
+      required: true,
+      enum: NOTIFICATION_STATUSES,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Prevent OverwriteModelError when model is compiled multiple times in development
+const NotificationReceipt =
+  mongoose.models.NotificationReceipt ||
+  mongoose.model<INotificationReceipt>('NotificationReceipt', notificationReceiptSchema)
+
+export default NotificationReceipt
@@ -1,21 +1,51 @@
+import {
+  INITIAL_STATUS,
+  MAX_CANCELLATION_REASON_LENGTH,
+  NOTIFICATION_STATUSES,
+  NOTIFICATION_TYPES,
+  type NotificationStatus,
+  type NotificationType,
+} from '@/schemas/notification.schema'
+import { getTrashRetentionDays } from '@/lib/notifications/trash'
 import mongoose, { Document } from 'mongoose'
 
 // Interface for the Notification document
 export interface INotification extends Document {
-  type: 'Photo' | 'Text'
+  // Team the notification belongs to, other teams can't see it
+  teamId: mongoose.Types.ObjectId
+  type: NotificationType
   space: string
   country: string
   city: string
   dateTime: Date
-  status: 'Delivered' | 'In Progress' | 'Cancelled'
+  status: NotificationStatus
+  // When a Scheduled notification goes live and when it ends, `null` when open
+  scheduledAt: Date | null
+  endsAt: Date | null
+  // Stamped when the status becomes Delivered or Cancelled, `null` until then
+  deliveredAt: Date | null
+  cancelledAt: Date | null
+  // Why a Cancelled notification was cancelled, `null` for the other statuses
+  cancellationReason: string | null
+  // Set while the notification is in the Trash, `null` otherwise
+  deletedAt: Date | null
+  // Maintained by `timestamps: true`
+  createdAt: Date
+  updatedAt: Date
+  // Version key, incremented on every update and exposed as `version`/`ETag`
+  __v: number
 }
 
 const notificationSchema = new mongoose.Schema(
   {
+    teamId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
     type: {
       type: String,
       required: true,
-      enum: ['Photo', 'Text'],
+      enum: NOTIFICATION_TYPES,
     },
     space: {
       type: String,
@@ -35,8 +65,33 @@ const notificationSchema = new mongoose.Schema(
     },
     status: {
       type: String,
-      enum: ['Delivered', 'In Progress', 'Cancelled'],
-      default: 'In Progress',
+      enum: NOTIFICATION_STATUSES,
+      default: INITIAL_STATUS,
+    },
+    scheduledAt: {
+      type: Date,
+      default: null,
+    },
+    endsAt: {
+      type: Date,
+      default: null,
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+    cancelledAt: {
+      type: Date,
+      default: null,
+    },
+    cancellationReason: {
+      type: String,
+      default: null,
+      maxlength: MAX_CANCELLATION_REASON_LENGTH,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
     },
   },
   {
@@ -44,7 +99,24 @@ const notificationSchema = new mongoose.Schema(
   }
 )
 
-notificationSchema.index({ dateTime: -1 })
+// Keyset for the default order and cursor pagination within a team, `_id` breaks ties
+// between equal dates
+notificationSchema.index({ teamId: 1, dateTime: -1, _id: -1 })
+
+// Notifications the scheduler starts and ends, see `runScheduler`
+notificationSchema.index({ status: 1, scheduledAt: 1 })
+notificationSchema.index({ status: 1, endsAt: 1 })
+
+// Purges notifications once they spent the retention period in the Trash, documents with
+// `deletedAt: null` never expire. Mongo removes them itself, so unlike purges through
+// `DELETE /api/notifications/trash/[id]` these leave no `purge` entry in the audit log,
+// the last entry of an expired notification is its `delete`. Mongo keeps the TTL it was
+// created with, changing `TRASH_RETENTION_DAYS` later needs `collMod` on `deletedAt_1` or
+// rebuilding the index.
+notificationSchema.index(
+  { deletedAt: 1 },
+  { expireAfterSeconds: getTrashRetentionDays() * 24 * 60 * 60 }
+)
 
 // Prevent OverwriteModelError when model is compiled multiple times in development
 const Notification =
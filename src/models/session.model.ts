@@ -0,0 +1,36 @@
+import mongoose, { Document } from 'mongoose'
+
+// Interface for the Session document, one signed-in browser
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId
+  // The session cookie stops being accepted at this time, MongoDB removes it afterwards
+  expiresAt: Date
+  // Maintained by `timestamps: true`
+  createdAt: Date
+  updatedAt: Date
+}
+
+const sessionSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      index: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Expired sessions are removed by MongoDB's TTL monitor
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+// Prevent OverwriteModelError when model is compiled multiple times in development
+const Session = mongoose.models.Session || mongoose.model<ISession>('Session', sessionSchema)
+
+export default Session
@@ -0,0 +1,31 @@
+import { MAX_TEAM_NAME_LENGTH } from '@/schemas/team.schema'
+import mongoose, { Document } from 'mongoose'
+
+// Interface for the Team document, a brand whose notifications and webhooks are kept
+// apart from the other teams'
+export interface ITeam extends Document {
+  name: string
+  // Maintained by `timestamps: true`
+  createdAt: Date
+  updatedAt: Date
+}
+
+const teamSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      maxlength: MAX_TEAM_NAME_LENGTH,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Prevent OverwriteModelError when model is compiled multiple times in development
+const Team = mongoose.models.Team || mongoose.model<ITeam>('Team', teamSchema)
+
+export default Team
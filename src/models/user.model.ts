@@ -0,0 +1,62 @@
+import { DEFAULT_USER_ROLE, USER_ROLES, type UserRole } from '@/schemas/auth.schema'
+import mongoose, { Document } from 'mongoose'
+
+// Interface for the User document, someone who can sign in
+export interface IUser extends Document {
+  // Stored lowercase, signing in matches it case-insensitively
+  email: string
+  name: string
+  // scrypt hash of the password, see `hashPassword`
+  passwordHash: string
+  role: UserRole
+  // Teams the user is a member of, see `getActiveTeamId`
+  teamIds: mongoose.Types.ObjectId[]
+  // Team last switched to, `null` until the user switches
+  activeTeamId: mongoose.Types.ObjectId | null
+  // Maintained by `timestamps: true`
+  createdAt: Date
+  updatedAt: Date
+}
+
+const userSchema = new mongoose.Schema(
+  {
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    passwordHash: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      required: true,
+      enum: USER_ROLES,
+      default: DEFAULT_USER_ROLE,
+    },
+    teamIds: {
+      type: [mongoose.Schema.Types.ObjectId],
+      default: [],
+    },
+    activeTeamId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Prevent OverwriteModelError when model is compiled multiple times in development
+const User = mongoose.models.User || mongoose.model<IUser>('User', userSchema)
+
+export default User
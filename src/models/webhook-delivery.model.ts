@@ -0,0 +1,114 @@
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  WEBHOOK_TEST_EVENT,
+  type WebhookDeliveryEvent,
+  type WebhookDeliveryStatus,
+} from '@/schemas/webhook.schema'
+import { type WebhookPayload } from '@/types/webhooks.types'
+import mongoose, { Document } from 'mongoose'
+
+// One HTTP request made to deliver a payload
+export interface IWebhookDeliveryAttempt {
+  attemptedAt: Date
+  statusCode: number | null
+  error: string | null
+  durationMs: number
+}
+
+// Interface for the WebhookDelivery document, a payload sent to one webhook
+export interface IWebhookDelivery extends Document {
+  webhookId: mongoose.Types.ObjectId
+  // Team of the webhook, the log of a team only lists its own deliveries
+  teamId: mongoose.Types.ObjectId
+  event: WebhookDeliveryEvent
+  payload: WebhookPayload
+  status: WebhookDeliveryStatus
+  attempts: IWebhookDeliveryAttempt[]
+  // When a pending delivery is next attempted, pushed forward while an attempt runs
+  nextAttemptAt: Date | null
+  // The delivery this one replays, `null` for an original delivery
+  replayOf: mongoose.Types.ObjectId | null
+  // Maintained by `timestamps: true`
+  createdAt: Date
+  updatedAt: Date
+}
+
+const attemptSchema = new mongoose.Schema(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+    statusCode: {
+      type: Number,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    durationMs: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+)
+
+const webhookDeliverySchema = new mongoose.Schema(
+  {
+    webhookId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    teamId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    event: {
+      type: String,
+      required: true,
+      enum: [...WEBHOOK_EVENTS, WEBHOOK_TEST_EVENT],
+    },
+    payload: {
+      type: mongoose.Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: WEBHOOK_DELIVERY_STATUSES,
+      default: 'pending',
+    },
+    attempts: {
+      type: [attemptSchema],
+      default: [],
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    replayOf: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Deliveries the dispatcher retries, see `runWebhookDeliveries`
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 })
+
+// Log of a team and of one webhook, both newest first
+webhookDeliverySchema.index({ teamId: 1, createdAt: -1 })
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 })
+
+// Prevent OverwriteModelError when model is compiled multiple times in development
+const WebhookDelivery =
+  mongoose.models.WebhookDelivery ||
+  mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema)
+
+export default WebhookDelivery
@@ -0,0 +1,57 @@
+import { WEBHOOK_EVENTS, type WebhookEvent } from '@/schemas/webhook.schema'
+import mongoose, { Document } from 'mongoose'
+
+// Interface for the Webhook document, a subscription of a URL to lifecycle events
+export interface IWebhook extends Document {
+  // Team the webhook belongs to, it only receives the events of its team's notifications
+  teamId: mongoose.Types.ObjectId
+  url: string
+  description: string | null
+  events: WebhookEvent[]
+  // Key the deliveries are signed with, kept as is since signing needs it
+  secret: string
+  active: boolean
+  // Maintained by `timestamps: true`
+  createdAt: Date
+  updatedAt: Date
+}
+
+const webhookSchema = new mongoose.Schema(
+  {
+    teamId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      default: null,
+    },
+    events: {
+      type: [{ type: String, enum: WEBHOOK_EVENTS }],
+      required: true,
+    },
+    secret: {
+      type: String,
+      required: true,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+)
+
+// Active webhooks of a team subscribed to an event, looked up on every change
+webhookSchema.index({ teamId: 1, events: 1, active: 1 })
+
+// Prevent OverwriteModelError when model is compiled multiple times in development
+const Webhook = mongoose.models.Webhook || mongoose.model<IWebhook>('Webhook', webhookSchema)
+
+export default Webhook
@@ -0,0 +1,18 @@
+import { hasPermission, PERMISSIONS, type Permission, type UserRole } from './auth.schema'
+
+describe('hasPermission', () => {
+  const granted: Record<UserRole, Permission[]> = {
+    viewer: ['notifications:read'],
+    editor: ['notifications:read', 'notifications:write'],
+    admin: ['notifications:read', 'notifications:write', 'notifications:delete', 'webhooks:manage'],
+  }
+
+  describe.each(Object.entries(granted) as [UserRole, Permission[]][])('%s', (role, allowed) => {
+    it.each(PERMISSIONS.map((permission) => [permission, allowed.includes(permission)]))(
+      '%s: %s',
+      (permission, expected) => {
+        expect(hasPermission(role, permission as Permission)).toBe(expected)
+      }
+    )
+  })
+})
@@ -0,0 +1,65 @@
+import { z } from 'zod'
+
+/**
+ * Shared contract for signing in and the permission model, used by the API route
+ * handlers, the sign-in form and the components hiding what a role can't do.
+ */
+
+/**
+ * Roles a user can have, each can do what the previous one can and more
+ */
+export const USER_ROLES = ['viewer', 'editor', 'admin'] as const
+
+/**
+ * Role of a user created without one
+ */
+export const DEFAULT_USER_ROLE: UserRole = 'viewer'
+
+/**
+ * What a request can be allowed to do, checked with `hasPermission`
+ */
+export const PERMISSIONS = [
+  'notifications:read',
+  'notifications:write',
+  'notifications:delete',
+  'webhooks:manage',
+] as const
+
+export type UserRole = (typeof USER_ROLES)[number]
+export type Permission = (typeof PERMISSIONS)[number]
+
+/**
+ * Permissions of each role. Viewers only read, editors also create, edit, cancel and
+ * import, admins also delete, manage the Trash and manage the webhooks.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  viewer: ['notifications:read'],
+  editor: ['notifications:read', 'notifications:write'],
+  admin: PERMISSIONS,
+}
+
+/**
+ * Whether a role grants a permission
+ *
+ * @example
+ * ```ts
+ * hasPermission('editor', 'notifications:write') // true
+ * hasPermission('editor', 'notifications:delete') // false
+ * ```
+ */
+export const hasPermission = (role: UserRole, permission: Permission) =>
+  ROLE_PERMISSIONS[role].includes(permission)
+
+/**
+ * Body of `POST /api/auth/login` and the sign-in form
+ */
+export const signInSchema = z.object({
+  email: z
+    .string({ required_error: 'Email is required' })
+    .trim()
+    .toLowerCase()
+    .email('Email must be a valid email address'),
+  password: z.string({ required_error: 'Password is required' }).min(1, 'Password is required'),
+})
+
+export type SignInInput = z.infer<typeof signInSchema>
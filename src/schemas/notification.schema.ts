@@ -0,0 +1,507 @@
+import { z } from 'zod'
+
+/**
+ * Shared contract for notifications.
+ *
+ * The API route handlers, the service functions, the forms and the Mongoose model
+ * all derive their rules from this module so the client and server can't drift apart.
+ */
+
+export const NOTIFICATION_TYPES = ['Photo', 'Text'] as const
+
+export const NOTIFICATION_STATUSES = ['Scheduled', 'In Progress', 'Delivered', 'Cancelled'] as const
+
+/**
+ * Longest cancellation reason accepted
+ */
+export const MAX_CANCELLATION_REASON_LENGTH = 500
+
+/**
+ * Fields of `INotification` the list can be sorted by
+ */
+export const SORTABLE_FIELDS = [
+  'type',
+  'space',
+  'country',
+  'city',
+  'dateTime',
+  'status',
+  'scheduledAt',
+  'updatedAt',
+] as const
+
+export const SORT_ORDERS = ['asc', 'desc'] as const
+
+/**
+ * File formats of `GET /api/notifications/export`
+ */
+export const EXPORT_FORMATS = ['csv', 'json'] as const
+
+/**
+ * Notification fields a CSV column can be mapped to when importing
+ */
+export const IMPORT_FIELDS = [
+  'type',
+  'space',
+  'country',
+  'city',
+  'status',
+  'dateTime',
+  'scheduledAt',
+  'endsAt',
+  'cancellationReason',
+] as const
+
+/**
+ * Most rows a single import may contain
+ */
+export const MAX_IMPORT_ROWS = 5000
+
+/**
+ * Bucket sizes of the time series of `GET /api/notifications/stats`
+ */
+export const STATS_INTERVALS = ['hour', 'day', 'week'] as const
+
+/**
+ * Actions of `POST /api/notifications/bulk`
+ */
+export const BULK_ACTIONS = ['delete', 'cancel', 'setStatus'] as const
+
+/**
+ * Most ids a single bulk request may address
+ */
+export const MAX_BULK_IDS = 500
+
+/**
+ * Changes recorded in the audit log, `delete` moves a notification to the Trash
+ * and `purge` deletes it for good
+ */
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'purge'] as const
+
+/**
+ * Events of `GET /api/notifications/stream`, `deleted` covers moving to the Trash and
+ * purging, `created` also covers restoring from the Trash
+ */
+export const NOTIFICATION_EVENT_TYPES = ['created', 'updated', 'deleted'] as const
+
+/**
+ * Fields of `INotification` whose changes are recorded in the audit log
+ */
+export const AUDITED_FIELDS = [
+  'type',
+  'space',
+  'country',
+  'city',
+  'dateTime',
+  'status',
+  'scheduledAt',
+  'endsAt',
+  'cancellationReason',
+  'deletedAt',
+] as const
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number]
+export type NotificationStatus = (typeof NOTIFICATION_STATUSES)[number]
+export type SortableField = (typeof SORTABLE_FIELDS)[number]
+export type BulkAction = (typeof BULK_ACTIONS)[number]
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+export type StatsInterval = (typeof STATS_INTERVALS)[number]
+
+/**
+ * Length of a stats bucket in milliseconds. In the time zone used for bucketing a day
+ * or week may be an hour longer or shorter around daylight saving changes.
+ */
+export const STATS_INTERVAL_MS: Record<StatsInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+}
+export type ImportField = (typeof IMPORT_FIELDS)[number]
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+export type AuditedField = (typeof AUDITED_FIELDS)[number]
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number]
+
+/**
+ * Statuses each status can move to. Notifications start `In Progress`, or `Scheduled` when
+ * `scheduledAt` is in the future, `Delivered` and `Cancelled` are final.
+ */
+export const STATUS_TRANSITIONS: Record<NotificationStatus, readonly NotificationStatus[]> = {
+  Scheduled: ['In Progress', 'Cancelled'],
+  'In Progress': ['Delivered', 'Cancelled'],
+  Delivered: [],
+  Cancelled: [],
+}
+
+/**
+ * Status of a new notification unless another one is given or it is scheduled for later
+ */
+export const INITIAL_STATUS: NotificationStatus = 'In Progress'
+
+/**
+ * Status a new notification starts in, `Scheduled` until `scheduledAt` when that is
+ * still ahead. The scheduler moves it `In Progress` once it is due.
+ *
+ * @example
+ * ```ts
+ * getInitialStatus('2030-01-01T09:00:00.000Z') // 'Scheduled'
+ * getInitialStatus(undefined) // 'In Progress'
+ * ```
+ */
+export const getInitialStatus = (
+  scheduledAt: string | Date | null | undefined,
+  now = new Date()
+): NotificationStatus => (scheduledAt && new Date(scheduledAt) > now ? 'Scheduled' : INITIAL_STATUS)
+
+/**
+ * Whether a notification can move from `from` to `to`, keeping the same status always can
+ *
+ * @example
+ * ```ts
+ * canTransition('In Progress', 'Cancelled') // true
+ * canTransition('Cancelled', 'In Progress') // false
+ * ```
+ */
+export const canTransition = (from: NotificationStatus, to: NotificationStatus) =>
+  from === to || STATUS_TRANSITIONS[from].includes(to)
+
+/**
+ * Checks a status change against the transition table, a notification being cancelled
+ * needs a `cancellationReason` and only cancelled ones may have one.
+ *
+ * @param from - Current status, `INITIAL_STATUS` for a new notification
+ * @param input - The `status` and `cancellationReason` sent, if any
+ * @returns Messages per field like `toFieldErrors`, or `null` if the change is allowed
+ *
+ * @example
+ * ```ts
+ * getStatusTransitionErrors('Delivered', { status: 'Cancelled' })
+ * // { status: ['Cannot change the status from Delivered to Cancelled'] }
+ * ```
+ */
+export function getStatusTransitionErrors(
+  from: NotificationStatus,
+  input: { status?: NotificationStatus; cancellationReason?: string }
+): Record<string, string[]> | null {
+  const to = input.status ?? from
+
+  if (!canTransition(from, to)) {
+    const allowed = STATUS_TRANSITIONS[from]
+    return {
+      status: [
+        `Cannot change the status from ${from} to ${to}` +
+          (allowed.length ? `, it can only become ${allowed.join(' or ')}` : `, it is final`),
+      ],
+    }
+  }
+  if (to === 'Cancelled' && from !== 'Cancelled' && !input.cancellationReason) {
+    return { cancellationReason: ['A reason is required to cancel a notification'] }
+  }
+  if (to !== 'Cancelled' && input.cancellationReason) {
+    return { cancellationReason: ['Only cancelled notifications have a cancellation reason'] }
+  }
+  return null
+}
+
+/**
+ * Checks that a notification ends after it starts, either may be left open
+ *
+ * @returns Messages per field like `toFieldErrors`, or `null` if the schedule is valid
+ *
+ * @example
+ * ```ts
+ * getScheduleErrors({ scheduledAt: '2030-01-02T00:00:00Z', endsAt: '2030-01-01T00:00:00Z' })
+ * // { endsAt: ['End must be after the start'] }
+ * ```
+ */
+export function getScheduleErrors(schedule: {
+  scheduledAt?: string | Date | null
+  endsAt?: string | Date | null
+}): Record<string, string[]> | null {
+  const { scheduledAt, endsAt } = schedule
+  if (scheduledAt && endsAt && new Date(endsAt) <= new Date(scheduledAt)) {
+    return { endsAt: ['End must be after the start'] }
+  }
+  return null
+}
+
+const requiredText = (label: string) =>
+  z
+    .string({ required_error: `${label} is required` })
+    .trim()
+    .min(1, `${label} is required`)
+
+/**
+ * Comma separated search param parsed into a list of allowed values
+ */
+export const csvList = <T extends readonly [string, ...string[]]>(values: T, label: string) =>
+  z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ? value
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean)
+        : []
+    )
+    .pipe(z.array(z.enum(values, { message: `${label} must be one of: ${values.join(', ')}` })))
+
+/**
+ * Body of `POST /api/notifications` and the add notification form
+ */
+export const createNotificationSchema = z.object({
+  type: z.enum(NOTIFICATION_TYPES, {
+    message: `Type must be one of: ${NOTIFICATION_TYPES.join(', ')}`,
+  }),
+  space: requiredText('Space'),
+  country: requiredText('Country'),
+  city: requiredText('City'),
+  status: z
+    .enum(NOTIFICATION_STATUSES, {
+      message: `Status must be one of: ${NOTIFICATION_STATUSES.join(', ')}`,
+    })
+    .optional(),
+  dateTime: z
+    .string()
+    .datetime({ offset: true, message: 'Date must be an ISO 8601 timestamp' })
+    .optional(),
+  /** When the notification goes live, `null` or absent for right away */
+  scheduledAt: z
+    .string()
+    .datetime({ offset: true, message: 'Start must be an ISO 8601 timestamp' })
+    .nullish(),
+  /** When the scheduler marks the notification `Delivered`, `null` or absent for never */
+  endsAt: z
+    .string()
+    .datetime({ offset: true, message: 'End must be an ISO 8601 timestamp' })
+    .nullish(),
+  /** Required when the status becomes `Cancelled`, see `getStatusTransitionErrors` */
+  cancellationReason: z
+    .string()
+    .trim()
+    .max(
+      MAX_CANCELLATION_REASON_LENGTH,
+      `Reason must be at most ${MAX_CANCELLATION_REASON_LENGTH} characters`
+    )
+    .optional(),
+})
+
+/**
+ * Body of `PUT /api/notifications/[id]`, a full replacement of the editable fields.
+ * `dateTime`, `scheduledAt`, `endsAt` and `cancellationReason` are kept as is unless sent,
+ * when a notification was changed is `updatedAt`.
+ */
+export const replaceNotificationSchema = createNotificationSchema.required({ status: true })
+
+/**
+ * Body of `PATCH /api/notifications/[id]` and the edit notification form.
+ * Every field is optional but the ones present follow the create rules, status
+ * changes are also checked against the current status with `getStatusTransitionErrors`.
+ */
+export const updateNotificationSchema = createNotificationSchema.partial()
+
+const bulkIds = z
+  .array(z.string().trim().min(1, 'IDs must not be empty'), { required_error: 'IDs are required' })
+  .min(1, 'Select at least one notification')
+  .max(MAX_BULK_IDS, `At most ${MAX_BULK_IDS} notifications can be changed at once`)
+  // Each notification is only processed once
+  .transform((ids) => [...new Set(ids)])
+
+/**
+ * Body of `POST /api/notifications/bulk`.
+ * Malformed ids and disallowed status changes are reported per id in the response
+ * rather than failing the request.
+ */
+export const bulkNotificationSchema = z.discriminatedUnion(
+  'action',
+  [
+    z.object({ action: z.literal('delete'), ids: bulkIds }),
+    z.object({
+      action: z.literal('cancel'),
+      ids: bulkIds,
+      cancellationReason: requiredText('Reason').max(
+        MAX_CANCELLATION_REASON_LENGTH,
+        `Reason must be at most ${MAX_CANCELLATION_REASON_LENGTH} characters`
+      ),
+    }),
+    z.object({
+      action: z.literal('setStatus'),
+      ids: bulkIds,
+      status: z
+        .enum(NOTIFICATION_STATUSES, {
+          message: `Status must be one of: ${NOTIFICATION_STATUSES.join(', ')}`,
+        })
+        // Cancelling takes a reason
+        .refine((status) => status !== 'Cancelled', 'Use the cancel action to cancel'),
+    }),
+  ],
+  { errorMap: () => ({ message: `Action must be one of: ${BULK_ACTIONS.join(', ')}` }) }
+)
+
+/**
+ * Body of `POST /api/notifications/import`.
+ * Rows are only checked for shape here, each is validated with `createNotificationSchema`
+ * on its own so one bad row doesn't reject the whole file.
+ */
+export const importNotificationsSchema = z.object({
+  rows: z
+    .array(z.record(z.string(), z.unknown()), { required_error: 'Rows are required' })
+    .min(1, 'The file has no rows')
+    .max(MAX_IMPORT_ROWS, `At most ${MAX_IMPORT_ROWS} rows can be imported at once`),
+})
+
+/**
+ * Search params of `GET /api/notifications`
+ */
+export const notificationQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(100, 'Limit must be at most 100')
+      .default(10),
+    mode: z.enum(['offset', 'cursor']).default('offset'),
+    after: z.string().optional(),
+    before: z.string().optional(),
+    query: z.string().trim().optional(),
+    status: csvList(NOTIFICATION_STATUSES, 'Status'),
+    type: csvList(NOTIFICATION_TYPES, 'Type'),
+    sort: csvList(SORTABLE_FIELDS, 'Sort'),
+    order: csvList(SORT_ORDERS, 'Order'),
+  })
+  .superRefine((query, ctx) => {
+    if (query.order.length > query.sort.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['order'],
+        message: 'Order has more directions than sort has fields',
+      })
+    }
+    if (query.mode === 'cursor' && query.sort.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['sort'],
+        message: 'Cursor pagination only supports the default dateTime order',
+      })
+    }
+    if (query.after && query.before) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['before'],
+        message: 'Use either after or before, not both',
+      })
+    }
+  })
+
+/**
+ * Search params of `GET /api/notifications/audit` and `GET /api/notifications/[id]/audit`,
+ * newest entries first
+ */
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+    .default(20),
+  action: csvList(AUDIT_ACTIONS, 'Action'),
+  actor: z.string().trim().optional(),
+})
+
+/**
+ * `format` search param of `GET /api/notifications/export`, the other params follow
+ * `notificationQuerySchema`
+ */
+export const exportFormatSchema = z
+  .enum(EXPORT_FORMATS, { message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` })
+  .default('csv')
+
+/**
+ * Search params of `GET /api/notifications/stats` besides the filters of
+ * `notificationQuerySchema`. `from` and `to` bound the time series only, the counts
+ * cover every notification matching the filters.
+ */
+export const statsQuerySchema = z
+  .object({
+    interval: z
+      .enum(STATS_INTERVALS, {
+        message: `Interval must be one of: ${STATS_INTERVALS.join(', ')}`,
+      })
+      .default('day'),
+    from: z
+      .string()
+      .datetime({ offset: true, message: 'From must be an ISO 8601 timestamp' })
+      .optional(),
+    to: z
+      .string()
+      .datetime({ offset: true, message: 'To must be an ISO 8601 timestamp' })
+      .optional(),
+    /** IANA time zone the buckets start in, e.g. a day starts at midnight there */
+    timeZone: z
+      .string()
+      .trim()
+      .default('UTC')
+      .refine((timeZone) => {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone })
+          return true
+        } catch {
+          return false
+        }
+      }, 'Time zone must be an IANA time zone, e.g. Asia/Dubai'),
+    /** How many countries and cities to list, the ones with the most notifications */
+    top: z.coerce
+      .number()
+      .int()
+      .min(1, 'Top must be at least 1')
+      .max(100, 'Top must be at most 100')
+      .default(10),
+  })
+  .refine((query) => !query.from || !query.to || new Date(query.from) < new Date(query.to), {
+    path: ['to'],
+    message: 'To must be after from',
+  })
+
+export type CreateNotificationInput = z.infer<typeof createNotificationSchema>
+export type ReplaceNotificationInput = z.infer<typeof replaceNotificationSchema>
+export type UpdateNotificationInput = z.infer<typeof updateNotificationSchema>
+export type NotificationQuery = z.infer<typeof notificationQuerySchema>
+export type BulkNotificationInput = z.input<typeof bulkNotificationSchema>
+export type ImportNotificationsInput = z.infer<typeof importNotificationsSchema>
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>
+export type StatsQuery = z.infer<typeof statsQuerySchema>
+
+/**
+ * Groups the issues of a failed parse by field path, the shape of the `errors`
+ * member of validation problems
+ *
+ * @example
+ * ```ts
+ * toFieldErrors(createNotificationSchema.safeParse({}).error)
+ * // { type: ['Type must be one of: Photo, Text'], space: ['Space is required'], ... }
+ * ```
+ */
+export function toFieldErrors(error: z.ZodError): Record<string, string[]> {
+  const errors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const field = issue.path.join('.') || 'body'
+    errors[field] = [...(errors[field] ?? []), issue.message]
+  }
+  return errors
+}
+
+/**
+ * Collects search params into an object for `notificationQuerySchema`,
+ * joining repeated params (`?status=a&status=b`) into one comma separated value
+ */
+export function searchParamsToObject(searchParams: URLSearchParams): Record<string, string> {
+  const result: Record<string, string> = {}
+  searchParams.forEach((value, key) => {
+    result[key] = key in result ? `${result[key]},${value}` : value
+  })
+  return result
+}
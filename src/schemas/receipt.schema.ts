@@ -0,0 +1,74 @@
+import { z } from 'zod'
+import { MAX_CANCELLATION_REASON_LENGTH, type NotificationStatus } from './notification.schema'
+
+/**
+ * Shared contract for the delivery receipts screen players and delivery providers send
+ * to `POST /api/notifications/receipts`, used by the route handler and the model.
+ */
+
+/**
+ * Outcomes a receipt can report for a notification
+ */
+export const RECEIPT_STATUSES = ['in_progress', 'delivered', 'failed'] as const
+
+export type ReceiptStatus = (typeof RECEIPT_STATUSES)[number]
+
+/**
+ * Status a receipt moves the notification to. There is no failed status, a failed
+ * delivery cancels the notification with the reported reason.
+ */
+export const RECEIPT_NOTIFICATION_STATUSES: Record<ReceiptStatus, NotificationStatus> = {
+  in_progress: 'In Progress',
+  delivered: 'Delivered',
+  failed: 'Cancelled',
+}
+
+/**
+ * Start of the cancellation reason of a notification cancelled by a failed receipt
+ */
+export const RECEIPT_FAILURE_REASON = 'Delivery failed'
+
+const MAX_RECEIPT_ID_LENGTH = 200
+
+const MAX_RECEIPT_SOURCE_LENGTH = 100
+
+/**
+ * Body of `POST /api/notifications/receipts`
+ */
+export const receiptSchema = z.object({
+  /** Unique per receipt, a receipt sent again with the same ID is only applied once */
+  receiptId: z
+    .string({ required_error: 'Receipt ID is required' })
+    .trim()
+    .min(1, 'Receipt ID is required')
+    .max(MAX_RECEIPT_ID_LENGTH, `Receipt ID must be at most ${MAX_RECEIPT_ID_LENGTH} characters`),
+  notificationId: z
+    .string({ required_error: 'Notification ID is required' })
+    .trim()
+    .min(1, 'Notification ID is required'),
+  status: z.enum(RECEIPT_STATUSES, {
+    required_error: 'Status is required',
+    message: `Status must be one of: ${RECEIPT_STATUSES.join(', ')}`,
+  }),
+  /** Why the delivery failed, only used for `failed` receipts */
+  reason: z
+    .string()
+    .trim()
+    // Leaves room for `RECEIPT_FAILURE_REASON` in the cancellation reason
+    .max(
+      MAX_CANCELLATION_REASON_LENGTH - RECEIPT_FAILURE_REASON.length - 2,
+      `Reason must be at most ${MAX_CANCELLATION_REASON_LENGTH - RECEIPT_FAILURE_REASON.length - 2} characters`
+    )
+    .optional(),
+  /** Player or provider sending the receipt, named in the audit log */
+  source: z
+    .string()
+    .trim()
+    .max(
+      MAX_RECEIPT_SOURCE_LENGTH,
+      `Source must be at most ${MAX_RECEIPT_SOURCE_LENGTH} characters`
+    )
+    .optional(),
+})
+
+export type ReceiptInput = z.infer<typeof receiptSchema>
@@ -0,0 +1,17 @@
+import { z } from 'zod'
+
+/**
+ * Shared contract for the teams, used by the API route handlers, the service functions
+ * and the team switcher.
+ */
+
+export const MAX_TEAM_NAME_LENGTH = 100
+
+/**
+ * Body of `PUT /api/teams/active`
+ */
+export const switchTeamSchema = z.object({
+  teamId: z.string({ required_error: 'Team is required' }).trim().min(1, 'Team is required'),
+})
+
+export type SwitchTeamInput = z.infer<typeof switchTeamSchema>
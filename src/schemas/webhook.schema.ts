@@ -0,0 +1,113 @@
+import { z } from 'zod'
+import { csvList } from './notification.schema'
+
+/**
+ * Shared contract for the outbound webhooks, used by the API route handlers, the
+ * service functions, the forms and the Mongoose models.
+ */
+
+/**
+ * Lifecycle events a webhook can subscribe to. A change may raise several, delivering
+ * a notification raises both `notification.updated` and `notification.delivered`.
+ */
+export const WEBHOOK_EVENTS = [
+  'notification.created',
+  'notification.updated',
+  'notification.delivered',
+  'notification.cancelled',
+  'notification.deleted',
+] as const
+
+/**
+ * Event sent by `POST /api/webhooks/[id]/test`, whatever the webhook subscribes to
+ */
+export const WEBHOOK_TEST_EVENT = 'webhook.test'
+
+/**
+ * States of a delivery: `pending` until an attempt succeeds or the retries run out
+ */
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const
+
+/**
+ * Attempts a delivery gets, the first one included, before it fails for good
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 6
+
+/**
+ * Shortest secret accepted, shorter ones are too easy to guess
+ */
+export const MIN_WEBHOOK_SECRET_LENGTH = 16
+
+export const MAX_WEBHOOK_SECRET_LENGTH = 256
+
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+export type WebhookDeliveryEvent = WebhookEvent | typeof WEBHOOK_TEST_EVENT
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number]
+
+/**
+ * Body of `POST /api/webhooks` and the add webhook form
+ */
+export const createWebhookSchema = z.object({
+  url: z
+    .string({ required_error: 'URL is required' })
+    .trim()
+    .url('URL must be a valid URL')
+    .refine((url) => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  description: z
+    .string()
+    .trim()
+    .max(
+      MAX_WEBHOOK_DESCRIPTION_LENGTH,
+      `Description must be at most ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters`
+    )
+    .optional(),
+  events: z
+    .array(
+      z.enum(WEBHOOK_EVENTS, { message: `Events must be one of: ${WEBHOOK_EVENTS.join(', ')}` }),
+      { required_error: 'Events are required' }
+    )
+    .min(1, 'Select at least one event')
+    // Each event is only delivered once
+    .transform((events) => [...new Set(events)]),
+  /** Key the deliveries are signed with, generated when absent */
+  secret: z
+    .string()
+    .trim()
+    .min(
+      MIN_WEBHOOK_SECRET_LENGTH,
+      `Secret must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`
+    )
+    .max(
+      MAX_WEBHOOK_SECRET_LENGTH,
+      `Secret must be at most ${MAX_WEBHOOK_SECRET_LENGTH} characters`
+    )
+    .optional(),
+  active: z.boolean().optional(),
+})
+
+/**
+ * Body of `PATCH /api/webhooks/[id]`, sending a `secret` rotates it
+ */
+export const updateWebhookSchema = createWebhookSchema.partial()
+
+/**
+ * Search params of `GET /api/webhooks/deliveries`, newest first
+ */
+export const webhookDeliveryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+    .default(20),
+  webhookId: z.string().trim().optional(),
+  status: csvList(WEBHOOK_DELIVERY_STATUSES, 'Status'),
+  event: csvList([...WEBHOOK_EVENTS, WEBHOOK_TEST_EVENT], 'Event'),
+})
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>
+export type WebhookDeliveryQuery = z.infer<typeof webhookDeliveryQuerySchema>
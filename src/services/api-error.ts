@@ -0,0 +1,70 @@
+import { toFieldErrors } from '@/schemas/notification.schema'
+import { type Notification } from '@/types/notifications.types'
+import { type ProblemCode, type ProblemDetails } from '@/types/problem.types'
+import { type ZodError } from 'zod'
+
+/**
+ * Error thrown by the service functions when the API responds with a problem,
+ * keeping its status, stable `code` and per-field `errors` so callers can tell
+ * a missing notification from invalid data.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await updateNotification(id, data)
+ * } catch (error) {
+ *   if (isApiError(error) && error.code === 'validation_failed') {
+ *     console.log(error.errors) // { city: ['City is required'] }
+ *   }
+ * }
+ * ```
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: ProblemCode
+  readonly errors: Record<string, string[]>
+  /** `conflict` errors: the latest server copy */
+  readonly current?: Notification
+
+  constructor({ status, code, detail, title, errors, current }: Omit<ProblemDetails, 'type'>) {
+    super(detail || title)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+    this.errors = errors ?? {}
+    this.current = current
+  }
+
+  /**
+   * Builds an `ApiError` from a failed response, falling back to `message` when
+   * the body is not a problem document
+   */
+  static async fromResponse(response: Response, message: string) {
+    const body: Partial<ProblemDetails> | null = await response.json().catch(() => null)
+
+    return new ApiError({
+      status: response.status,
+      code: body?.code ?? (response.status === 404 ? 'not_found' : 'internal_error'),
+      title: body?.title ?? response.statusText,
+      detail: body?.detail ?? message,
+      errors: body?.errors,
+      current: body?.current,
+    })
+  }
+
+  /**
+   * Builds a `validation_failed` error from data rejected by the shared contract
+   * before it was sent, shaped like the API's own validation problems
+   */
+  static fromZodError(error: ZodError, message: string) {
+    return new ApiError({
+      status: 400,
+      code: 'validation_failed',
+      title: 'Bad Request',
+      detail: message,
+      errors: toFieldErrors(error),
+    })
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError
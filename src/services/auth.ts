@@ -0,0 +1,62 @@
+import { type SignInInput, signInSchema } from '@/schemas/auth.schema'
+import { type SessionUser } from '@/types/auth.types'
+import { ApiError } from './api-error'
+import { getBaseUrl } from './base-url'
+
+/**
+ * Signs in with an email and password, the API sets the session cookie.
+ *
+ * @param data - Credentials, validated with `signInSchema`.
+ * @returns Promise with the signed-in user.
+ * @throws ApiError with `invalid_credentials` if the email or password is wrong,
+ * `validation_failed` if the data is invalid, or the API's problem.
+ *
+ * @example
+ * ```ts
+ * const user = await signIn({ email: 'jane@example.com', password })
+ * ```
+ */
+const signIn = async (data: SignInInput): Promise<SessionUser> => {
+  const result = signInSchema.safeParse(data)
+  if (!result.success) {
+    throw ApiError.fromZodError(result.error, 'Invalid sign-in data')
+  }
+
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(result.data),
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to sign in')
+  }
+
+  return response.json()
+}
+
+/**
+ * Signs out, ending the session and removing its cookie.
+ *
+ * @throws ApiError if the API responds with a problem.
+ *
+ * @example
+ * ```ts
+ * await signOut()
+ * ```
+ */
+const signOut = async (): Promise<void> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/auth/logout`, {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to sign out')
+  }
+}
+
+export { signIn, signOut }
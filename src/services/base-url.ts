@@ -0,0 +1,22 @@
+/**
+ * Get the base URL for API requests
+ */
+export const getBaseUrl = () => {
+  if (typeof window !== 'undefined') return '' // browser should use relative url
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}` // SSR should use vercel url
+  return `http://localhost:${process.env.PORT ?? 3000}` // dev SSR should use localhost
+}
+
+/**
+ * Headers to send along with API requests. While rendering on the server the request
+ * is made on behalf of the visitor, their cookies are forwarded so it runs as the
+ * signed-in user. The browser sends its cookies itself.
+ */
+export const getForwardedHeaders = async (): Promise<Record<string, string>> => {
+  if (typeof window !== 'undefined') return {}
+
+  // Imported lazily, the services are bundled for the browser as well
+  const { headers } = await import('next/headers')
+  const cookie = (await headers()).get('cookie')
+  return cookie ? { cookie } : {}
+}
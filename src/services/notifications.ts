@@ -1,38 +1,120 @@
-import { type Notification } from '@/types/notifications.types'
+import {
+  type BulkNotificationInput,
+  bulkNotificationSchema,
+  type CreateNotificationInput,
+  createNotificationSchema,
+  type ExportFormat,
+  type ImportNotificationsInput,
+  importNotificationsSchema,
+  type StatsInterval,
+  type UpdateNotificationInput,
+  updateNotificationSchema,
+} from '@/schemas/notification.schema'
+import {
+  type AuditLogResponse,
+  type BulkNotificationResponse,
+  type ImportNotificationsResponse,
+  type Notification,
+  type NotificationStats,
+  type OffsetPaginationMetadata,
+  type PaginationMetadata,
+} from '@/types/notifications.types'
+import { toETag } from '@/lib/notifications/etag'
+import { type z } from 'zod'
+import { ApiError } from './api-error'
+import { getBaseUrl, getForwardedHeaders } from './base-url'
 
 /**
  * Response type for notifications API
  */
-export interface NotificationsResponse {
+export interface NotificationsResponse<TMetadata extends PaginationMetadata = PaginationMetadata> {
   data: Notification[]
-  metadata: {
-    currentPage: number
-    totalPages: number
-    pageSize: number
-    totalCount: number
-  }
+  metadata: TMetadata
 }
 
 /**
  * Parameters for fetching notifications
  */
 export interface FetchNotificationsParams {
+  /** Free-text search across the notification fields */
   query?: string
+  /** Comma separated list of statuses, e.g. `Delivered,Cancelled` */
   status?: string
+  /** Comma separated list of types, e.g. `Photo,Text` */
   type?: string
   page?: number
   limit?: number
+  /** Opt into keyset pagination, `page` is not sent then and `sort` is rejected by the API */
+  mode?: 'offset' | 'cursor'
+  /** Cursor mode: `nextCursor` of the previous response */
+  after?: string
+  /** Cursor mode: `prevCursor` of the previous response */
+  before?: string
+  /** Comma separated list of fields to sort by, e.g. `country,city` */
   sort?: string
-  order?: 'asc' | 'desc'
+  /** Comma separated `asc`/`desc` directions matching `sort`, e.g. `asc,desc` */
+  order?: string
 }
 
 /**
- * Get the base URL for API requests
+ * Parameters for fetching the audit log
  */
-const getBaseUrl = () => {
-  if (typeof window !== 'undefined') return '' // browser should use relative url
-  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}` // SSR should use vercel url
-  return `http://localhost:${process.env.PORT ?? 3000}` // dev SSR should use localhost
+export interface FetchAuditLogParams {
+  page?: number
+  limit?: number
+  /** Comma separated list of actions, e.g. `update,delete` */
+  action?: string
+  /** Only changes made by this actor */
+  actor?: string
+}
+
+/**
+ * Parameters for fetching notification statistics
+ */
+export interface FetchNotificationStatsParams
+  extends Pick<FetchNotificationsParams, 'query' | 'status' | 'type'> {
+  /** Bucket size of the time series, `day` by default */
+  interval?: StatsInterval
+  /** ISO-8601 start of the time series */
+  from?: string
+  /** ISO-8601 end of the time series, now by default */
+  to?: string
+  /** IANA time zone the buckets start in, UTC by default */
+  timeZone?: string
+  /** How many countries and cities to list */
+  top?: number
+}
+
+/**
+ * Validates outgoing data against the shared contract, so invalid data fails
+ * before reaching the network with the same `ApiError` the API would produce
+ */
+const validate = <T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> => {
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    throw ApiError.fromZodError(result.error, 'Invalid notification data')
+  }
+  return result.data
+}
+
+/**
+ * Adds the filter params shared by the list, export and stats endpoints
+ */
+const appendFilterParams = (
+  searchParams: URLSearchParams,
+  params: Pick<FetchNotificationsParams, 'query' | 'status' | 'type'>
+) => {
+  if (params.query) searchParams.append('query', params.query)
+  if (params.status) searchParams.append('status', params.status)
+  if (params.type) searchParams.append('type', params.type)
+}
+
+/**
+ * Adds the sort params shared by the list and export endpoints
+ */
+const appendSortParams = (searchParams: URLSearchParams, params: FetchNotificationsParams) => {
+  if (params.sort) searchParams.append('sort', params.sort)
+  if (params.order) searchParams.append('order', params.order)
 }
 
 /**
@@ -40,7 +122,7 @@ const getBaseUrl = () => {
  *
  * @param params - Query parameters for filtering, pagination, and sorting.
  * @returns <NotificationsResponse> Promise with notifications data and metadata.
- * @throws Error if the API request fails.
+ * @throws ApiError if the API responds with a problem.
  *
  * @example
  * ```ts
@@ -50,6 +132,13 @@ const getBaseUrl = () => {
  *   limit: 10,
  *   status: 'Delivered'
  * })
+ *
+ * // Fetch the page after the `nextCursor` of a previous cursor mode response
+ * const next = await getNotifications({
+ *   mode: 'cursor',
+ *   limit: 50,
+ *   after: nextCursor,
+ * })
  * ```
  */
 const getNotifications = async (
@@ -58,118 +147,452 @@ const getNotifications = async (
   const searchParams = new URLSearchParams()
 
   // Add pagination params
-  if (params.page) searchParams.append('page', params.page.toString())
   if (params.limit) searchParams.append('limit', params.limit.toString())
+  if (params.mode === 'cursor') {
+    searchParams.append('mode', 'cursor')
+    if (params.after) searchParams.append('after', params.after)
+    if (params.before) searchParams.append('before', params.before)
+  } else if (params.page) {
+    searchParams.append('page', params.page.toString())
+  }
 
-  try {
-    const baseUrl = getBaseUrl()
-    const response = await fetch(`${baseUrl}/api/notifications?${searchParams.toString()}`, {
-      next: {
-        revalidate: 0,
-        tags: ['notifications'],
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
+  appendFilterParams(searchParams, params)
+
+  // Add sorting params
+  appendSortParams(searchParams, params)
+
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications?${searchParams.toString()}`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['notifications'],
+    },
+  })
 
-    return response.json()
-  } catch (error) {
-    throw new Error(error instanceof Error ? error.message : 'Failed to fetch notifications')
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to fetch notifications')
   }
+
+  return response.json()
 }
 
+/**
+ * Builds the URL downloading every notification matching the filters and sort,
+ * pagination params are ignored.
+ *
+ * @param params - Filter and sort params, as passed to `getNotifications`.
+ * @param format - File format of the export.
+ * @returns Relative URL of the export, to be used as a download link.
+ *
+ * @example
+ * ```tsx
+ * <a href={getNotificationsExportUrl({ status: 'Delivered' }, 'csv')} download>
+ *   Export
+ * </a>
+ * ```
+ */
+const getNotificationsExportUrl = (params: FetchNotificationsParams, format: ExportFormat) => {
+  const searchParams = new URLSearchParams({ format })
+  appendFilterParams(searchParams, params)
+  appendSortParams(searchParams, params)
+
+  return `/api/notifications/export?${searchParams.toString()}`
+}
+
+/**
+ * URL of the Server-Sent Events stream of changes to the notifications
+ *
+ * @example
+ * ```ts
+ * const source = new EventSource(getNotificationsStreamUrl())
+ * ```
+ */
+const getNotificationsStreamUrl = () => '/api/notifications/stream'
+
 /**
  * Query key factory for notifications
  */
 export const notificationsQueryKey = (params: FetchNotificationsParams = {}) =>
   ['notifications', params] as const
 
+/**
+ * Query key factory for a single notification, nested under `notifications`
+ * so invalidating the list also refreshes the details
+ */
+export const notificationQueryKey = (id: string) => ['notifications', 'detail', id] as const
+
+/**
+ * Fetches a single notification by ID.
+ *
+ * @param id - ID of the notification to fetch.
+ * @returns Promise with the notification, or `null` if it does not exist.
+ * @throws ApiError if the API responds with a problem.
+ *
+ * @example
+ * ```ts
+ * const notification = await getNotification('65f1c0ffee0000000000abcd')
+ * ```
+ */
+const getNotification = async (id: string): Promise<Notification | null> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/${id}`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['notifications'],
+    },
+  })
+
+  if (!response.ok) {
+    const error = await ApiError.fromResponse(response, 'Failed to fetch notification')
+    // An invalid ID can't match a notification either
+    if (error.code === 'not_found' || error.code === 'invalid_id') {
+      return null
+    }
+    throw error
+  }
+
+  return response.json()
+}
+
+/**
+ * Query key factory for the statistics, nested under `notifications` so every change to
+ * the notifications refreshes them
+ */
+export const notificationStatsQueryKey = (params: FetchNotificationStatsParams = {}) =>
+  ['notifications', 'stats', params] as const
+
+/**
+ * Fetches counts, rates and a time series of the notifications matching the filters.
+ *
+ * @param params - Filter params, as passed to `getNotifications`, and time series options.
+ * @returns Promise with the statistics.
+ * @throws ApiError if the API responds with a problem.
+ *
+ * @example
+ * ```ts
+ * // Delivered notifications per week, weeks starting in Dubai
+ * const stats = await getNotificationStats({
+ *   status: 'Delivered',
+ *   interval: 'week',
+ *   timeZone: 'Asia/Dubai',
+ * })
+ * ```
+ */
+const getNotificationStats = async (
+  params: FetchNotificationStatsParams = {}
+): Promise<NotificationStats> => {
+  const searchParams = new URLSearchParams()
+  appendFilterParams(searchParams, params)
+  if (params.interval) searchParams.append('interval', params.interval)
+  if (params.from) searchParams.append('from', params.from)
+  if (params.to) searchParams.append('to', params.to)
+  if (params.timeZone) searchParams.append('timeZone', params.timeZone)
+  if (params.top) searchParams.append('top', params.top.toString())
+
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/stats?${searchParams.toString()}`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['notifications'],
+    },
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to fetch notification statistics')
+  }
+
+  return response.json()
+}
+
+/**
+ * Query key factory for the Trash, nested under `notifications` like the list
+ */
+export const trashQueryKey = (params: FetchNotificationsParams = {}) =>
+  ['notifications', 'trash', params] as const
+
+/**
+ * Query key factory for the audit log, of one notification when `id` is given.
+ * Nested under `notifications` so every change to the notifications refreshes it.
+ */
+export const auditLogQueryKey = (id?: string, params: FetchAuditLogParams = {}) =>
+  ['notifications', 'audit', id ?? 'all', params] as const
+
+/**
+ * Fetches a page of the audit log, newest first.
+ *
+ * @param params - Pagination and `action`/`actor` filters.
+ * @param id - Only fetch the history of this notification.
+ * @returns Promise with the audit log entries and pagination metadata.
+ * @throws ApiError if the API responds with a problem.
+ *
+ * @example
+ * ```ts
+ * // Who cancelled this notification?
+ * const { data } = await getAuditLog({ action: 'update' }, '65f1c0ffee0000000000abcd')
+ * ```
+ */
+const getAuditLog = async (
+  params: FetchAuditLogParams = {},
+  id?: string
+): Promise<AuditLogResponse> => {
+  const searchParams = new URLSearchParams()
+  if (params.page) searchParams.append('page', params.page.toString())
+  if (params.limit) searchParams.append('limit', params.limit.toString())
+  if (params.action) searchParams.append('action', params.action)
+  if (params.actor) searchParams.append('actor', params.actor)
+
+  const baseUrl = getBaseUrl()
+  const path = id ? `/api/notifications/${id}/audit` : '/api/notifications/audit'
+  const response = await fetch(`${baseUrl}${path}?${searchParams.toString()}`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['notifications'],
+    },
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to fetch audit log')
+  }
+
+  return response.json()
+}
+
+/**
+ * Fetches the notifications in the Trash, most recently deleted first unless sorted.
+ *
+ * @param params - Filter, sort and offset pagination params, as passed to `getNotifications`.
+ * @returns Promise with the deleted notifications and metadata.
+ * @throws ApiError if the API responds with a problem.
+ *
+ * @example
+ * ```ts
+ * const { data } = await getTrash({ page: 1, limit: 10, query: 'dubai' })
+ * ```
+ */
+const getTrash = async (
+  params: FetchNotificationsParams
+): Promise<NotificationsResponse<OffsetPaginationMetadata>> => {
+  const searchParams = new URLSearchParams()
+  if (params.page) searchParams.append('page', params.page.toString())
+  if (params.limit) searchParams.append('limit', params.limit.toString())
+  appendFilterParams(searchParams, params)
+  appendSortParams(searchParams, params)
+
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/trash?${searchParams.toString()}`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['notifications'],
+    },
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to fetch the Trash')
+  }
+
+  return response.json()
+}
+
 /**
  * Adds a new notification.
  *
- * @param data - Partial notification data to add.
+ * @param data - Notification data to add, validated with `createNotificationSchema`.
  * @returns Promise with the added notification.
- * @throws Error if the API request fails.
- */
-const addNotification = async (data: Partial<Notification>): Promise<Notification> => {
-  try {
-    const baseUrl = getBaseUrl()
-    const response = await fetch(`${baseUrl}/api/notifications`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
+ * @throws ApiError with `validation_failed` if the data is invalid, or the API's problem.
+ */
+const addNotification = async (data: CreateNotificationInput): Promise<Notification> => {
+  const body = validate(createNotificationSchema, data)
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
 
-    return response.json()
-  } catch (error) {
-    throw new Error(error instanceof Error ? error.message : 'Failed to add notification')
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to add notification')
   }
+
+  return response.json()
 }
 
 /**
- * Deletes a notification by ID.
+ * Moves a notification to the Trash by ID, it can be restored with `restoreNotification`.
  *
  * @param id - ID of the notification to delete.
  * @returns Promise that resolves when the notification is deleted.
- * @throws Error if the API request fails.
+ * @throws ApiError if the API responds with a problem.
  */
 const deleteNotification = async (id: string): Promise<boolean> => {
-  try {
-    const baseUrl = getBaseUrl()
-    const response = await fetch(`${baseUrl}/api/notifications?id=${id}`, {
-      method: 'DELETE',
-    })
-    const responseData = await response.json()
-    if (!response.ok) {
-      throw new Error(responseData.error || 'Failed to delete notification')
-    }
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/${id}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to delete notification')
+  }
+
+  return true
+}
+
+/**
+ * Restores a notification from the Trash.
+ *
+ * @param id - ID of the deleted notification.
+ * @returns Promise with the restored notification.
+ * @throws ApiError with `not_found` if it is not in the Trash, or the API's problem.
+ */
+const restoreNotification = async (id: string): Promise<Notification> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/trash/${id}/restore`, {
+    method: 'POST',
+  })
 
-    return true
-  } catch (error) {
-    throw new Error(error instanceof Error ? error.message : 'Failed to delete notification')
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to restore notification')
   }
+
+  return response.json()
 }
 
 /**
- * Updates an existing notification by ID.
+ * Permanently deletes a notification from the Trash.
+ *
+ * @param id - ID of the deleted notification.
+ * @returns Promise that resolves when the notification is purged.
+ * @throws ApiError with `not_found` if it is not in the Trash, or the API's problem.
+ */
+const purgeNotification = async (id: string): Promise<boolean> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/trash/${id}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to permanently delete notification')
+  }
+
+  return true
+}
+
+/**
+ * Updates an existing notification by ID, only the fields in `data` are changed.
  *
  * @param id - ID of the notification to update.
- * @param data - Partial notification data to update.
+ * @param data - Partial notification data to update, validated with `updateNotificationSchema`.
+ * @param version - Version the changes were made against, the update is rejected
+ * with a `conflict` ApiError if the notification has been changed since.
  * @returns Promise with the updated notification.
- * @throws Error if the API request fails.
+ * @throws ApiError with `validation_failed` if the data is invalid, or the API's problem.
  */
 const updateNotification = async (
   id: string,
-  data: Partial<Notification>
+  data: UpdateNotificationInput,
+  version?: number
 ): Promise<Notification> => {
-  try {
-    const baseUrl = getBaseUrl()
-    const response = await fetch(`${baseUrl}/api/notifications?id=${id}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    })
-
-    const responseData = await response.json()
-
-    if (!response.ok) {
-      throw new Error(responseData.error || 'Failed to update notification')
-    }
+  const body = validate(updateNotificationSchema, data)
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(version !== undefined && { 'If-Match': toETag(version) }),
+    },
+    body: JSON.stringify(body),
+  })
 
-    return responseData
-  } catch (error) {
-    throw new Error(error instanceof Error ? error.message : 'Failed to update notification')
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to update notification')
   }
+
+  return response.json()
 }
 
-export { addNotification, deleteNotification, getNotifications, updateNotification }
+/**
+ * Applies one action to many notifications.
+ *
+ * @param data - Action and ids, validated with `bulkNotificationSchema`.
+ * @returns Promise with the outcome for every id, some may have failed.
+ * @throws ApiError with `validation_failed` if the data is invalid, or the API's problem.
+ *
+ * @example
+ * ```ts
+ * const { succeeded, failed } = await bulkNotifications({ action: 'cancel', ids })
+ * ```
+ */
+const bulkNotifications = async (
+  data: BulkNotificationInput
+): Promise<BulkNotificationResponse> => {
+  const body = validate(bulkNotificationSchema, data)
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/bulk`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to apply bulk action')
+  }
+
+  return response.json()
+}
+
+/**
+ * Imports a batch of notifications, e.g. the mapped rows of a CSV file.
+ *
+ * @param data - Rows to import, each is validated by the API on its own.
+ * @returns Promise with the inserted/skipped/failed counts and the outcome of every row.
+ * @throws ApiError with `validation_failed` if there are no rows or too many, or the API's problem.
+ *
+ * @example
+ * ```ts
+ * const { inserted, failed } = await importNotifications({ rows })
+ * ```
+ */
+const importNotifications = async (
+  data: ImportNotificationsInput
+): Promise<ImportNotificationsResponse> => {
+  const body = validate(importNotificationsSchema, data)
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/notifications/import`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to import notifications')
+  }
+
+  return response.json()
+}
+
+export {
+  addNotification,
+  bulkNotifications,
+  deleteNotification,
+  getAuditLog,
+  getNotification,
+  getNotifications,
+  getNotificationsExportUrl,
+  getNotificationsStreamUrl,
+  getNotificationStats,
+  getTrash,
+  importNotifications,
+  purgeNotification,
+  restoreNotification,
+  updateNotification,
+}
@@ -0,0 +1,69 @@
+import { type SwitchTeamInput, switchTeamSchema } from '@/schemas/team.schema'
+import { type Team } from '@/types/teams.types'
+import { ApiError } from './api-error'
+import { getBaseUrl, getForwardedHeaders } from './base-url'
+
+/**
+ * Query key factory for the teams of the signed-in user
+ */
+export const teamsQueryKey = () => ['teams', 'list'] as const
+
+/**
+ * Fetches the teams of the signed-in user, by name.
+ *
+ * @returns Promise with the teams.
+ * @throws ApiError if the API responds with a problem.
+ */
+const getTeams = async (): Promise<Team[]> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/teams`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['teams'],
+    },
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to fetch teams')
+  }
+
+  return response.json()
+}
+
+/**
+ * Switches the active team of the signed-in user, kept for their next sessions too.
+ *
+ * @param data - Team to switch to, validated with `switchTeamSchema`.
+ * @returns Promise with the team switched to.
+ * @throws ApiError with `not_found` if the user isn't a member of the team, or the
+ * API's problem.
+ *
+ * @example
+ * ```ts
+ * const team = await switchTeam({ teamId })
+ * ```
+ */
+const switchTeam = async (data: SwitchTeamInput): Promise<Team> => {
+  const result = switchTeamSchema.safeParse(data)
+  if (!result.success) {
+    throw ApiError.fromZodError(result.error, 'Invalid team')
+  }
+
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/teams/active`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(result.data),
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to switch team')
+  }
+
+  return response.json()
+}
+
+export { getTeams, switchTeam }
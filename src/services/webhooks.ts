@@ -0,0 +1,248 @@
+import {
+  type CreateWebhookInput,
+  createWebhookSchema,
+  type UpdateWebhookInput,
+  updateWebhookSchema,
+} from '@/schemas/webhook.schema'
+import {
+  type CreatedWebhook,
+  type Webhook,
+  type WebhookDeliveriesResponse,
+  type WebhookDelivery,
+} from '@/types/webhooks.types'
+import { type z } from 'zod'
+import { ApiError } from './api-error'
+import { getBaseUrl, getForwardedHeaders } from './base-url'
+
+/**
+ * Parameters for fetching the delivery log
+ */
+export interface FetchWebhookDeliveriesParams {
+  page?: number
+  limit?: number
+  /** Only the deliveries of this webhook */
+  webhookId?: string
+  /** Comma separated list of statuses, e.g. `failed,pending` */
+  status?: string
+  /** Comma separated list of events, e.g. `notification.cancelled` */
+  event?: string
+}
+
+/**
+ * Validates outgoing data against the shared contract, so invalid data fails
+ * before reaching the network with the same `ApiError` the API would produce
+ */
+const validate = <T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> => {
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    throw ApiError.fromZodError(result.error, 'Invalid webhook data')
+  }
+  return result.data
+}
+
+/**
+ * Query key factory for the webhooks
+ */
+export const webhooksQueryKey = () => ['webhooks', 'list'] as const
+
+/**
+ * Query key factory for the delivery log, nested under `webhooks` so every change to
+ * the webhooks refreshes it
+ */
+export const webhookDeliveriesQueryKey = (params: FetchWebhookDeliveriesParams = {}) =>
+  ['webhooks', 'deliveries', params] as const
+
+/**
+ * Fetches every webhook, newest first.
+ *
+ * @returns Promise with the webhooks, their secrets reduced to a hint.
+ * @throws ApiError if the API responds with a problem.
+ */
+const getWebhooks = async (): Promise<Webhook[]> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/webhooks`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['webhooks'],
+    },
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to fetch webhooks')
+  }
+
+  return response.json()
+}
+
+/**
+ * Registers a webhook.
+ *
+ * @param data - Webhook data, validated with `createWebhookSchema`.
+ * @returns Promise with the webhook and its whole secret, only returned this once.
+ * @throws ApiError with `validation_failed` if the data is invalid, or the API's problem.
+ *
+ * @example
+ * ```ts
+ * const { secret } = await addWebhook({
+ *   url: 'https://partner.example.com/hooks/dnndon',
+ *   events: ['notification.delivered'],
+ * })
+ * ```
+ */
+const addWebhook = async (data: CreateWebhookInput): Promise<CreatedWebhook> => {
+  const body = validate(createWebhookSchema, data)
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/webhooks`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to add webhook')
+  }
+
+  return response.json()
+}
+
+/**
+ * Updates a webhook by ID, only the fields in `data` are changed.
+ *
+ * @param id - ID of the webhook to update.
+ * @param data - Partial webhook data, validated with `updateWebhookSchema`.
+ * @returns Promise with the updated webhook.
+ * @throws ApiError with `validation_failed` if the data is invalid, or the API's problem.
+ *
+ * @example
+ * ```ts
+ * await updateWebhook(id, { active: false })
+ * ```
+ */
+const updateWebhook = async (id: string, data: UpdateWebhookInput): Promise<Webhook> => {
+  const body = validate(updateWebhookSchema, data)
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/webhooks/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to update webhook')
+  }
+
+  return response.json()
+}
+
+/**
+ * Deletes a webhook by ID, along with its delivery log.
+ *
+ * @param id - ID of the webhook to delete.
+ * @returns Promise resolving to true once deleted.
+ * @throws ApiError if the API responds with a problem.
+ */
+const deleteWebhook = async (id: string): Promise<boolean> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/webhooks/${id}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to delete webhook')
+  }
+
+  return true
+}
+
+/**
+ * Sends a `webhook.test` event to a webhook, once and without retries.
+ *
+ * @param id - ID of the webhook to test.
+ * @returns Promise with the delivery once it was attempted, `status` tells the outcome.
+ * @throws ApiError if the API responds with a problem.
+ */
+const testWebhook = async (id: string): Promise<WebhookDelivery> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/webhooks/${id}/test`, {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to send test event')
+  }
+
+  return response.json()
+}
+
+/**
+ * Fetches a page of the delivery log, newest first.
+ *
+ * @param params - Pagination and `webhookId`/`status`/`event` filters.
+ * @returns Promise with the deliveries and pagination metadata.
+ * @throws ApiError if the API responds with a problem.
+ *
+ * @example
+ * ```ts
+ * const { data } = await getWebhookDeliveries({ status: 'failed', limit: 50 })
+ * ```
+ */
+const getWebhookDeliveries = async (
+  params: FetchWebhookDeliveriesParams = {}
+): Promise<WebhookDeliveriesResponse> => {
+  const searchParams = new URLSearchParams()
+  if (params.page) searchParams.append('page', params.page.toString())
+  if (params.limit) searchParams.append('limit', params.limit.toString())
+  if (params.webhookId) searchParams.append('webhookId', params.webhookId)
+  if (params.status) searchParams.append('status', params.status)
+  if (params.event) searchParams.append('event', params.event)
+
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/webhooks/deliveries?${searchParams.toString()}`, {
+    headers: await getForwardedHeaders(),
+    next: {
+      revalidate: 0,
+      tags: ['webhooks'],
+    },
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to fetch webhook deliveries')
+  }
+
+  return response.json()
+}
+
+/**
+ * Sends the payload of a delivery again, as a new delivery.
+ *
+ * @param id - ID of the delivery to replay, it must not be pending.
+ * @returns Promise with the new delivery once its first attempt was made.
+ * @throws ApiError with `conflict` if the delivery is still pending, or the API's problem.
+ */
+const replayWebhookDelivery = async (id: string): Promise<WebhookDelivery> => {
+  const baseUrl = getBaseUrl()
+  const response = await fetch(`${baseUrl}/api/webhooks/deliveries/${id}/replay`, {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, 'Failed to replay delivery')
+  }
+
+  return response.json()
+}
+
+export {
+  addWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  replayWebhookDelivery,
+  testWebhook,
+  updateWebhook,
+}
@@ -0,0 +1,15 @@
+import { type UserRole } from '@/schemas/auth.schema'
+
+/**
+ * Signed-in user as returned by the API and passed to the client, never carries the
+ * password hash
+ */
+export interface SessionUser {
+  id: string
+  email: string
+  name: string
+  /** What the user may do, see `ROLE_PERMISSIONS` */
+  role: UserRole
+  /** Active team, the API only reads and changes its data. `null` without a team. */
+  teamId: string | null
+}
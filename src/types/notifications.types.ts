@@ -1,19 +1,208 @@
+import {
+  type AuditAction,
+  type AuditedField,
+  type BulkAction,
+  type NotificationStatus,
+  type NotificationType,
+  type StatsInterval,
+} from '@/schemas/notification.schema'
+import { type ReceiptStatus } from '@/schemas/receipt.schema'
+import { type ProblemCode } from './problem.types'
+
+/**
+ * Notification as returned by the API, all timestamps are ISO-8601 strings
+ */
 export interface Notification {
   id: string
-  type: string
+  /** Team the notification belongs to */
+  teamId: string
+  type: NotificationType
   space: string
   country: string
   city: string
   dateTime: string
-  status: 'Delivered' | 'In Progress' | 'Cancelled'
+  status: NotificationStatus
+  /** When the notification goes live, `null` if it did right away */
+  scheduledAt: string | null
+  /** When the notification ends and becomes `Delivered`, `null` if it doesn't */
+  endsAt: string | null
+  /** When the status became `Delivered`, `null` until then */
+  deliveredAt: string | null
+  /** When the status became `Cancelled`, `null` until then */
+  cancelledAt: string | null
+  /** Why the notification was cancelled, `null` unless it is `Cancelled` */
+  cancellationReason: string | null
+  createdAt: string
+  updatedAt: string
+  /** Incremented on every update, send it back as `If-Match` to detect conflicts */
+  version: number
+  /** When the notification was moved to the Trash, `null` unless it is in the Trash */
+  deletedAt: string | null
+}
+
+/**
+ * Metadata of a page fetched with `page`/`limit` offset pagination
+ */
+export interface OffsetPaginationMetadata {
+  mode: 'offset'
+  currentPage: number
+  totalPages: number
+  pageSize: number
+  totalCount: number
+}
+
+/**
+ * Metadata of a page fetched with `mode=cursor` keyset pagination.
+ * The cursors are opaque and `null` when there is no page in that direction.
+ * There is no total, counting the filtered set would cost a scan on every page.
+ */
+export interface CursorPaginationMetadata {
+  mode: 'cursor'
+  pageSize: number
+  nextCursor: string | null
+  prevCursor: string | null
 }
 
+export type PaginationMetadata = OffsetPaginationMetadata | CursorPaginationMetadata
+
 export interface NotificationResponse {
   data: Notification[]
-  metadata: {
-    currentPage: number
-    totalPages: number
-    pageSize: number
-    totalCount: number
+  metadata: PaginationMetadata
+}
+
+/**
+ * Outcome of a bulk action for one id
+ */
+export interface BulkNotificationResult {
+  id: string
+  ok: boolean
+  /** Why the action failed for this id */
+  code?: ProblemCode
+  error?: string
+}
+
+/**
+ * Response of `POST /api/notifications/bulk`
+ */
+export interface BulkNotificationResponse {
+  action: BulkAction
+  results: BulkNotificationResult[]
+  succeeded: number
+  failed: number
+}
+
+/**
+ * Outcome of one row of an import, `row` is 1-based and excludes the header
+ */
+export interface ImportRowResult {
+  row: number
+  status: 'inserted' | 'skipped' | 'failed'
+  /** Failed rows: validation messages per field */
+  errors?: Record<string, string[]>
+  /** Skipped rows: why the row was not inserted */
+  reason?: string
+}
+
+/**
+ * Response of `POST /api/notifications/import`
+ */
+export interface ImportNotificationsResponse {
+  inserted: number
+  skipped: number
+  failed: number
+  results: ImportRowResult[]
+}
+
+/**
+ * Response of `POST /api/notifications/receipts`. `previousStatus` and `notificationStatus`
+ * are equal when the notification already had the reported status.
+ */
+export interface NotificationReceiptResult {
+  receiptId: string
+  notificationId: string
+  status: ReceiptStatus
+  previousStatus: NotificationStatus
+  notificationStatus: NotificationStatus
+  /** Whether the receipt was already applied, by an earlier request with the same ID */
+  duplicate: boolean
+  receivedAt: string
+}
+
+/**
+ * Value of one field before and after a change, `null` where the notification
+ * did not exist. Values are strings, dates are ISO-8601.
+ */
+export interface AuditChange {
+  field: AuditedField
+  before: string | null
+  after: string | null
+}
+
+/**
+ * One create, update or delete of a notification as recorded in the audit log
+ */
+export interface AuditLogEntry {
+  id: string
+  notificationId: string
+  action: AuditAction
+  /** Who made the change */
+  actor: string
+  changes: AuditChange[]
+  createdAt: string
+}
+
+/**
+ * Response of `GET /api/notifications/audit` and `GET /api/notifications/[id]/audit`
+ */
+export interface AuditLogResponse {
+  data: AuditLogEntry[]
+  metadata: OffsetPaginationMetadata
+}
+
+/**
+ * Notifications starting in one bucket of the stats time series
+ */
+export interface StatsBucket {
+  /** Start of the bucket in the requested time zone, as an ISO-8601 timestamp */
+  start: string
+  total: number
+  byStatus: Record<NotificationStatus, number>
+}
+
+/**
+ * Response of `GET /api/notifications/stats`
+ */
+export interface NotificationStats {
+  /** Notifications matching the filters */
+  total: number
+  /** Of them, the ones delivered and cancelled since midnight in `timeZone` */
+  today: { delivered: number; cancelled: number }
+  /** Share of them that were delivered, as a percentage with one decimal */
+  deliveryRate: number
+  /** Share of them that were cancelled, as a percentage with one decimal */
+  cancellationRate: number
+  /** Every status and type is listed, with 0 when none match */
+  byStatus: Record<NotificationStatus, number>
+  byType: Record<NotificationType, number>
+  /** The `top` countries and cities with the most notifications */
+  byCountry: { country: string; count: number }[]
+  byCity: { country: string; city: string; count: number }[]
+  /** Notifications per bucket of `dateTime`, buckets without any are left out */
+  series: {
+    interval: StatsInterval
+    timeZone: string
+    from: string
+    to: string
+    buckets: StatsBucket[]
   }
 }
+
+/**
+ * Data of an event of `GET /api/notifications/stream`, the SSE event name is its `type`.
+ * Created and updated notifications are sent as they are after the change, updates with
+ * the status they had before it. Deleted notifications are sent as their ID and team.
+ */
+export type NotificationEvent =
+  | { type: 'created'; notification: Notification }
+  | { type: 'updated'; notification: Notification; previousStatus: NotificationStatus }
+  | { type: 'deleted'; id: string; teamId: string }
@@ -0,0 +1,40 @@
+import { type Notification } from './notifications.types'
+
+/**
+ * Stable, machine readable identifiers of the API errors.
+ * Clients branch on these, the human readable `title`/`detail` may change.
+ */
+export type ProblemCode =
+  | 'invalid_json'
+  | 'invalid_id'
+  | 'invalid_query'
+  | 'invalid_precondition'
+  | 'invalid_signature'
+  | 'invalid_credentials'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'no_team'
+  | 'validation_failed'
+  | 'not_found'
+  | 'conflict'
+  | 'invalid_transition'
+  | 'internal_error'
+
+/**
+ * Error body returned by every API handler, served as `application/problem+json`
+ * following RFC 7807 with `code` and `errors` extension members
+ */
+export interface ProblemDetails {
+  /** Always `about:blank`, `code` identifies the problem instead */
+  type: string
+  /** HTTP status phrase, e.g. `Bad Request` */
+  title: string
+  status: number
+  code: ProblemCode
+  /** Human readable explanation of this occurrence */
+  detail?: string
+  /** Validation messages per field or search param */
+  errors?: Record<string, string[]>
+  /** `conflict` and `invalid_transition` problems: the latest server copy of the resource */
+  current?: Notification
+}
@@ -0,0 +1,7 @@
+/**
+ * Team as returned by the API
+ */
+export interface Team {
+  id: string
+  name: string
+}
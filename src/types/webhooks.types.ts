@@ -0,0 +1,79 @@
+import {
+  type WebhookDeliveryEvent,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from '@/schemas/webhook.schema'
+import { type Notification, type OffsetPaginationMetadata } from './notifications.types'
+
+/**
+ * Webhook subscription as returned by the API, the secret is only ever returned whole
+ * when the webhook is created
+ */
+export interface Webhook {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEvent[]
+  /** Inactive webhooks receive nothing, their pending deliveries fail */
+  active: boolean
+  /** Last characters of the secret, to tell secrets apart */
+  secretHint: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Response of `POST /api/webhooks`, store the secret to verify the signatures
+ */
+export interface CreatedWebhook extends Webhook {
+  secret: string
+}
+
+/**
+ * Body POSTed to a webhook, `id` is the same for every webhook the event is sent to
+ */
+export interface WebhookPayload {
+  id: string
+  type: WebhookDeliveryEvent
+  /** When the change happened, replays keep it */
+  createdAt: string
+  data: { notification: Notification } | { id: string } | { message: string }
+}
+
+/**
+ * One HTTP request of a delivery
+ */
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string
+  /** Status the webhook responded with, `null` when it couldn't be reached */
+  statusCode: number | null
+  /** Why the attempt failed, `null` on a 2xx response */
+  error: string | null
+  durationMs: number
+}
+
+/**
+ * A payload sent to one webhook with every attempt made to send it
+ */
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  event: WebhookDeliveryEvent
+  payload: WebhookPayload
+  status: WebhookDeliveryStatus
+  attempts: WebhookDeliveryAttempt[]
+  /** When the next attempt is due, `null` once the delivery succeeded or failed */
+  nextAttemptAt: string | null
+  /** The delivery this one replays, `null` for an original delivery */
+  replayOf: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Response of `GET /api/webhooks/deliveries`
+ */
+export interface WebhookDeliveriesResponse {
+  data: WebhookDelivery[]
+  metadata: OffsetPaginationMetadata
+}